@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { evaluateZoneAlerts, isEvaluatorRequest } from "@/lib/zone-alerts";
+
+export const dynamic = "force-dynamic";
+// Los reintentos de cada webhook pueden sumar varios segundos.
+export const maxDuration = 60;
+
+async function evaluate(req: Request) {
+  if (!isEvaluatorRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json(await evaluateZoneAlerts());
+}
+
+// GET para schedulers tipo Vercel Cron, POST para el script y curl.
+export const GET = evaluate;
+export const POST = evaluate;
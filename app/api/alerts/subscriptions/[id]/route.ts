@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import {
+  deleteSubscription,
+  getSubscription,
+  isSubscriptionRequest,
+  readDeliveryLogs,
+  toPublicSubscription,
+} from "@/lib/zone-alerts";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Un id inexistente y un secreto incorrecto responden igual.
+function notFound() {
+  return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const subscription = await getSubscription(id);
+  if (!subscription || !isSubscriptionRequest(req, subscription)) {
+    return notFound();
+  }
+
+  return NextResponse.json({
+    ...toPublicSubscription(subscription),
+    deliveries: await readDeliveryLogs(id),
+  });
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const subscription = await getSubscription(id);
+  if (!subscription || !isSubscriptionRequest(req, subscription)) {
+    return notFound();
+  }
+
+  await deleteSubscription(id);
+  return new NextResponse(null, { status: 204 });
+}
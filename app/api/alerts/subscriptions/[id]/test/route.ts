@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import {
+  getSubscription,
+  isSubscriptionRequest,
+  sendTestWebhook,
+} from "@/lib/zone-alerts";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const subscription = await getSubscription(id);
+  if (!subscription || !isSubscriptionRequest(req, subscription)) {
+    return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+  }
+
+  const delivery = await sendTestWebhook(subscription);
+  return NextResponse.json(delivery, { status: delivery.ok ? 200 : 502 });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  createSubscription,
+  getAlertClient,
+  MAX_SUBSCRIPTIONS_PER_CLIENT,
+  parseSubscriptionInput,
+  toCreatedSubscription,
+} from "@/lib/zone-alerts";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const clientId = getAlertClient(req);
+  if (!clientId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const input = parseSubscriptionInput(body);
+  if (!input.ok) {
+    return NextResponse.json(
+      { error: "Invalid subscription", details: input.error },
+      { status: 400 },
+    );
+  }
+
+  const subscription = await createSubscription(input.value, clientId);
+  if (!subscription) {
+    return NextResponse.json(
+      {
+        error: "Subscription limit reached",
+        details: `At most ${MAX_SUBSCRIPTIONS_PER_CLIENT} subscriptions per client are allowed.`,
+      },
+      { status: 429 },
+    );
+  }
+
+  // El secreto solo se devuelve acá: firma los webhooks y autoriza la gestión.
+  return NextResponse.json(toCreatedSubscription(subscription), {
+    status: 201,
+  });
+}
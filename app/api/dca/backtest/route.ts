@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import {
+  csvResponse,
+  DCA_BACKTEST_COLUMNS,
+  getExportFilename,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import { parseDcaBacktestQuery } from "@/lib/dca-backtest";
+import {
+  describeDcaSeriesError,
+  loadDcaBacktest,
+} from "@/lib/dca-backtest-data";
+
+export const revalidate = 3600;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const parsedQuery = parseDcaBacktestQuery(searchParams);
+  if (!parsedQuery.ok) {
+    return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+  }
+  const inputs = parsedQuery.value;
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  let backtest: Awaited<ReturnType<typeof loadDcaBacktest>>;
+  try {
+    backtest = await loadDcaBacktest(inputs);
+  } catch (error) {
+    const { status, body } = describeDcaSeriesError(error);
+    return NextResponse.json(body, { status });
+  }
+
+  if (!backtest.result) {
+    return NextResponse.json(
+      {
+        error: "Invalid date",
+        details: `No stored price on or after ${inputs.startDate}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const cacheHeaders = {
+    "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+  };
+
+  if (format === "csv") {
+    return csvResponse(
+      toCsv(backtest.result.purchases, DCA_BACKTEST_COLUMNS),
+      getExportFilename(`dca-backtest-${inputs.currency.toLowerCase()}`, "csv"),
+      cacheHeaders,
+    );
+  }
+
+  return NextResponse.json(
+    {
+      inputs,
+      ...backtest.result,
+      source: backtest.source,
+      syncedAt: backtest.syncedAt,
+      stale: backtest.stale,
+      staleReason: backtest.staleReason,
+    },
+    { headers: cacheHeaders },
+  );
+}
@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { getCurrencyFormatter } from "@/lib/currency";
+import { getDefaultBacktestStart } from "@/lib/dca-backtest";
+import { loadScenarioBacktest } from "@/lib/dca-backtest-data";
+import {
+  describeDcaScenario,
+  getScenarioInputs,
+  parseDcaScenario,
+} from "@/lib/dca-calculator";
+import {
+  PREVIEW_MONTE_CARLO_PATHS,
+  runDcaMonteCarlo,
+} from "@/lib/dca-monte-carlo";
+import { DCA_PRICE_PATH_LABELS } from "@/lib/dca-paths";
+import { BTC_PRICE_SYNC_SECONDS } from "@/lib/history-sources";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+// Vista previa de un escenario compartido; la URL la arma el metadata de
+// /dca-calculator con el escenario completo.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const scenario = parseDcaScenario(searchParams);
+  const inputs = getScenarioInputs(scenario);
+  if (!inputs) {
+    return NextResponse.json({ error: "Invalid scenario" }, { status: 400 });
+  }
+
+  const backtest =
+    scenario.mode === "backtest"
+      ? await loadScenarioBacktest(
+          inputs,
+          scenario.startDate ?? getDefaultBacktestStart(),
+        )
+      : null;
+  if (scenario.mode === "backtest" && !backtest) {
+    return NextResponse.json({ error: "Invalid scenario" }, { status: 400 });
+  }
+  const monteCarlo =
+    !backtest && inputs.pricePath === "montecarlo"
+      ? runDcaMonteCarlo(inputs, PREVIEW_MONTE_CARLO_PATHS)
+      : null;
+
+  const { title, summary } = describeDcaScenario(inputs, {
+    backtest,
+    monteCarlo,
+  });
+  const formatter = getCurrencyFormatter(inputs.currency, {
+    maximumFractionDigits: 0,
+  });
+  const profitLossPercentage =
+    monteCarlo?.profitLossPercentage.p50 ?? summary.profitLossPercentage;
+  const isPositive = profitLossPercentage >= 0;
+  const stats = monteCarlo
+    ? [
+        {
+          label: "Capital P50",
+          value: formatter.format(monteCarlo.totalInvested.p50),
+        },
+        {
+          label: "Valor P5",
+          value: formatter.format(monteCarlo.currentValue.p5),
+        },
+        {
+          label: "Valor P50",
+          value: formatter.format(monteCarlo.currentValue.p50),
+        },
+        {
+          label: "Valor P95",
+          value: formatter.format(monteCarlo.currentValue.p95),
+        },
+      ]
+    : [
+        { label: "Capital total", value: formatter.format(summary.totalInvested) },
+        { label: "BTC acumulado", value: `${summary.totalBitcoin.toFixed(6)} BTC` },
+        { label: "Precio promedio", value: formatter.format(summary.averageBuyPrice) },
+        {
+          label: backtest ? "Valor al último cierre" : "Valor al precio final",
+          value: formatter.format(summary.currentValue),
+        },
+      ];
+  const subtitle = backtest
+    ? `Precio real de BTC del ${backtest.startDate} al ${backtest.endDate}`
+    : `BTC de ${formatter.format(inputs.startingPrice)} a ${formatter.format(inputs.endingPrice)}${
+        inputs.pricePath === "linear" || monteCarlo
+          ? ""
+          : ` (${DCA_PRICE_PATH_LABELS[inputs.pricePath].toLowerCase()})`
+      }`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 64,
+          background: "linear-gradient(135deg, #0b0f17, #151b26)",
+          color: "#f5f5f5",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between" }}>
+          <div style={{ fontSize: 24, letterSpacing: 6, color: "#f7931a" }}>
+            CALCULADORA DCA
+          </div>
+          <div style={{ fontSize: 30, fontWeight: 700, color: "#f7931a" }}>
+            BitAtlas
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+          <div style={{ fontSize: 52, fontWeight: 700 }}>{title}</div>
+          <div style={{ display: "flex", alignItems: "center", gap: 24 }}>
+            <div style={{ fontSize: 28, color: "#a3acb9" }}>
+              {subtitle}
+            </div>
+            <div
+              style={{
+                fontSize: 28,
+                fontWeight: 700,
+                padding: "6px 18px",
+                borderRadius: 999,
+                color: isPositive ? "#34d399" : "#f87171",
+                background: isPositive
+                  ? "rgba(16,185,129,0.14)"
+                  : "rgba(239,68,68,0.14)",
+              }}
+            >
+              {`${monteCarlo ? "P50 " : ""}${isPositive ? "+" : ""}${profitLossPercentage.toFixed(2)}%`}
+            </div>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 20 }}>
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              style={{
+                flex: 1,
+                display: "flex",
+                flexDirection: "column",
+                gap: 10,
+                padding: 24,
+                borderRadius: 24,
+                border: "1px solid #2a3342",
+                background: "#111723",
+              }}
+            >
+              <div style={{ fontSize: 18, color: "#7c8696" }}>{stat.label}</div>
+              <div style={{ fontSize: 30, fontWeight: 700 }}>{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: {
+        // Un backtest llega hasta el último cierre y cambia con cada precio
+        // nuevo; la simulación depende solo de la URL.
+        "Cache-Control": backtest
+          ? `public, max-age=${BTC_PRICE_SYNC_SECONDS}, stale-while-revalidate=86400`
+          : "public, max-age=86400, immutable",
+      },
+    },
+  );
+}
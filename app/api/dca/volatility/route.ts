@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { parseCurrency } from "@/lib/currency";
+import {
+  describeDcaSeriesError,
+  loadDcaVolatility,
+} from "@/lib/dca-backtest-data";
+
+export const revalidate = 3600;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+
+  let volatility: Awaited<ReturnType<typeof loadDcaVolatility>>;
+  try {
+    volatility = await loadDcaVolatility(currency);
+  } catch (error) {
+    const { status, body } = describeDcaSeriesError(error);
+    return NextResponse.json(body, { status });
+  }
+
+  if (!volatility.calibration) {
+    return NextResponse.json(
+      {
+        error: "Upstream error",
+        details: "Not enough stored prices to measure volatility.",
+      },
+      { status: 502 },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      currency,
+      ...volatility.calibration,
+      source: volatility.source,
+      syncedAt: volatility.syncedAt,
+      stale: volatility.stale,
+      staleReason: volatility.staleReason,
+    },
+    {
+      headers: {
+        "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+      },
+    },
+  );
+}
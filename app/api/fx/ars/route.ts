@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { loadArsRates } from "@/lib/ars-rates";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 3600;
+
+export async function GET() {
+  try {
+    const snapshot = await loadArsRates();
+
+    return NextResponse.json(
+      { base: "USD", ...snapshot },
+      {
+        headers: {
+          "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+        },
+      },
+    );
+  } catch (error) {
+    const { status, body } = describeUpstreamError(error, "ARS rate sources");
+    return NextResponse.json(body, { status });
+  }
+}
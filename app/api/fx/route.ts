@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { loadLatestFxRates } from "@/lib/fx-rates";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 3600;
+
+export async function GET() {
+  try {
+    const rates = await loadLatestFxRates();
+
+    return NextResponse.json(
+      { base: "USD", rates },
+      {
+        headers: {
+          "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+        },
+      },
+    );
+  } catch (error) {
+    const { status, body } = describeUpstreamError(error, "FX providers");
+    return NextResponse.json(body, { status });
+  }
+}
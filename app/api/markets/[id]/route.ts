@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { fetchCoinDetailResult, isCoinId } from "@/lib/coin-details";
+import { parseCurrency } from "@/lib/currency";
+import {
+  COIN_HISTORY_COLUMNS,
+  csvResponse,
+  getExportFilename,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 300;
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  if (!isCoinId(id)) {
+    return NextResponse.json({ error: "Invalid coin id" }, { status: 400 });
+  }
+
+  try {
+    const result = await fetchCoinDetailResult(id, currency);
+    if (result === null) {
+      return NextResponse.json({ error: "Coin not found" }, { status: 404 });
+    }
+    const cacheHeaders = {
+      "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+    };
+
+    // El CSV exporta el histórico de precios; el detalle de la moneda va en JSON.
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(result.history, COIN_HISTORY_COLUMNS),
+        getExportFilename(`${id}-history-${currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
+
+    return NextResponse.json(
+      {
+        data: result.coin,
+        history: result.history,
+        currency,
+        fxRate: result.fxRate,
+        detailSource: result.detailSource,
+        historySource: result.historySource,
+        historyError: result.historyError,
+        updatedAt: new Date().toISOString(),
+      },
+      { headers: cacheHeaders },
+    );
+  } catch (error) {
+    const { status, body } = describeUpstreamError(error, "CoinGecko");
+    return NextResponse.json(body, { status });
+  }
+}
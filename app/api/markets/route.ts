@@ -1,24 +1,61 @@
 import { NextResponse } from "next/server";
-import { fetchCryptoMarkets } from "@/lib/crypto-markets";
+import { fetchCryptoMarketsPage } from "@/lib/crypto-markets";
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  MARKET_COLUMNS,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import { parseMarketQuery } from "@/lib/market-query";
+import { describeUpstreamError } from "@/lib/upstream-schema";
 
 export const revalidate = 300;
 
-export async function GET() {
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const query = parseMarketQuery(searchParams);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
   try {
-    const data = await fetchCryptoMarkets();
+    const result = await fetchCryptoMarketsPage(query, currency);
+    const { markets, provider, attempts, fxRate, fxUnavailable, paging } =
+      result;
+    const cacheHeaders = {
+      "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+    };
+
+    // Exporta la misma página, orden y filtros que pide la query.
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(markets, MARKET_COLUMNS),
+        getExportFilename(`markets-${result.currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
 
     return NextResponse.json(
-      { data, updatedAt: new Date().toISOString() },
       {
-        headers: {
-          "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
-        },
+        data: markets,
+        // USD si la cotización de la moneda pedida no estuvo disponible.
+        currency: result.currency,
+        fxRate,
+        fxUnavailable,
+        provider,
+        attempts,
+        query,
+        paging,
+        updatedAt: new Date().toISOString(),
       },
+      { headers: cacheHeaders },
     );
   } catch (error) {
-    return NextResponse.json(
-      { error: "Fetch failed", details: String(error) },
-      { status: 500 },
-    );
+    const { status, body } = describeUpstreamError(error, "market providers");
+    return NextResponse.json(body, { status });
   }
 }
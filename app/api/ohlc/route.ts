@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  OHLC_COLUMNS,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import {
+  DEFAULT_OHLC_LIMITS,
+  loadBtcCandles,
+  parseOhlcResolution,
+} from "@/lib/ohlc";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 300;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const resolution = parseOhlcResolution(searchParams.get("resolution")); // 1h | 1d | 1w
+  const limit = Number(
+    searchParams.get("limit") ?? DEFAULT_OHLC_LIMITS[resolution],
+  );
+  const currency = parseCurrency(searchParams.get("currency"));
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  try {
+    const result = await loadBtcCandles(
+      resolution,
+      currency,
+      Number.isFinite(limit) ? limit : DEFAULT_OHLC_LIMITS[resolution],
+    );
+
+    if (result.candles.length === 0) {
+      return NextResponse.json(
+        { error: "Upstream error", details: "No candles available." },
+        { status: 502 },
+      );
+    }
+
+    const candles = result.candles.map((candle) => ({
+      timestamp: Math.floor(candle.time / 1000),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    }));
+    const cacheHeaders = {
+      "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=3600`,
+    };
+
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(candles, OHLC_COLUMNS),
+        getExportFilename(`ohlc-${resolution}-${currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
+
+    return NextResponse.json(
+      {
+        resolution,
+        currency,
+        source: result.source,
+        approximate: result.approximate,
+        fallbackReason: result.fallbackReason,
+        candles,
+      },
+      { headers: cacheHeaders },
+    );
+  } catch (error) {
+    const { status, body } = describeUpstreamError(error, "Kraken");
+    return NextResponse.json(body, { status });
+  }
+}
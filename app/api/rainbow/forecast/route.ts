@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  getRainbowBoundaryColumns,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import { loadRainbowModel } from "@/lib/rainbow-data";
+import {
+  getZoneTarget,
+  parseForecastDate,
+  parseForecastQuery,
+  parseZoneIndex,
+  projectRainbowBands,
+} from "@/lib/rainbow-forecast";
+import { getRainbowZones, parseRainbowParams } from "@/lib/rainbow-model";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 3600;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const params = parseRainbowParams(searchParams);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  let model: Awaited<ReturnType<typeof loadRainbowModel>>;
+  try {
+    model = await loadRainbowModel(currency, params);
+  } catch (error) {
+    const { status, body } = describeUpstreamError(
+      error,
+      "charts.bitcoin.com",
+    );
+    return NextResponse.json(body, { status });
+  }
+
+  // zone/date piden el precio necesario para llegar a la zona N en la fecha X.
+  const zoneParam = searchParams.get("zone");
+  const dateParam = searchParams.get("date");
+  const zone = zoneParam === null ? null : parseZoneIndex(zoneParam, params);
+  const targetDate = dateParam === null ? null : parseForecastDate(dateParam);
+
+  if (zoneParam !== null && zone === null) {
+    return NextResponse.json({ error: "Invalid zone" }, { status: 400 });
+  }
+  if (dateParam !== null && targetDate === null) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  const last = model.points[model.points.length - 1];
+  const query = parseForecastQuery(searchParams, last.date);
+  const projection = projectRainbowBands(model, query).map(
+    ({ date, baseline, boundaries }) => ({ date, baseline, boundaries }),
+  );
+  const cacheHeaders = {
+    "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+  };
+
+  // El CSV lleva solo la proyección; el objetivo de zona queda en el JSON.
+  if (format === "csv") {
+    return csvResponse(
+      toCsv(projection, getRainbowBoundaryColumns(params.multipliers.length, false)),
+      getExportFilename(`rainbow-forecast-${currency.toLowerCase()}`, "csv"),
+      cacheHeaders,
+    );
+  }
+
+  return NextResponse.json(
+    {
+      currency,
+      query,
+      coefficients: model.coefficients,
+      lastPrice: { date: last.date, price: last.value },
+      zones: getRainbowZones(params),
+      projection,
+      target:
+        zone === null
+          ? null
+          : getZoneTarget(model, zone, targetDate ?? query.to, last.value),
+      source: model.source,
+      stale: model.stale,
+    },
+    { headers: cacheHeaders },
+  );
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  getRainbowBoundaryColumns,
+  parseExportFormat,
+  toCsv,
+} from "@/lib/data-export";
+import { limitPoints, toIsoDate } from "@/lib/price-history";
+import { loadRainbowModel } from "@/lib/rainbow-data";
+import {
+  buildBoundaryRow,
+  getGenesisMs,
+  getRainbowZones,
+  parseRainbowParams,
+  TOP_BAND_HEADROOM,
+} from "@/lib/rainbow-model";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 3600;
+
+const DEFAULT_BOUNDARY_LIMIT = 2000;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const params = parseRainbowParams(searchParams);
+  // Cantidad de fechas con límites de zona; el ajuste siempre usa toda la serie.
+  const limit = Number(searchParams.get("limit") ?? DEFAULT_BOUNDARY_LIMIT);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  try {
+    const model = await loadRainbowModel(currency, params);
+    const points = limitPoints(
+      model.points,
+      Number.isFinite(limit) ? limit : DEFAULT_BOUNDARY_LIMIT,
+    );
+    const boundaries = points.map((point) =>
+      buildBoundaryRow(model, point.date, point.value),
+    );
+    const cacheHeaders = {
+      "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+    };
+
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(
+          boundaries,
+          getRainbowBoundaryColumns(params.multipliers.length, true),
+        ),
+        getExportFilename(`rainbow-${currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
+
+    return NextResponse.json(
+      {
+        currency,
+        model: {
+          coefficients: model.coefficients,
+          genesis: toIsoDate(getGenesisMs(params)),
+          genesisOffsetDays: params.genesisOffsetDays,
+          regressionStart: params.regressionStart,
+          multipliers: params.multipliers,
+          tightening: params.tightening,
+          topBandHeadroom: TOP_BAND_HEADROOM,
+        },
+        fit: model.stats,
+        zones: getRainbowZones(params),
+        boundaries,
+        source: model.source,
+        syncedAt: model.syncedAt,
+        stale: model.stale,
+        staleReason: model.staleReason,
+      },
+      { headers: cacheHeaders },
+    );
+  } catch (error) {
+    const { status, body } = describeUpstreamError(
+      error,
+      "charts.bitcoin.com",
+    );
+    return NextResponse.json(body, { status });
+  }
+}
@@ -1,47 +1,104 @@
 import { NextResponse } from "next/server";
-
-const UPSTREAM = "https://charts.bitcoin.com/api/v1/charts/rainbow";
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  parseExportFormat,
+  PRICE_HISTORY_COLUMNS,
+  toCsv,
+} from "@/lib/data-export";
+import { convertHistory, loadFxSeries } from "@/lib/fx-rates";
+import { syncBtcPriceHistory } from "@/lib/history-sources";
+import { limitPoints, type HistoryPoint } from "@/lib/price-history";
+import { describeUpstreamError } from "@/lib/upstream-schema";
 
 // opcional: cachear 1 hora
 export const revalidate = 3600;
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+const TIMESPAN_DAYS: Record<string, number> = {
+  "30d": 30,
+  "1y": 365,
+  "2y": 730,
+  "5y": 1825,
+};
+
+function filterTimespan(points: HistoryPoint[], timespan: string) {
+  const days = TIMESPAN_DAYS[timespan];
+  if (!days) return points;
+  const from = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+  return points.filter((point) => point.date >= from);
+}
+
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
 
-  // Permitimos pasar algunos params comunes del upstream
-  const interval = searchParams.get("interval") ?? "daily"; // hourly | daily | weekly
+  // Mantenemos los params del upstream, aplicados sobre el histórico local (diario)
   const timespan = searchParams.get("timespan") ?? "all"; // 30d | 1y | 2y | 5y | all
-  const limit = searchParams.get("limit") ?? "5000";
-
-  const url = new URL(UPSTREAM);
-  url.searchParams.set("interval", interval);
-  url.searchParams.set("timespan", timespan);
-  url.searchParams.set("limit", limit);
+  const limit = Number(searchParams.get("limit") ?? "5000");
+  const currency = parseCurrency(searchParams.get("currency"));
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
 
   try {
-    const res = await fetch(url.toString(), {
-      // Cache ISR en Next (server-side)
-      cache: "no-store",
-      headers: {
-        accept: "application/json",
-      },
-    });
+    let history: Awaited<ReturnType<typeof syncBtcPriceHistory>>;
+    let fx: Awaited<ReturnType<typeof loadFxSeries>>;
+    try {
+      [history, fx] = await Promise.all([
+        syncBtcPriceHistory(),
+        loadFxSeries(currency),
+      ]);
+    } catch (error) {
+      const { status, body } = describeUpstreamError(
+        error,
+        "charts.bitcoin.com",
+      );
+      return NextResponse.json(body, { status });
+    }
+
+    const points = limitPoints(
+      filterTimespan(convertHistory(history.points, fx), timespan),
+      limit,
+    );
 
-    if (!res.ok) {
+    if (points.length === 0) {
       return NextResponse.json(
-        { error: "Upstream error", status: res.status },
+        { error: "Upstream error", details: "No price history available." },
         { status: 502 },
       );
     }
 
-    const data = await res.json();
+    const cacheHeaders = {
+      // Cache también a nivel CDN/browser
+      "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+    };
+
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(points, PRICE_HISTORY_COLUMNS),
+        getExportFilename(`btc-price-${currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
 
-    return NextResponse.json(data, {
-      headers: {
-        // Cache también a nivel CDN/browser
-        "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+    return NextResponse.json(
+      {
+        data: {
+          price: points.map((point) => ({
+            timestamp: Date.parse(`${point.date}T00:00:00Z`) / 1000,
+            price: point.value,
+          })),
+        },
+        currency,
+        source: history.meta.source,
+        syncedAt: history.meta.syncedAt,
+        stale: history.stale,
+        staleReason: history.staleReason,
       },
-    });
+      { headers: cacheHeaders },
+    );
   } catch (err) {
     return NextResponse.json(
       { error: "Fetch failed", details: String(err) },
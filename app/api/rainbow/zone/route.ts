@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { parseCurrency } from "@/lib/currency";
+import { loadRainbowModel, readRainbowZone } from "@/lib/rainbow-data";
+import { parseForecastDate } from "@/lib/rainbow-forecast";
+import { parseRainbowParams } from "@/lib/rainbow-model";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+export const revalidate = 3600;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const params = parseRainbowParams(searchParams);
+
+  // Sin date/price clasifica el último cierre; con ambos, un escenario a mano.
+  const dateParam = searchParams.get("date");
+  const priceParam = searchParams.get("price");
+  const date = dateParam === null ? null : parseForecastDate(dateParam);
+  const price = priceParam === null ? null : Number(priceParam);
+
+  if (dateParam !== null && date === null) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+  if (price !== null && !(Number.isFinite(price) && price > 0)) {
+    return NextResponse.json({ error: "Invalid price" }, { status: 400 });
+  }
+
+  let model: Awaited<ReturnType<typeof loadRainbowModel>>;
+  try {
+    model = await loadRainbowModel(currency, params);
+  } catch (error) {
+    const { status, body } = describeUpstreamError(
+      error,
+      "charts.bitcoin.com",
+    );
+    return NextResponse.json(body, { status });
+  }
+
+  const reading = readRainbowZone(model, date, price);
+  if (!reading) {
+    return NextResponse.json(
+      {
+        error: "Price required",
+        details: `No stored price for ${date}; pass price to classify it.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      currency,
+      ...reading,
+      source: model.source,
+      stale: model.stale,
+    },
+    {
+      headers: {
+        "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=86400`,
+      },
+    },
+  );
+}
@@ -1,71 +1,92 @@
 import { NextResponse } from "next/server";
-
-const BGEOMETRICS_REALIZED_PRICE_URL =
-  "https://charts.bgeometrics.com/files/realized_price.json";
-const BGEOMETRICS_BTC_PRICE_URL =
-  "https://charts.bgeometrics.com/files/realized_price_btc_price.json";
-
-type BGeometricsRealizedPriceResponse = [number, number][];
+import { parseCurrency } from "@/lib/currency";
+import {
+  csvResponse,
+  getExportFilename,
+  parseExportFormat,
+  REALIZED_COLUMNS,
+  toCsv,
+} from "@/lib/data-export";
+import {
+  convertHistory,
+  createFxConverter,
+  loadFxSeries,
+} from "@/lib/fx-rates";
+import { syncRealizedPriceHistory } from "@/lib/history-sources";
+import {
+  computeMvrvSeries,
+  DEFAULT_MVRV_THRESHOLDS,
+  summarizeRealizedPrice,
+  type MvrvPoint,
+} from "@/lib/realized-metrics";
+import {
+  aggregateByResolution,
+  downsampleLttb,
+  filterByDateRange,
+  parseRealizedQuery,
+} from "@/lib/realized-query";
+import { describeUpstreamError } from "@/lib/upstream-schema";
 
 type RealizedPricePoint = {
   date: string;
   realizedPrice: number;
-  btcPrice?: number;
+  btcPrice: number;
 };
 
 export const revalidate = 3600;
 
-export async function GET() {
-  try {
-    const [realizedResponse, btcPriceResponse] = await Promise.all([
-      fetch(BGEOMETRICS_REALIZED_PRICE_URL, {
-        next: { revalidate },
-        headers: {
-          Accept: "application/json",
-        },
-      }),
-      fetch(BGEOMETRICS_BTC_PRICE_URL, {
-        next: { revalidate },
-        headers: {
-          Accept: "application/json",
-        },
-      }),
-    ]);
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const currency = parseCurrency(searchParams.get("currency"));
+  const parsedQuery = parseRealizedQuery(searchParams);
+  if (!parsedQuery.ok) {
+    return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+  }
+  const query = parsedQuery.value;
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
 
-    if (!realizedResponse.ok || !btcPriceResponse.ok) {
-      return NextResponse.json(
-        { error: "Failed to fetch realized price data." },
-        { status: 502 },
-      );
+  try {
+    let history: Awaited<ReturnType<typeof syncRealizedPriceHistory>>;
+    let fx: Awaited<ReturnType<typeof loadFxSeries>>;
+    try {
+      [history, fx] = await Promise.all([
+        syncRealizedPriceHistory(),
+        loadFxSeries(currency),
+      ]);
+    } catch (error) {
+      const { status, body } = describeUpstreamError(error, "BGeometrics");
+      return NextResponse.json(body, { status });
     }
 
-    const realizedPayload =
-      (await realizedResponse.json()) as BGeometricsRealizedPriceResponse;
-    const btcPricePayload =
-      (await btcPriceResponse.json()) as BGeometricsRealizedPriceResponse;
+    const { realized, btcPrice } = history;
 
     const btcPriceByDate = new Map(
-      (btcPricePayload ?? []).map(([timestamp, btcPrice]) => [
-        new Date(timestamp).toISOString().slice(0, 10),
-        Number(btcPrice),
+      convertHistory(btcPrice.points, fx).map((point) => [
+        point.date,
+        point.value,
       ]),
     );
 
-    const points: RealizedPricePoint[] = (realizedPayload ?? [])
-      .map(([timestamp, realizedPrice]) => ({
-        date: new Date(timestamp).toISOString().slice(0, 10),
-        realizedPrice: Number(realizedPrice),
-        btcPrice: btcPriceByDate.get(
-          new Date(timestamp).toISOString().slice(0, 10),
-        ),
+    const pricedPoints = convertHistory(realized.points, fx)
+      .map((point) => ({
+        date: point.date,
+        realizedPrice: point.value,
+        btcPrice: btcPriceByDate.get(point.date),
       }))
       .filter(
-        (point) =>
-          point.date &&
+        (point): point is RealizedPricePoint =>
+          Boolean(point.date) &&
           Number.isFinite(point.realizedPrice) &&
           point.realizedPrice > 0 &&
           Number.isFinite(point.btcPrice),
       );
+    const mvrv = computeMvrvSeries(pricedPoints);
+    const points: (RealizedPricePoint & MvrvPoint)[] = pricedPoints.map(
+      (point, index) => ({ ...point, ...mvrv[index] }),
+    );
 
     if (points.length === 0) {
       return NextResponse.json(
@@ -74,17 +95,48 @@ export async function GET() {
       );
     }
 
+    const lastDate = points[points.length - 1].date;
+
+    // El MVRV se calcula sobre toda la historia (el Z-score acumula desde el
+    // inicio) y recién después se recorta, agrega y reduce.
+    const rangePoints = filterByDateRange(points, query.from, query.to);
+    const resolvedPoints = aggregateByResolution(rangePoints, query.resolution);
+    // La forma se mide sobre el precio en escala log, igual que el gráfico.
+    const responsePoints =
+      query.maxPoints === null
+        ? resolvedPoints
+        : downsampleLttb(resolvedPoints, query.maxPoints, (point) =>
+            Math.log10(point.btcPrice),
+          );
+    const cacheHeaders = {
+      "Cache-Control": "s-maxage=3600, stale-while-revalidate=86400",
+    };
+
+    if (format === "csv") {
+      return csvResponse(
+        toCsv(responsePoints, REALIZED_COLUMNS),
+        getExportFilename(`realized-${currency.toLowerCase()}`, "csv"),
+        cacheHeaders,
+      );
+    }
+
     return NextResponse.json(
       {
         source: "BGeometrics",
-        updatedAt: `${points[points.length - 1].date}T00:00:00.000Z`,
-        points,
-      },
-      {
-        headers: {
-          "Cache-Control": "s-maxage=3600, stale-while-revalidate=86400",
-        },
+        currency,
+        // Cotización aplicada al último punto, para volver a USD del lado del cliente.
+        fxRate: createFxConverter(fx.points)(lastDate),
+        updatedAt: `${lastDate}T00:00:00.000Z`,
+        syncedAt: realized.meta.syncedAt,
+        stale: realized.stale || btcPrice.stale,
+        staleReason: realized.staleReason ?? btcPrice.staleReason,
+        mvrvThresholds: DEFAULT_MVRV_THRESHOLDS,
+        query,
+        totalPoints: resolvedPoints.length,
+        summary: summarizeRealizedPrice(rangePoints),
+        points: responsePoints,
       },
+      { headers: cacheHeaders },
     );
   } catch {
     return NextResponse.json(
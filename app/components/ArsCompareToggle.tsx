@@ -0,0 +1,35 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { writeArsCompareCookie } from "@/lib/currency";
+import { useArsCompare } from "./useCurrency";
+
+export default function ArsCompareToggle() {
+  const router = useRouter();
+  const enabled = useArsCompare();
+
+  const toggle = () => {
+    writeArsCompareCookie(!enabled);
+    router.refresh();
+  };
+
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={enabled}
+      onClick={toggle}
+      className={`inline-flex cursor-pointer items-center gap-2 rounded-full border px-3 py-1.5 text-xs font-semibold transition ${
+        enabled
+          ? "border-btc bg-[rgba(247,147,26,0.10)] text-foreground"
+          : "border-border bg-card text-text-secondary hover:text-foreground"
+      }`}
+    >
+      <span
+        aria-hidden="true"
+        className={`h-2 w-2 rounded-full ${enabled ? "bg-btc" : "bg-text-muted"}`}
+      />
+      Dólar oficial · MEP · blue
+    </button>
+  );
+}
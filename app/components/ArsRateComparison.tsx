@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ArsRatesSnapshot } from "@/lib/ars-rates";
+import { ARS_RATE_LABELS, getCurrencyFormatter } from "@/lib/currency";
+import ArsRateSummary, { formatSpread } from "./ArsRateSummary";
+
+const valueFormatter = getCurrencyFormatter("ARS", { maximumFractionDigits: 0 });
+
+export type ArsValuationRow = {
+  label: string;
+  // Valor en USD; se multiplica por cada cotización del peso.
+  usdValue: number;
+};
+
+type ArsRateComparisonProps = {
+  title: string;
+  rows: ArsValuationRow[];
+};
+
+type ArsRatesState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; snapshot: ArsRatesSnapshot };
+
+function isSnapshot(value: unknown): value is ArsRatesSnapshot {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as ArsRatesSnapshot).quotes)
+  );
+}
+
+export default function ArsRateComparison({ title, rows }: ArsRateComparisonProps) {
+  const [state, setState] = useState<ArsRatesState>({ status: "loading" });
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadRates() {
+      try {
+        const response = await fetch("/api/fx/ars");
+        const payload: unknown = await response.json();
+        if (!response.ok || !isSnapshot(payload)) {
+          const body = payload as { details?: string; error?: string } | null;
+          throw new Error(
+            body?.details || body?.error || "Respuesta inválida de /api/fx/ars",
+          );
+        }
+        if (active) setState({ status: "ready", snapshot: payload });
+      } catch (error) {
+        if (active) {
+          setState({
+            status: "error",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    loadRates();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return (
+    <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+          Peso argentino
+        </p>
+        <h3 className="mt-2 text-2xl font-semibold tracking-tight">{title}</h3>
+      </div>
+
+      {state.status === "loading" ? (
+        <p className="mt-5 text-sm text-text-secondary">
+          Cargando cotizaciones del dólar...
+        </p>
+      ) : null}
+
+      {state.status === "error" ? (
+        <p className="mt-5 text-sm text-red-500 dark:text-red-400">
+          No se pudieron cargar las cotizaciones: {state.message}
+        </p>
+      ) : null}
+
+      {state.status === "ready" ? (
+        <div className="mt-5 space-y-5">
+          <ArsRateSummary
+            quotes={state.snapshot.quotes}
+            sourceLabel={state.snapshot.sourceLabel}
+            stale={state.snapshot.stale}
+          />
+
+          <div className="overflow-x-auto rounded-2xl border border-border">
+            <table className="min-w-full text-left text-sm">
+              <thead className="bg-background-secondary">
+                <tr>
+                  <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.18em] text-text-muted">
+                    Valor
+                  </th>
+                  {state.snapshot.quotes.map((quote) => (
+                    <th
+                      key={quote.kind}
+                      className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.18em] text-text-muted"
+                    >
+                      {ARS_RATE_LABELS[quote.kind]}
+                      {quote.kind === "oficial"
+                        ? null
+                        : ` (${formatSpread(quote.spread)})`}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-t border-border">
+                    <td className="whitespace-nowrap px-4 py-3 font-medium text-foreground">
+                      {row.label}
+                    </td>
+                    {state.snapshot.quotes.map((quote) => (
+                      <td
+                        key={quote.kind}
+                        className="whitespace-nowrap px-4 py-3 text-text-secondary"
+                      >
+                        {valueFormatter.format(row.usdValue * quote.rate)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
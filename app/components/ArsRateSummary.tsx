@@ -0,0 +1,50 @@
+import type { ArsRateQuote } from "@/lib/ars-rates";
+import { ARS_RATE_LABELS, getCurrencyFormatter } from "@/lib/currency";
+
+const rateFormatter = getCurrencyFormatter("ARS", { maximumFractionDigits: 2 });
+
+export function formatSpread(value: number) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+type ArsRateSummaryProps = {
+  quotes: ArsRateQuote[];
+  sourceLabel: string;
+  stale?: boolean;
+};
+
+export default function ArsRateSummary({
+  quotes,
+  sourceLabel,
+  stale = false,
+}: ArsRateSummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        {quotes.map((quote) => (
+          <div
+            key={quote.kind}
+            className="rounded-2xl border border-border bg-card px-4 py-3"
+          >
+            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+              Dólar {ARS_RATE_LABELS[quote.kind]}
+            </p>
+            <p className="mt-2 text-lg font-semibold">
+              {rateFormatter.format(quote.rate)}
+            </p>
+            <p className="mt-1 text-xs text-text-secondary">
+              {quote.kind === "oficial"
+                ? "Referencia"
+                : `Brecha ${formatSpread(quote.spread)}`}
+              {quote.date ? ` · ${quote.date}` : null}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-text-muted">
+        Cotizaciones de venta según {sourceLabel}.
+        {stale ? " No se pudieron refrescar; se muestran las últimas guardadas." : null}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  buildChartImage,
+  CHART_IMAGE_FORMATS,
+  CHART_IMAGE_SCALES,
+  getChartImageFilename,
+  getCurrentTheme,
+  renderChartPng,
+  type ChartImageFormat,
+  type ChartImageMeta,
+  type ChartImageScale,
+  type ChartImageTheme,
+} from "@/lib/chart-image";
+import { downloadBlob } from "@/lib/data-export";
+
+type ChartImageExportProps = {
+  // Nombre base del archivo, sin prefijo ni extensión.
+  name: string;
+  // Se resuelve al exportar: Recharts crea el SVG después del primer render.
+  getSvg: () => SVGSVGElement | null;
+  meta: ChartImageMeta;
+};
+
+const THEME_LABELS: Record<ChartImageTheme, string> = {
+  light: "Claro",
+  dark: "Oscuro",
+};
+
+function optionClassName(active: boolean) {
+  return `cursor-pointer rounded-full px-3 py-1 text-xs font-semibold transition ${
+    active ? "bg-btc text-black" : "text-text-secondary hover:text-foreground"
+  }`;
+}
+
+export default function ChartImageExport({
+  name,
+  getSvg,
+  meta,
+}: ChartImageExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ChartImageFormat>("png");
+  const [scale, setScale] = useState<ChartImageScale>(2);
+  const [theme, setTheme] = useState<ChartImageTheme | null>(null);
+  const [watermark, setWatermark] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    function handleWindowClick() {
+      setIsOpen(false);
+    }
+
+    if (!isOpen) {
+      return;
+    }
+
+    window.addEventListener("click", handleWindowClick);
+
+    return () => {
+      window.removeEventListener("click", handleWindowClick);
+    };
+  }, [isOpen]);
+
+  const exportImage = async () => {
+    const source = getSvg();
+    if (!source) {
+      setError("El gráfico todavía no está listo.");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const image = buildChartImage(source, meta, {
+        theme: theme ?? getCurrentTheme(),
+        scale,
+        watermark,
+      });
+      const blob =
+        format === "svg"
+          ? new Blob([image.svg], { type: "image/svg+xml;charset=utf-8" })
+          : await renderChartPng(image);
+      downloadBlob(getChartImageFilename(name, format), blob);
+      setIsOpen(false);
+    } catch (exportError) {
+      setError(
+        exportError instanceof Error
+          ? exportError.message
+          : "No se pudo exportar el gráfico.",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        aria-expanded={isOpen}
+        onClick={(event) => {
+          event.stopPropagation();
+          // El tema arranca en el de la página hasta que se elija otro.
+          setTheme((current) => current ?? getCurrentTheme());
+          setIsOpen((open) => !open);
+        }}
+        className="inline-flex cursor-pointer items-center rounded-full border border-border bg-background px-3 py-1.5 text-xs font-semibold text-text-secondary transition hover:text-foreground"
+      >
+        Imagen
+      </button>
+
+      {isOpen ? (
+        <div
+          className="absolute right-0 top-[calc(100%+0.5rem)] z-20 w-64 space-y-3 rounded-2xl border border-border bg-card p-4 text-xs shadow-xl"
+          onClick={(event) => event.stopPropagation()}
+        >
+          <div className="space-y-1.5">
+            <p className="uppercase tracking-[0.18em] text-text-muted">Formato</p>
+            <div className="inline-flex rounded-full border border-border bg-background p-0.5">
+              {CHART_IMAGE_FORMATS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={format === option}
+                  onClick={() => setFormat(option)}
+                  className={optionClassName(format === option)}
+                >
+                  {option.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="uppercase tracking-[0.18em] text-text-muted">
+              Resolución
+            </p>
+            <div className="inline-flex rounded-full border border-border bg-background p-0.5">
+              {CHART_IMAGE_SCALES.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={scale === option}
+                  onClick={() => setScale(option)}
+                  className={optionClassName(scale === option)}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="uppercase tracking-[0.18em] text-text-muted">Tema</p>
+            <div className="inline-flex rounded-full border border-border bg-background p-0.5">
+              {(["light", "dark"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={theme === option}
+                  onClick={() => setTheme(option)}
+                  className={optionClassName(theme === option)}
+                >
+                  {THEME_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex cursor-pointer items-center gap-2 text-text-secondary">
+            <input
+              type="checkbox"
+              checked={watermark}
+              onChange={(event) => setWatermark(event.target.checked)}
+              className="accent-(--btc-gold)"
+            />
+            Marca de agua
+          </label>
+
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          ) : null}
+
+          <button
+            type="button"
+            disabled={busy}
+            onClick={exportImage}
+            className="w-full cursor-pointer rounded-full bg-btc px-3 py-2 font-semibold text-black transition disabled:cursor-wait disabled:opacity-60"
+          >
+            {busy ? "Generando…" : "Descargar"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
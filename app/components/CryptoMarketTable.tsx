@@ -1,61 +1,88 @@
-import { fetchCryptoMarkets, type CryptoMarket } from "@/lib/crypto-markets";
-
-const usdCompactFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  notation: "compact",
-  maximumFractionDigits: 2,
-});
-
-const usdPriceFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  maximumFractionDigits: 2,
-});
-
-const supplyFormatter = new Intl.NumberFormat("en-US", {
-  notation: "compact",
-  maximumFractionDigits: 2,
-});
-
-function formatCurrency(value: number | null, compact = false) {
-  if (value === null) return "N/D";
-  if (compact) return usdCompactFormatter.format(value);
-  if (value >= 1000) return usdCompactFormatter.format(value);
-  if (value >= 1) return usdPriceFormatter.format(value);
-  return `$${value.toFixed(6)}`;
-}
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { loadArsRates, type ArsRatesSnapshot } from "@/lib/ars-rates";
+import {
+  fetchCryptoMarketsPage,
+  type CryptoMarket,
+  type CryptoMarketsPage,
+} from "@/lib/crypto-markets";
+import {
+  ARS_COMPARE_COOKIE,
+  ARS_RATE_LABELS,
+  CURRENCY_COOKIE,
+  CURRENCY_LABELS,
+  parseCurrency,
+  type Currency,
+} from "@/lib/currency";
+import {
+  changeTone,
+  createCurrencyFormatter,
+  formatPercent,
+  formatSupply,
+} from "@/lib/market-format";
+import { MARKET_PROVIDERS } from "@/lib/market-providers";
+import {
+  buildMarketQueryString,
+  DEFAULT_MARKET_PAGE_SIZE,
+  MAX_MARKET_PAGE_SIZE,
+  type MarketPaging,
+  type MarketQuery,
+  type MarketSortField,
+} from "@/lib/market-query";
+import ArsCompareToggle from "./ArsCompareToggle";
+import ArsRateSummary from "./ArsRateSummary";
+import ExportMenu from "./ExportMenu";
 
-function formatPercent(value: number | null) {
-  if (value === null) return "N/D";
-  const sign = value > 0 ? "+" : "";
-  return `${sign}${value.toFixed(2)}%`;
-}
+type ArsComparison = {
+  snapshot: ArsRatesSnapshot;
+  // Factor para volver los precios de la tabla a USD antes de aplicar cada cotización.
+  usdFactor: number;
+  formatArs: ReturnType<typeof createCurrencyFormatter>;
+};
+
+function renderArsPrices(price: number | null, comparison: ArsComparison) {
+  if (price === null) return "N/D";
+  const usdPrice = price * comparison.usdFactor;
 
-function changeTone(value: number | null) {
-  if (value === null) return "text-text-secondary";
-  if (value > 0) return "text-green-500 dark:text-green-400";
-  if (value < 0) return "text-red-500 dark:text-red-400";
-  return "text-text-secondary";
+  return comparison.snapshot.quotes.map((quote) => (
+    <div key={quote.kind} className="flex justify-between gap-3">
+      <span className="text-text-muted">{ARS_RATE_LABELS[quote.kind]}</span>
+      <span>{comparison.formatArs(usdPrice * quote.rate)}</span>
+    </div>
+  ));
 }
 
-function renderRow(coin: CryptoMarket) {
+function renderRow(
+  coin: CryptoMarket,
+  formatCurrency: ReturnType<typeof createCurrencyFormatter>,
+  arsComparison: ArsComparison | null,
+) {
   return (
     <tr key={coin.id} className="border-b border-border last:border-none">
       <td className="whitespace-nowrap px-4 py-3 text-sm font-medium">
         #{coin.rank ?? "-"}
       </td>
       <td className="px-4 py-3">
-        <div className="flex min-w-[180px] flex-col">
-          <span className="text-sm font-semibold">{coin.name}</span>
+        <Link
+          href={`/markets/${coin.id}`}
+          className="group flex min-w-[180px] flex-col"
+        >
+          <span className="text-sm font-semibold group-hover:text-btc">
+            {coin.name}
+          </span>
           <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
             {coin.symbol}
           </span>
-        </div>
+        </Link>
       </td>
       <td className="whitespace-nowrap px-4 py-3 text-sm">
         {formatCurrency(coin.currentPrice)}
       </td>
+      {arsComparison ? (
+        <td className="whitespace-nowrap px-4 py-3 text-xs">
+          {renderArsPrices(coin.currentPrice, arsComparison)}
+        </td>
+      ) : null}
       <td className="whitespace-nowrap px-4 py-3 text-sm">
         {formatCurrency(coin.marketCap, true)}
       </td>
@@ -66,9 +93,7 @@ function renderRow(coin: CryptoMarket) {
         {formatCurrency(coin.totalVolume, true)}
       </td>
       <td className="whitespace-nowrap px-4 py-3 text-sm">
-        {coin.circulatingSupply === null
-          ? "N/D"
-          : `${supplyFormatter.format(coin.circulatingSupply)} ${coin.symbol}`}
+        {formatSupply(coin.circulatingSupply, coin.symbol)}
       </td>
       <td className={`whitespace-nowrap px-4 py-3 text-sm ${changeTone(coin.athChangePercentage)}`}>
         {formatPercent(coin.athChangePercentage)}
@@ -77,6 +102,209 @@ function renderRow(coin: CryptoMarket) {
   );
 }
 
+const SORT_OPTIONS: Array<{ value: MarketSortField; label: string }> = [
+  { value: "rank", label: "Rank" },
+  { value: "currentPrice", label: "Precio" },
+  { value: "marketCap", label: "Market Cap" },
+  { value: "totalVolume", label: "Volumen" },
+  { value: "priceChange24h", label: "Variación 24h" },
+  { value: "circulatingSupply", label: "Supply" },
+  { value: "athChangePercentage", label: "Distancia al ATH" },
+];
+
+const PAGE_SIZE_OPTIONS = [DEFAULT_MARKET_PAGE_SIZE, 50, MAX_MARKET_PAGE_SIZE];
+
+const headerClassName =
+  "px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted";
+
+function marketHref(query: MarketQuery, changes: Partial<MarketQuery>) {
+  return `/${buildMarketQueryString({ ...query, ...changes })}#mercados`;
+}
+
+// Click en una columna ordena por ella; un segundo click invierte la dirección.
+function renderSortHeader(
+  label: string,
+  field: MarketSortField,
+  query: MarketQuery,
+) {
+  const active = query.sort === field;
+  const nextDir = active
+    ? query.dir === "asc"
+      ? "desc"
+      : "asc"
+    : field === "rank"
+      ? "asc"
+      : "desc";
+
+  return (
+    <th
+      key={field}
+      className={headerClassName}
+      aria-sort={
+        active ? (query.dir === "asc" ? "ascending" : "descending") : undefined
+      }
+    >
+      <Link
+        href={marketHref(query, { sort: field, dir: nextDir, page: 1 })}
+        scroll={false}
+        className={`inline-flex items-center gap-1 hover:text-foreground ${
+          active ? "text-foreground" : ""
+        }`}
+      >
+        {label}
+        {active ? (
+          <span aria-hidden="true">{query.dir === "asc" ? "↑" : "↓"}</span>
+        ) : null}
+      </Link>
+    </th>
+  );
+}
+
+// La exportación baja la misma página que se ve, con sus filtros y orden.
+function getExportUrl(query: MarketQuery, currency: Currency) {
+  const params = new URLSearchParams(buildMarketQueryString(query));
+  params.set("currency", currency);
+  return `/api/markets?${params.toString()}`;
+}
+
+function renderFilters(query: MarketQuery, currency: Currency) {
+  const fieldClassName =
+    "w-full rounded-2xl border border-border bg-background px-3 py-2 text-sm outline-none focus:border-btc";
+
+  return (
+    <form
+      action="/#mercados"
+      className="grid gap-3 sm:grid-cols-2 lg:grid-cols-[1.4fr_1fr_0.8fr_1fr_1fr_0.7fr_auto] lg:items-end"
+    >
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Buscar
+        </span>
+        <input
+          type="search"
+          name="q"
+          defaultValue={query.search}
+          placeholder="BTC, Solana..."
+          className={fieldClassName}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Ordenar por
+        </span>
+        <select name="sort" defaultValue={query.sort} className={fieldClassName}>
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Dirección
+        </span>
+        <select name="dir" defaultValue={query.dir} className={fieldClassName}>
+          <option value="asc">Ascendente</option>
+          <option value="desc">Descendente</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Market cap mín. ({currency})
+        </span>
+        <input
+          type="number"
+          name="minMarketCap"
+          min={0}
+          defaultValue={query.minMarketCap ?? ""}
+          className={fieldClassName}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Volumen mín. ({currency})
+        </span>
+        <input
+          type="number"
+          name="minVolume"
+          min={0}
+          defaultValue={query.minVolume ?? ""}
+          className={fieldClassName}
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Por página
+        </span>
+        <select
+          name="pageSize"
+          defaultValue={query.pageSize}
+          className={fieldClassName}
+        >
+          {PAGE_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="submit"
+        className="cursor-pointer rounded-full bg-btc px-5 py-2 text-sm font-semibold text-black"
+      >
+        Aplicar
+      </button>
+    </form>
+  );
+}
+
+function renderPagination(paging: MarketPaging, query: MarketQuery) {
+  const linkClassName =
+    "rounded-full border border-border bg-card px-4 py-2 text-sm font-semibold transition hover:border-btc-soft";
+  const disabledClassName =
+    "rounded-full border border-border px-4 py-2 text-sm font-semibold text-text-muted opacity-50";
+  const firstItem =
+    paging.total === 0 ? 0 : (paging.page - 1) * paging.pageSize + 1;
+  const lastItem = Math.min(paging.page * paging.pageSize, paging.total);
+
+  return (
+    <nav
+      aria-label="Paginación del mercado"
+      className="flex flex-col gap-3 border-t border-border px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+    >
+      <p className="text-sm text-text-secondary">
+        {firstItem}–{lastItem} de {paging.total} activos · Página {paging.page}{" "}
+        de {paging.totalPages}
+      </p>
+      <div className="flex gap-2">
+        {paging.hasPreviousPage ? (
+          <Link
+            href={marketHref(query, { page: paging.page - 1 })}
+            scroll={false}
+            className={linkClassName}
+          >
+            Anterior
+          </Link>
+        ) : (
+          <span className={disabledClassName}>Anterior</span>
+        )}
+        {paging.hasNextPage ? (
+          <Link
+            href={marketHref(query, { page: paging.page + 1 })}
+            scroll={false}
+            className={linkClassName}
+          >
+            Siguiente
+          </Link>
+        ) : (
+          <span className={disabledClassName}>Siguiente</span>
+        )}
+      </div>
+    </nav>
+  );
+}
+
 function fallbackView() {
   return (
     <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
@@ -85,7 +313,7 @@ function fallbackView() {
           Mercado
         </p>
         <h3 className="text-2xl font-semibold">
-          No se pudo cargar el top 30 en este momento
+          No se pudo cargar el mercado en este momento
         </h3>
         <p className="max-w-2xl text-sm leading-7 text-text-secondary">
           Si el proveedor no responde o se pasa del rate limit, el resto sigue
@@ -96,19 +324,62 @@ function fallbackView() {
   );
 }
 
-export default async function CryptoMarketTable() {
-  let markets: CryptoMarket[] | null = null;
+type CryptoMarketTableProps = {
+  query: MarketQuery;
+};
+
+export default async function CryptoMarketTable({
+  query,
+}: CryptoMarketTableProps) {
+  const cookieStore = await cookies();
+  const requestedCurrency = parseCurrency(
+    cookieStore.get(CURRENCY_COOKIE)?.value,
+  );
+  const compareArs = cookieStore.get(ARS_COMPARE_COOKIE)?.value === "1";
+  let result: CryptoMarketsPage | null = null;
+  let arsRates: ArsRatesSnapshot | null = null;
 
   try {
-    markets = await fetchCryptoMarkets();
+    result = await fetchCryptoMarketsPage(query, requestedCurrency);
   } catch {
-    markets = null;
+    result = null;
+  }
+
+  if (compareArs) {
+    try {
+      arsRates = await loadArsRates();
+    } catch {
+      arsRates = null;
+    }
   }
 
-  if (markets === null) {
+  if (result === null) {
     return fallbackView();
   }
 
+  const {
+    markets,
+    paging,
+    provider,
+    providerLabel,
+    attempts,
+    currency,
+    fxUnavailable,
+  } = result;
+  // Solo los proveedores que se probaron antes y fallaron, no los que siguen
+  // en la lista sin haberse usado.
+  const failedProviders = attempts
+    .filter((attempt) => !attempt.ok)
+    .map((attempt) => MARKET_PROVIDERS[attempt.provider].label);
+  const formatCurrency = createCurrencyFormatter(currency);
+  const arsComparison: ArsComparison | null = arsRates
+    ? {
+        snapshot: arsRates,
+        usdFactor: 1 / result.fxRate,
+        formatArs: createCurrencyFormatter("ARS"),
+      }
+    : null;
+
   return (
     <section className="rounded-[28px] border border-border bg-[linear-gradient(135deg,var(--background-card),var(--background-secondary))] p-5 shadow-sm sm:p-6">
       <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
@@ -117,13 +388,19 @@ export default async function CryptoMarketTable() {
             Market Snapshot
           </p>
           <h2 className="text-3xl font-semibold tracking-tight">
-            Top 30 criptomonedas por market cap
+            Criptomonedas por market cap
           </h2>
         </div>
         <p className="max-w-2xl text-sm leading-6 text-text-secondary">
-          Datos en USD obtenidos desde CoinGecko. Incluye capitalización,
-          precio, variación diaria, volumen, supply circulante y distancia
-          respecto al ATH.
+          Datos en {currency} obtenidos desde {providerLabel}. Incluye
+          capitalización, precio, variación diaria, volumen, supply circulante
+          y distancia respecto al ATH.
+          {provider === "fixture" && failedProviders.length > 0
+            ? ` ${failedProviders.join(" y ")} no ${failedProviders.length === 1 ? "respondió" : "respondieron"}, así que se muestra el último snapshot guardado.`
+            : null}
+          {fxUnavailable
+            ? ` No se pudo obtener la cotización USD/${requestedCurrency}, así que los valores quedan en USD.`
+            : null}
         </p>
       </div>
 
@@ -132,18 +409,20 @@ export default async function CryptoMarketTable() {
           <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
             Cobertura
           </p>
-          <p className="mt-3 text-lg font-semibold">30 activos</p>
+          <p className="mt-3 text-lg font-semibold">{paging.total} activos</p>
           <p className="mt-2 text-sm leading-6 text-text-secondary">
-            Ranking por capitalización de mercado en tiempo casi real.
+            Ranking por capitalización de mercado en tiempo casi real, con
+            filtros y orden por cualquier métrica.
           </p>
         </div>
         <div className="rounded-2xl border border-border bg-card p-4">
           <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
             Referencia
           </p>
-          <p className="mt-3 text-lg font-semibold">USD spot</p>
+          <p className="mt-3 text-lg font-semibold">{currency} spot</p>
           <p className="mt-2 text-sm leading-6 text-text-secondary">
-            La tabla normaliza precio y market cap en dólares para comparar mejor.
+            La tabla normaliza precio y market cap en{" "}
+            {CURRENCY_LABELS[currency].toLowerCase()} para comparar mejor.
           </p>
         </div>
         <div className="rounded-2xl border border-border bg-card p-4">
@@ -166,40 +445,67 @@ export default async function CryptoMarketTable() {
         </div>
       </div>
 
+      <div className="mt-6 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm leading-6 text-text-secondary">
+            Compara los precios en pesos con el dólar oficial, MEP y blue.
+          </p>
+          <ArsCompareToggle />
+        </div>
+        {arsRates ? (
+          <ArsRateSummary
+            quotes={arsRates.quotes}
+            sourceLabel={arsRates.sourceLabel}
+            stale={arsRates.stale}
+          />
+        ) : null}
+        {compareArs && !arsRates ? (
+          <p className="text-sm text-red-500 dark:text-red-400">
+            No se pudieron cargar las cotizaciones del peso.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="mt-6">{renderFilters(query, currency)}</div>
+
+      <div className="mt-4 flex justify-end">
+        <ExportMenu
+          name={`markets-${currency.toLowerCase()}`}
+          url={getExportUrl(query, currency)}
+        />
+      </div>
+
       <div className="mt-6 overflow-hidden rounded-3xl border border-border bg-card">
         <div className="overflow-x-auto">
           <table className="min-w-full text-left">
             <thead className="bg-background-secondary">
               <tr>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Rank
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Asset
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Precio
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Market Cap
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  24h
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Volumen
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  Supply
-                </th>
-                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-[0.2em] text-text-muted">
-                  ATH
-                </th>
+                {renderSortHeader("Rank", "rank", query)}
+                <th className={headerClassName}>Asset</th>
+                {renderSortHeader("Precio", "currentPrice", query)}
+                {arsComparison ? (
+                  <th className={headerClassName}>Precio ARS</th>
+                ) : null}
+                {renderSortHeader("Market Cap", "marketCap", query)}
+                {renderSortHeader("24h", "priceChange24h", query)}
+                {renderSortHeader("Volumen", "totalVolume", query)}
+                {renderSortHeader("Supply", "circulatingSupply", query)}
+                {renderSortHeader("ATH", "athChangePercentage", query)}
               </tr>
             </thead>
-            <tbody>{markets.map(renderRow)}</tbody>
+            <tbody>
+              {markets.map((coin) =>
+                renderRow(coin, formatCurrency, arsComparison),
+              )}
+            </tbody>
           </table>
         </div>
+        {markets.length === 0 ? (
+          <p className="border-t border-border px-4 py-6 text-sm text-text-secondary">
+            Ningún activo coincide con los filtros aplicados.
+          </p>
+        ) : null}
+        {renderPagination(paging, query)}
       </div>
     </section>
   );
@@ -0,0 +1,47 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  CURRENCY_LABELS,
+  SUPPORTED_CURRENCIES,
+  writeCurrencyCookie,
+  type Currency,
+} from "@/lib/currency";
+import { useCurrency } from "./useCurrency";
+
+export default function CurrencySelector() {
+  const router = useRouter();
+  const currency = useCurrency();
+
+  const selectCurrency = (next: Currency) => {
+    if (next === currency) return;
+    writeCurrencyCookie(next);
+    // Los server components (tabla de mercados) se vuelven a renderizar con la cookie nueva.
+    router.refresh();
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label="Moneda de referencia"
+      className="inline-flex items-center rounded-full border border-border bg-card p-0.5"
+    >
+      {SUPPORTED_CURRENCIES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          title={CURRENCY_LABELS[option]}
+          aria-pressed={currency === option}
+          onClick={() => selectCurrency(option)}
+          className={`cursor-pointer rounded-full px-2.5 py-1 text-xs font-semibold transition ${
+            currency === option
+              ? "bg-btc text-black"
+              : "text-text-secondary hover:text-foreground"
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import type { EmbedSettings } from "@/lib/embed";
+
+const EmbedContext = createContext<EmbedSettings | null>(null);
+
+// Los gráficos dentro de /embed/* toman moneda, rango y locale de la URL del
+// iframe en lugar de las preferencias del visitante.
+export default function EmbedProvider({
+  settings,
+  children,
+}: {
+  settings: EmbedSettings;
+  children: ReactNode;
+}) {
+  return (
+    <EmbedContext.Provider value={settings}>{children}</EmbedContext.Provider>
+  );
+}
+
+// null fuera de un widget embebido.
+export function useEmbed() {
+  return useContext(EmbedContext);
+}
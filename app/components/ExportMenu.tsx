@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  downloadBlob,
+  getExportFilename,
+  type ExportFormat,
+} from "@/lib/data-export";
+
+type ExportMenuProps = {
+  // Nombre base del archivo, sin prefijo ni extensión.
+  name: string;
+} & (
+  | {
+      // Ruta de la API con la query de la vista; se le agrega `format`.
+      url: string;
+    }
+  | {
+      // Para datos calculados en el cliente, sin ruta detrás.
+      getCsv: () => string;
+      getJson: () => unknown;
+    }
+);
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+];
+
+const itemClassName =
+  "cursor-pointer rounded-full px-3 py-1 font-semibold transition hover:text-foreground";
+
+function withFormat(url: string, format: ExportFormat) {
+  const [path, query = ""] = url.split("?");
+  const params = new URLSearchParams(query);
+  params.set("format", format);
+  return `${path}?${params.toString()}`;
+}
+
+function downloadFile(filename: string, content: string, type: string) {
+  downloadBlob(filename, new Blob([content], { type }));
+}
+
+export default function ExportMenu(props: ExportMenuProps) {
+  return (
+    <div
+      role="group"
+      aria-label="Exportar datos"
+      className="inline-flex items-center gap-1 rounded-full border border-border bg-background p-1 text-xs text-text-secondary"
+    >
+      <span className="px-2 uppercase tracking-[0.18em] text-text-muted">
+        Exportar
+      </span>
+      {FORMATS.map(({ format, label }) => {
+        const filename = getExportFilename(props.name, format);
+
+        if ("url" in props) {
+          return (
+            <a
+              key={format}
+              href={withFormat(props.url, format)}
+              download={filename}
+              className={itemClassName}
+            >
+              {label}
+            </a>
+          );
+        }
+
+        return (
+          <button
+            key={format}
+            type="button"
+            onClick={() =>
+              format === "csv"
+                ? downloadFile(filename, props.getCsv(), "text/csv;charset=utf-8")
+                : downloadFile(
+                    filename,
+                    JSON.stringify(props.getJson(), null, 2),
+                    "application/json",
+                  )
+            }
+            className={itemClassName}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ import {
   FiSun,
   FiX,
 } from "react-icons/fi";
+import CurrencySelector from "./CurrencySelector";
+import RainbowZoneBadge from "./RainbowZoneBadge";
+import { useCurrency } from "./useCurrency";
+import { useRainbowZone } from "./useRainbowZone";
 
 const CHART_ITEMS = [
   {
@@ -52,6 +56,8 @@ export default function Navbar() {
   const pathname = usePathname();
   const [isChartsOpen, setIsChartsOpen] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const currency = useCurrency();
+  const rainbowZone = useRainbowZone(currency, isChartsOpen || isMobileOpen);
 
   useEffect(() => {
     const root = document.documentElement;
@@ -91,6 +97,16 @@ export default function Navbar() {
     setIsMobileOpen(false);
   };
 
+  // En el Rainbow Chart la etiqueta fija se reemplaza por la zona actual.
+  const renderItemBadge = (item: (typeof CHART_ITEMS)[number]) =>
+    item.href === "/rainbow" && rainbowZone ? (
+      <RainbowZoneBadge reading={rainbowZone} currency={currency} compact />
+    ) : (
+      <span className="rounded-full border border-btc-soft bg-btc/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.18em] text-btc">
+        {item.badge}
+      </span>
+    );
+
   const toggleTheme = () => {
     const isDark = document.documentElement.classList.contains("dark");
     const nextTheme = isDark ? "light" : "dark";
@@ -199,9 +215,7 @@ export default function Navbar() {
                                 <p className="text-sm font-semibold text-foreground">
                                   {item.label}
                                 </p>
-                                <span className="rounded-full border border-btc-soft bg-btc/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.18em] text-btc">
-                                  {item.badge}
-                                </span>
+                                {renderItemBadge(item)}
                               </div>
                               <p className="mt-1 text-xs leading-5 text-text-secondary">
                                 {item.description}
@@ -238,6 +252,8 @@ export default function Navbar() {
             DCA
           </Link>
 
+          <CurrencySelector />
+
           <button
             type="button"
             onClick={toggleTheme}
@@ -250,6 +266,7 @@ export default function Navbar() {
         </div>
 
         <div className="flex items-center gap-2 lg:hidden">
+          <CurrencySelector />
           <button
             type="button"
             onClick={toggleTheme}
@@ -295,9 +312,7 @@ export default function Navbar() {
                   >
                     <div className="flex items-center gap-2">
                       <p className="text-sm font-semibold text-foreground">{item.label}</p>
-                      <span className="rounded-full border border-btc-soft bg-btc/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.18em] text-btc">
-                        {item.badge}
-                      </span>
+                      {renderItemBadge(item)}
                     </div>
                     <p className="mt-1 text-xs leading-5 text-text-secondary">
                       {item.description}
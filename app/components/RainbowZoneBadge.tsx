@@ -0,0 +1,73 @@
+import type { CSSProperties } from "react";
+import { getCurrencyFormatter, type Currency } from "@/lib/currency";
+import { formatPercent } from "@/lib/market-format";
+import { ZONE_LABELS, type RainbowZoneReading } from "@/lib/rainbow-model";
+
+type RainbowZoneBadgeProps = {
+  reading: RainbowZoneReading;
+  currency: Currency;
+  compact?: boolean;
+};
+
+function formatDays(days: number) {
+  return days === 1 ? "1 día" : `${days} días`;
+}
+
+export default function RainbowZoneBadge({
+  reading,
+  currency,
+  compact = false,
+}: RainbowZoneBadgeProps) {
+  const dotStyle: CSSProperties = { backgroundColor: reading.color };
+
+  if (compact) {
+    return (
+      <span
+        className="inline-flex items-center gap-1.5 rounded-full border border-border bg-background px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.12em] text-foreground"
+        title={`Zona actual desde ${reading.since}`}
+      >
+        <span aria-hidden className="h-2 w-2 rounded-full" style={dotStyle} />
+        {reading.label}
+      </span>
+    );
+  }
+
+  const priceFormatter = getCurrencyFormatter(currency, {
+    maximumFractionDigits: 0,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span aria-hidden className="h-3 w-3 rounded-full" style={dotStyle} />
+        <p className="text-lg font-semibold">{reading.label}</p>
+      </div>
+      <p className="text-sm leading-6 text-text-secondary">
+        BTC a {priceFormatter.format(reading.price)} ({reading.date}) lleva{" "}
+        {formatDays(reading.daysInZone)} en esta zona del Rainbow Chart.
+      </p>
+      <dl className="grid grid-cols-2 gap-3 text-xs">
+        <div>
+          <dt className="uppercase tracking-[0.18em] text-text-muted">
+            Zona superior
+          </dt>
+          <dd className="mt-1 font-semibold text-green-600 dark:text-green-400">
+            {reading.toUpperPercent === null
+              ? "Ya en la más alta"
+              : `${formatPercent(reading.toUpperPercent)} · ${ZONE_LABELS[reading.zone + 1]}`}
+          </dd>
+        </div>
+        <div>
+          <dt className="uppercase tracking-[0.18em] text-text-muted">
+            Zona inferior
+          </dt>
+          <dd className="mt-1 font-semibold text-red-600 dark:text-red-400">
+            {reading.toLowerPercent === null
+              ? "Ya en la más baja"
+              : `${formatPercent(reading.toLowerPercent)} · ${ZONE_LABELS[reading.zone - 1]}`}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
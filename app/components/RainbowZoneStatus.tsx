@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { CURRENCY_COOKIE, parseCurrency } from "@/lib/currency";
+import { loadRainbowModel, readRainbowZone } from "@/lib/rainbow-data";
+import type { RainbowZoneReading } from "@/lib/rainbow-model";
+import RainbowZoneBadge from "./RainbowZoneBadge";
+
+export default async function RainbowZoneStatus() {
+  const cookieStore = await cookies();
+  const currency = parseCurrency(cookieStore.get(CURRENCY_COOKIE)?.value);
+  let reading: RainbowZoneReading | null = null;
+
+  try {
+    reading = readRainbowZone(await loadRainbowModel(currency));
+  } catch {
+    reading = null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {reading ? (
+        <RainbowZoneBadge reading={reading} currency={currency} />
+      ) : (
+        <p className="text-sm leading-6 text-text-secondary">
+          No se pudo calcular la zona actual en este momento.
+        </p>
+      )}
+      <Link
+        href="/rainbow"
+        className="inline-flex items-center text-sm font-semibold text-btc"
+      >
+        Ver en el Rainbow Chart
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useSelectedLayoutSegments } from "next/navigation";
+import type { ReactNode } from "react";
+import Navbar from "./Navbar";
+
+// Los widgets de /embed/<gráfico> se muestran dentro de iframes de terceros:
+// sin navegación, pie ni anuncios. La página /embed (el generador) sí los lleva.
+export default function SiteChrome({
+  footer,
+  ads,
+  children,
+}: {
+  footer: ReactNode;
+  ads: ReactNode;
+  children: ReactNode;
+}) {
+  const segments = useSelectedLayoutSegments();
+
+  if (segments[0] === "embed" && segments.length > 1) {
+    return children;
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      {ads}
+      <Navbar />
+      <div className="flex-1">{children}</div>
+      {footer}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  CURRENCY_CHANGE_EVENT,
+  DEFAULT_CURRENCY,
+  readArsCompareCookie,
+  readCurrencyCookie,
+  type Currency,
+} from "@/lib/currency";
+import { useEmbed } from "./EmbedProvider";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CURRENCY_CHANGE_EVENT, onChange);
+  return () => window.removeEventListener(CURRENCY_CHANGE_EVENT, onChange);
+}
+
+// La preferencia vive en una cookie para que los server components también la lean.
+// Un widget embebido usa la moneda de su URL.
+export function useCurrency(): Currency {
+  const embed = useEmbed();
+  const preferred = useSyncExternalStore(
+    subscribe,
+    () => readCurrencyCookie(document.cookie),
+    () => DEFAULT_CURRENCY,
+  );
+  return embed?.currency ?? preferred;
+}
+
+// Comparación de cotizaciones del peso (oficial, MEP y blue) lado a lado.
+export function useArsCompare(): boolean {
+  const embed = useEmbed();
+  const enabled = useSyncExternalStore(
+    subscribe,
+    () => readArsCompareCookie(document.cookie),
+    () => false,
+  );
+  return embed ? false : enabled;
+}
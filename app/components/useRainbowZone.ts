@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Currency } from "@/lib/currency";
+import type { RainbowZoneReading } from "@/lib/rainbow-model";
+import {
+  nullable,
+  number,
+  object,
+  string,
+  validate,
+} from "@/lib/upstream-schema";
+
+const zoneResponseSchema = object({
+  zone: number(),
+  label: string(),
+  color: string(),
+  date: string(),
+  price: number(),
+  lowerBoundary: nullable(number()),
+  upperBoundary: nullable(number()),
+  toLowerPercent: nullable(number()),
+  toUpperPercent: nullable(number()),
+  daysInZone: number(),
+  since: string(),
+});
+
+// Solo consulta cuando se va a mostrar (por ejemplo, al abrir el menú), porque
+// la ruta ajusta el modelo sobre todo el histórico.
+export function useRainbowZone(
+  currency: Currency,
+  enabled: boolean,
+): RainbowZoneReading | null {
+  const [reading, setReading] = useState<{
+    currency: Currency;
+    value: RainbowZoneReading;
+  } | null>(null);
+  const loaded = reading?.currency === currency;
+
+  useEffect(() => {
+    if (!enabled || loaded) return;
+    let active = true;
+
+    fetch(`/api/rainbow/zone?currency=${currency}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then((json: unknown) => {
+        if (active) {
+          setReading({
+            currency,
+            value: validate("/api/rainbow/zone", zoneResponseSchema, json),
+          });
+        }
+      })
+      // El badge es accesorio: si falla, el menú se muestra sin él.
+      .catch(() => undefined);
+
+    return () => {
+      active = false;
+    };
+  }, [currency, enabled, loaded]);
+
+  return reading && loaded ? reading.value : null;
+}
@@ -1,11 +1,67 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import ArsCompareToggle from "@/app/components/ArsCompareToggle";
+import ArsRateComparison from "@/app/components/ArsRateComparison";
+import ChartImageExport from "@/app/components/ChartImageExport";
+import { useEmbed } from "@/app/components/EmbedProvider";
+import ExportMenu from "@/app/components/ExportMenu";
+import { useArsCompare, useCurrency } from "@/app/components/useCurrency";
+import { CURRENCY_CHANGE_EVENT, type Currency } from "@/lib/currency";
+import { DCA_PURCHASE_COLUMNS, toCsv } from "@/lib/data-export";
+import { getDefaultBacktestStart } from "@/lib/dca-backtest";
 import {
   calculateDcaPlan,
+  DCA_SCENARIO_PARAMS,
+  DEFAULT_DCA_INPUTS,
   getFrequencyLabel,
+  MAX_NUMBER_OF_BUYS,
+  redenominateDcaInputs,
+  summarizeDcaPurchases,
+  toDcaSearchParams,
   type DcaFrequency,
+  type DcaInputs,
+  type DcaMode,
+  type DcaPurchase,
+  type DcaResult,
+  type DcaScenario,
 } from "@/lib/dca-calculator";
+import {
+  DCA_EXCHANGE_LABELS,
+  hasDcaFees,
+  setDcaFeeParams,
+  summarizeDcaFees,
+  type DcaFees,
+} from "@/lib/dca-fees";
+import {
+  createSeed,
+  DCA_PRICE_PATH_LABELS,
+  DCA_PRICE_PATHS,
+  isRandomPricePath,
+  MAX_VOLATILITY,
+  MIN_VOLATILITY,
+  type DcaPricePath,
+} from "@/lib/dca-paths";
+import {
+  DCA_STRATEGY_LABELS,
+  DCA_STRATEGY_TYPES,
+  DEFAULT_DCA_STRATEGY,
+  MAX_AMOUNT_GROWTH,
+  MAX_DROP_BOOST,
+  setDcaStrategyParams,
+  type DcaStrategy,
+  type DcaStrategyType,
+} from "@/lib/dca-strategies";
+import { parseForecastDate } from "@/lib/rainbow-forecast";
+import FeeSettings from "./fee-settings";
+import MonteCarloPanel from "./monte-carlo-panel";
+import { useDcaBacktest } from "./use-dca-backtest";
+import { useDcaVolatility } from "./use-dca-volatility";
+
+const MODE_OPTIONS: Array<{ value: DcaMode; label: string }> = [
+  { value: "simulation", label: "Simulación" },
+  { value: "backtest", label: "Backtest histórico" },
+];
 
 const FREQUENCY_OPTIONS: Array<{
   value: DcaFrequency;
@@ -29,25 +85,71 @@ const FREQUENCY_OPTIONS: Array<{
   },
 ];
 
-const INITIAL_VALUES = {
-  amountPerBuy: 150,
-  numberOfBuys: 12,
-  startingPrice: 62000,
-  endingPrice: 78000,
-  frequency: "monthly" as DcaFrequency,
+const PRICE_PATH_HINTS: Record<DcaPricePath, string> = {
+  linear: "El precio sube o baja lo mismo en cada compra.",
+  geometric: "El precio cambia el mismo porcentaje en cada compra.",
+  cyclical: "Sigue la forma de un ciclo de halving: techo, piso y recuperación.",
+  stochastic: "Un camino aleatorio con la volatilidad elegida entre ambos precios.",
+  montecarlo: "Miles de caminos aleatorios para ver el rango de resultados.",
+};
+
+const STRATEGY_HINTS: Record<DcaStrategyType, string> = {
+  fixed: "Compra siempre el mismo monto.",
+  "value-averaging":
+    "Aporta lo que falta para que el plan valga el monto por compra multiplicado por las compras hechas: más cuando el precio baja, nada si ya superó el objetivo.",
+  "drop-boost":
+    "Compra más cuando el precio cayó desde la compra anterior, hasta el triple del monto.",
+  growth: "Sube el monto una vez por año, como un aumento de sueldo.",
+};
+
+// Mínimos expresados en USD; en otras monedas se escalan con la cotización.
+const MIN_AMOUNT_PER_BUY_USD = 10;
+const MIN_BTC_PRICE_USD = 1000;
+
+// Alcanza para precios de BTC en pesos argentinos.
+const MAX_NUMERIC_INPUT_DIGITS = 12;
+
+// Espera a que el usuario deje de tipear antes de reescribir la URL.
+const URL_UPDATE_DELAY_MS = 400;
+
+type FxRatesResponse = {
+  rates?: Partial<Record<Currency, { rate: number }>>;
+};
+
+// Las compras del backtest traen además la fecha en que se ejecutaron.
+type CalculatorResult = Omit<DcaResult, "purchases"> & {
+  purchases: Array<DcaPurchase & { date?: string }>;
+};
+
+type DcaCalculatorProps = {
+  // Escenario de un enlace compartido; lo que falte sale de los defaults.
+  initialScenario?: DcaScenario;
 };
 
-const MAX_NUMERIC_INPUT_DIGITS = 8;
-const MAX_NUMBER_OF_BUYS = 120;
+// Conserva otros parámetros de la URL (utm, etc.) y reemplaza los del escenario.
+function writeUrl(scenarioQuery: string) {
+  const search = new URLSearchParams(window.location.search);
+  for (const key of DCA_SCENARIO_PARAMS) {
+    search.delete(key);
+  }
+  for (const [key, value] of new URLSearchParams(scenarioQuery)) {
+    search.set(key, value);
+  }
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}?${search.toString()}${window.location.hash}`,
+  );
+}
 
 function limitNumericInput(value: string) {
   return value.replace(/\D/g, "").slice(0, MAX_NUMERIC_INPUT_DIGITS);
 }
 
-function formatCurrency(value: number) {
-  return new Intl.NumberFormat("es-AR", {
+function formatCurrency(value: number, currency: Currency, locale = "es-AR") {
+  return new Intl.NumberFormat(locale, {
     style: "currency",
-    currency: "USD",
+    currency,
     maximumFractionDigits: 0,
   }).format(value);
 }
@@ -60,6 +162,19 @@ function formatPercentage(value: number) {
   return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
 }
 
+function formatVolatility(volatility: number) {
+  return String(Math.round(volatility * 100));
+}
+
+function formatDate(date: string, locale = "es-AR") {
+  return new Intl.DateTimeFormat(locale, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
 function buildPurchaseChartPoints(
   prices: number[],
   width: number,
@@ -87,51 +202,243 @@ function buildPurchaseChartPoints(
   });
 }
 
-export default function DcaCalculator() {
+export default function DcaCalculator({
+  initialScenario = {},
+}: DcaCalculatorProps) {
   const [amountPerBuyInput, setAmountPerBuyInput] = useState(
-    String(INITIAL_VALUES.amountPerBuy),
+    String(initialScenario.amountPerBuy ?? DEFAULT_DCA_INPUTS.amountPerBuy),
   );
   const [numberOfBuysInput, setNumberOfBuysInput] = useState(
-    String(INITIAL_VALUES.numberOfBuys),
+    String(initialScenario.numberOfBuys ?? DEFAULT_DCA_INPUTS.numberOfBuys),
   );
   const [startingPriceInput, setStartingPriceInput] = useState(
-    String(INITIAL_VALUES.startingPrice),
+    String(initialScenario.startingPrice ?? DEFAULT_DCA_INPUTS.startingPrice),
   );
   const [endingPriceInput, setEndingPriceInput] = useState(
-    String(INITIAL_VALUES.endingPrice),
+    String(initialScenario.endingPrice ?? DEFAULT_DCA_INPUTS.endingPrice),
+  );
+  const [frequency, setFrequency] = useState<DcaFrequency>(
+    initialScenario.frequency ?? DEFAULT_DCA_INPUTS.frequency,
+  );
+  const [mode, setMode] = useState<DcaMode>(
+    initialScenario.mode ?? "simulation",
+  );
+  const [startDateInput, setStartDateInput] = useState(
+    () => initialScenario.startDate ?? getDefaultBacktestStart(),
+  );
+  const [pricePath, setPricePath] = useState<DcaPricePath>(
+    initialScenario.pricePath ?? DEFAULT_DCA_INPUTS.pricePath,
+  );
+  // En null sigue a la volatilidad calibrada; la de un enlace tiene prioridad.
+  const [volatilityInput, setVolatilityInput] = useState<string | null>(
+    initialScenario.volatility !== undefined
+      ? formatVolatility(initialScenario.volatility)
+      : null,
+  );
+  const [seed, setSeed] = useState(
+    initialScenario.seed ?? DEFAULT_DCA_INPUTS.seed,
+  );
+  const [fees, setFees] = useState<DcaFees>(
+    initialScenario.fees ?? DEFAULT_DCA_INPUTS.fees,
+  );
+  const [strategy, setStrategy] = useState<DcaStrategy>(
+    initialScenario.strategy ?? DEFAULT_DCA_STRATEGY,
   );
-  const [frequency, setFrequency] = useState<DcaFrequency>(INITIAL_VALUES.frequency);
+  const preferredCurrency = useCurrency();
+  // Un enlace compartido se ve en su moneda hasta que el usuario elija otra.
+  const [linkCurrency, setLinkCurrency] = useState(
+    initialScenario.currency ?? null,
+  );
+  const currency = linkCurrency ?? preferredCurrency;
+  const compareArs = useArsCompare();
+  const chartRef = useRef<SVGSVGElement>(null);
+  const embed = useEmbed();
+  const [notice, setNotice] = useState<string | null>(null);
+  // Moneda en la que están escritos los inputs; se alinea con la preferencia
+  // del usuario apenas llegan las cotizaciones.
+  const [inputCurrency, setInputCurrency] = useState<Currency>(
+    initialScenario.currency ?? DEFAULT_DCA_INPUTS.currency,
+  );
+  const [fxRates, setFxRates] = useState<Partial<Record<Currency, number>>>({
+    USD: 1,
+  });
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadRates() {
+      try {
+        const response = await fetch("/api/fx");
+        if (!response.ok) return;
+        const payload = (await response.json()) as FxRatesResponse;
+        const rates = Object.fromEntries(
+          Object.entries(payload.rates ?? {}).map(([code, value]) => [
+            code,
+            value?.rate,
+          ]),
+        ) as Partial<Record<Currency, number>>;
+
+        if (active) {
+          setFxRates({ ...rates, USD: 1 });
+        }
+      } catch {
+        // Sin cotizaciones la calculadora sigue funcionando en USD.
+      }
+    }
+
+    loadRates();
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!linkCurrency) return;
+    const release = () => setLinkCurrency(null);
+    window.addEventListener(CURRENCY_CHANGE_EVENT, release);
+    return () => window.removeEventListener(CURRENCY_CHANGE_EVENT, release);
+  }, [linkCurrency]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = window.setTimeout(() => setNotice(null), 2500);
+    return () => window.clearTimeout(timeout);
+  }, [notice]);
+
+  const inputRate = fxRates[inputCurrency] ?? 1;
+  const minAmountPerBuy = Math.round(MIN_AMOUNT_PER_BUY_USD * inputRate);
+  const minBtcPrice = Math.round(MIN_BTC_PRICE_USD * inputRate);
+  const defaultAmountPerBuy = Math.round(DEFAULT_DCA_INPUTS.amountPerBuy * inputRate);
+  const defaultStartingPrice = Math.round(DEFAULT_DCA_INPUTS.startingPrice * inputRate);
+  const defaultEndingPrice = Math.round(DEFAULT_DCA_INPUTS.endingPrice * inputRate);
   const parsedAmountPerBuy = Number(amountPerBuyInput);
   const parsedNumberOfBuys = Number(numberOfBuysInput);
   const parsedStartingPrice = Number(startingPriceInput);
   const parsedEndingPrice = Number(endingPriceInput);
   const amountPerBuy =
-    Number.isFinite(parsedAmountPerBuy) && parsedAmountPerBuy >= 10
+    Number.isFinite(parsedAmountPerBuy) && parsedAmountPerBuy >= minAmountPerBuy
       ? parsedAmountPerBuy
-      : INITIAL_VALUES.amountPerBuy;
+      : defaultAmountPerBuy;
   const numberOfBuys =
     Number.isFinite(parsedNumberOfBuys) && parsedNumberOfBuys >= 1
       ? Math.min(Math.floor(parsedNumberOfBuys), MAX_NUMBER_OF_BUYS)
-      : INITIAL_VALUES.numberOfBuys;
+      : DEFAULT_DCA_INPUTS.numberOfBuys;
   const startingPrice =
-    Number.isFinite(parsedStartingPrice) && parsedStartingPrice >= 1000
+    Number.isFinite(parsedStartingPrice) && parsedStartingPrice >= minBtcPrice
       ? parsedStartingPrice
-      : INITIAL_VALUES.startingPrice;
+      : defaultStartingPrice;
   const endingPrice =
-    Number.isFinite(parsedEndingPrice) && parsedEndingPrice >= 1000
+    Number.isFinite(parsedEndingPrice) && parsedEndingPrice >= minBtcPrice
       ? parsedEndingPrice
-      : INITIAL_VALUES.endingPrice;
+      : defaultEndingPrice;
+
+  const isBacktest = mode === "backtest";
+  const usesVolatility = !isBacktest && isRandomPricePath(pricePath);
+  const calibration = useDcaVolatility(usesVolatility ? inputCurrency : null);
+  // En porcentaje entero, para que la URL no arrastre decimales.
+  const calibratedVolatility = formatVolatility(
+    calibration?.volatility ?? DEFAULT_DCA_INPUTS.volatility,
+  );
+  const parsedVolatility = Number(volatilityInput ?? calibratedVolatility) / 100;
+  const volatility =
+    parsedVolatility >= MIN_VOLATILITY && parsedVolatility <= MAX_VOLATILITY
+      ? parsedVolatility
+      : Number(calibratedVolatility) / 100;
 
-  const result = calculateDcaPlan({
+  const inputs: DcaInputs = {
     amountPerBuy,
     numberOfBuys,
     startingPrice,
     endingPrice,
     frequency,
+    currency: inputCurrency,
+    pricePath,
+    volatility,
+    seed,
+    fees,
+    strategy,
+  };
+
+  const targetRate = fxRates[currency];
+  if (currency !== inputCurrency && targetRate !== undefined) {
+    const converted = redenominateDcaInputs(
+      inputs,
+      currency,
+      targetRate / inputRate,
+    );
+    setAmountPerBuyInput(String(Math.round(converted.amountPerBuy)));
+    setStartingPriceInput(String(Math.round(converted.startingPrice)));
+    setEndingPriceInput(String(Math.round(converted.endingPrice)));
+    setFees(converted.fees);
+    setInputCurrency(currency);
+  }
+
+  const startDate =
+    parseForecastDate(startDateInput) ?? getDefaultBacktestStart();
+  const backtestParams = new URLSearchParams({
+    from: startDate,
+    amount: String(amountPerBuy),
+    buys: String(numberOfBuys),
+    frequency,
+    currency: inputCurrency,
   });
+  setDcaFeeParams(backtestParams, fees);
+  setDcaStrategyParams(backtestParams, strategy);
+  const backtest = useDcaBacktest(
+    isBacktest ? backtestParams.toString() : null,
+  );
+  // Mientras llega un backtest en otra moneda no se muestran cifras mezcladas.
+  const backtestResult =
+    backtest.data?.currency === inputCurrency ? backtest.data : null;
+  const result: CalculatorResult | null = isBacktest
+    ? backtestResult && { ...backtestResult, currency: inputCurrency }
+    : calculateDcaPlan(inputs);
+  const isMonteCarlo = !isBacktest && pricePath === "montecarlo";
+  const scenarioQuery = toDcaSearchParams(
+    inputs,
+    isBacktest ? startDate : null,
+  ).toString();
+  // La URL se toca recién cuando el escenario cambia respecto de la carga.
+  const [loadedQuery] = useState(scenarioQuery);
+
+  useEffect(() => {
+    if (embed || scenarioQuery === loadedQuery) return;
+    const timeout = window.setTimeout(
+      () => writeUrl(scenarioQuery),
+      URL_UPDATE_DELAY_MS,
+    );
+    return () => window.clearTimeout(timeout);
+  }, [embed, scenarioQuery, loadedQuery]);
+
+  async function copyLink() {
+    writeUrl(scenarioQuery);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setNotice("Enlace copiado.");
+    } catch {
+      setNotice("No se pudo copiar: copia la URL desde el navegador.");
+    }
+  }
 
-  const { purchases, summary } = result;
+  // Sin resultado (backtest en camino) el panel muestra un aviso en su lugar.
+  const { purchases, summary } = result ?? {
+    purchases: [],
+    summary: summarizeDcaPurchases([], 0),
+  };
+  const formatAmount = (value: number) =>
+    formatCurrency(value, inputCurrency, embed?.locale);
   const frequencyLabel = getFrequencyLabel(frequency);
+  const scenarioLabel = isBacktest ? "este backtest" : "esta simulación";
+  const finalValueLabel = isBacktest
+    ? "Valor al último cierre"
+    : "Valor al precio final";
+  const finalPrice =
+    backtestResult?.finalPrice ?? purchases[purchases.length - 1]?.price ?? 0;
+  const feeSummary =
+    result && hasDcaFees(fees)
+      ? summarizeDcaFees(purchases, summary, finalPrice)
+      : null;
   const isPositive = summary.profitLoss >= 0;
   const beatsLumpSum = summary.lumpSumDifference >= 0;
   const chartWidth = 680;
@@ -158,26 +465,48 @@ export default function DcaCalculator() {
       <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
         <div className="space-y-3">
           <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
-            Simulación
+            {isBacktest ? "Backtest" : "Simulación"}
           </p>
           <h2 className="text-3xl font-semibold tracking-tight">
             Configura una práctica simple de DCA
           </h2>
           <p className="text-sm leading-7 text-text-secondary">
-            La idea es repartir compras periódicas de Bitcoin y ver cómo cambia
-            el precio promedio cuando el mercado se mueve entre un punto inicial
-            y otro final.
+            {isBacktest
+              ? "Repite el plan con el precio diario real de Bitcoin desde una fecha, con toda su volatilidad."
+              : "La idea es repartir compras periódicas de Bitcoin y ver cómo cambia el precio promedio cuando el mercado se mueve entre un punto inicial y otro final."}
           </p>
         </div>
 
+        <div
+          role="group"
+          aria-label="Modo de cálculo"
+          className="mt-6 inline-flex rounded-full border border-border bg-background p-1"
+        >
+          {MODE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={mode === option.value}
+              onClick={() => setMode(option.value)}
+              className={`cursor-pointer rounded-full px-4 py-1.5 text-xs font-semibold transition ${
+                mode === option.value
+                  ? "bg-btc text-black"
+                  : "text-text-secondary hover:text-foreground"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
         <div className="mt-6 grid gap-4">
           <label className="space-y-2">
             <span className="text-sm font-medium text-foreground">
-              Monto por compra
+              Monto por compra ({inputCurrency})
             </span>
             <input
               type="number"
-              min={10}
+              min={minAmountPerBuy}
               step={10}
               value={amountPerBuyInput}
               onChange={(event) =>
@@ -188,6 +517,86 @@ export default function DcaCalculator() {
             />
           </label>
 
+          <div className="space-y-3">
+            <span className="text-sm font-medium text-foreground">
+              Estrategia de aportes
+            </span>
+            <div
+              role="group"
+              aria-label="Estrategia de aportes"
+              className="flex flex-wrap gap-2"
+            >
+              {DCA_STRATEGY_TYPES.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  aria-pressed={strategy.type === type}
+                  onClick={() => setStrategy({ ...strategy, type })}
+                  className={`cursor-pointer rounded-full border px-3 py-1.5 text-xs font-semibold transition ${
+                    strategy.type === type
+                      ? "border-btc bg-btc text-black"
+                      : "border-border bg-background text-text-secondary hover:border-btc-soft hover:text-foreground"
+                  }`}
+                >
+                  {DCA_STRATEGY_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs leading-5 text-text-muted">
+              {STRATEGY_HINTS[strategy.type]}
+            </p>
+
+            {strategy.type === "drop-boost" ? (
+              <label className="block space-y-2">
+                <span className="text-sm font-medium text-foreground">
+                  Refuerzo por cada 1% de caída (%)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_DROP_BOOST}
+                  step={0.5}
+                  value={strategy.boost}
+                  onChange={(event) =>
+                    setStrategy({
+                      ...strategy,
+                      boost: Math.min(
+                        Math.max(Number(event.target.value) || 0, 0),
+                        MAX_DROP_BOOST,
+                      ),
+                    })
+                  }
+                  className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+                />
+              </label>
+            ) : null}
+
+            {strategy.type === "growth" ? (
+              <label className="block space-y-2">
+                <span className="text-sm font-medium text-foreground">
+                  Aumento anual del monto (%)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_AMOUNT_GROWTH}
+                  step={1}
+                  value={strategy.growth}
+                  onChange={(event) =>
+                    setStrategy({
+                      ...strategy,
+                      growth: Math.min(
+                        Math.max(Number(event.target.value) || 0, 0),
+                        MAX_AMOUNT_GROWTH,
+                      ),
+                    })
+                  }
+                  className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+                />
+              </label>
+            ) : null}
+          </div>
+
           <label className="space-y-2">
             <span className="text-sm font-medium text-foreground">
               Cantidad de compras
@@ -206,39 +615,126 @@ export default function DcaCalculator() {
             />
           </label>
 
-          <label className="space-y-2">
-            <span className="text-sm font-medium text-foreground">
-              Precio inicial de BTC
-            </span>
-            <input
-              type="number"
-              min={1000}
-              step={1000}
-              value={startingPriceInput}
-              onChange={(event) =>
-                setStartingPriceInput(limitNumericInput(event.target.value))
-              }
-              onBlur={() => setStartingPriceInput(String(startingPrice))}
-              className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
-            />
-          </label>
+          {isBacktest ? (
+            <label className="space-y-2">
+              <span className="text-sm font-medium text-foreground">
+                Primera compra
+              </span>
+              <input
+                type="date"
+                value={startDateInput}
+                onChange={(event) => setStartDateInput(event.target.value)}
+                onBlur={() => setStartDateInput(startDate)}
+                className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+              />
+              <span className="block text-xs leading-5 text-text-muted">
+                Compra al precio de cierre real de cada fecha programada y
+                valúa el plan al último cierre disponible.
+              </span>
+            </label>
+          ) : (
+            <>
+              <label className="space-y-2">
+                <span className="text-sm font-medium text-foreground">
+                  Precio inicial de BTC ({inputCurrency})
+                </span>
+                <input
+                  type="number"
+                  min={minBtcPrice}
+                  step={1000}
+                  value={startingPriceInput}
+                  onChange={(event) =>
+                    setStartingPriceInput(limitNumericInput(event.target.value))
+                  }
+                  onBlur={() => setStartingPriceInput(String(startingPrice))}
+                  className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+                />
+              </label>
 
-          <label className="space-y-2">
-            <span className="text-sm font-medium text-foreground">
-              Precio final de BTC
-            </span>
-            <input
-              type="number"
-              min={1000}
-              step={1000}
-              value={endingPriceInput}
-              onChange={(event) =>
-                setEndingPriceInput(limitNumericInput(event.target.value))
-              }
-              onBlur={() => setEndingPriceInput(String(endingPrice))}
-              className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
-            />
-          </label>
+              <label className="space-y-2">
+                <span className="text-sm font-medium text-foreground">
+                  Precio final de BTC ({inputCurrency})
+                </span>
+                <input
+                  type="number"
+                  min={minBtcPrice}
+                  step={1000}
+                  value={endingPriceInput}
+                  onChange={(event) =>
+                    setEndingPriceInput(limitNumericInput(event.target.value))
+                  }
+                  onBlur={() => setEndingPriceInput(String(endingPrice))}
+                  className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+                />
+              </label>
+
+              <div className="space-y-3">
+                <span className="text-sm font-medium text-foreground">
+                  Recorrido del precio
+                </span>
+                <div
+                  role="group"
+                  aria-label="Recorrido del precio"
+                  className="flex flex-wrap gap-2"
+                >
+                  {DCA_PRICE_PATHS.map((path) => (
+                    <button
+                      key={path}
+                      type="button"
+                      aria-pressed={pricePath === path}
+                      onClick={() => setPricePath(path)}
+                      className={`cursor-pointer rounded-full border px-3 py-1.5 text-xs font-semibold transition ${
+                        pricePath === path
+                          ? "border-btc bg-btc text-black"
+                          : "border-border bg-background text-text-secondary hover:border-btc-soft hover:text-foreground"
+                      }`}
+                    >
+                      {DCA_PRICE_PATH_LABELS[path]}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs leading-5 text-text-muted">
+                  {PRICE_PATH_HINTS[pricePath]}
+                </p>
+              </div>
+
+              {usesVolatility ? (
+                <div className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-end">
+                  <label className="space-y-2">
+                    <span className="text-sm font-medium text-foreground">
+                      Volatilidad anual (%)
+                    </span>
+                    <input
+                      type="number"
+                      min={MIN_VOLATILITY * 100}
+                      max={MAX_VOLATILITY * 100}
+                      step={5}
+                      value={volatilityInput ?? calibratedVolatility}
+                      onChange={(event) =>
+                        setVolatilityInput(limitNumericInput(event.target.value))
+                      }
+                      onBlur={() =>
+                        setVolatilityInput(formatVolatility(volatility))
+                      }
+                      className="w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setSeed(createSeed())}
+                    className="cursor-pointer rounded-full border border-border bg-background px-4 py-3 text-xs font-semibold text-foreground transition hover:border-btc-soft"
+                  >
+                    {isMonteCarlo ? "Otra simulación" : "Otro camino"}
+                  </button>
+                  <span className="block text-xs leading-5 text-text-muted sm:col-span-2">
+                    {calibration
+                      ? `La volatilidad histórica de BTC en ${inputCurrency} del ${formatDate(calibration.from, embed?.locale)} al ${formatDate(calibration.to, embed?.locale)} fue de ${calibratedVolatility}% anual.`
+                      : `Mientras carga el histórico se usa ${calibratedVolatility}% anual como referencia.`}
+                  </span>
+                </div>
+              ) : null}
+            </>
+          )}
 
           <div className="space-y-3">
             <span className="text-sm font-medium text-foreground">
@@ -271,268 +767,455 @@ export default function DcaCalculator() {
               ))}
             </div>
           </div>
+
+          <FeeSettings
+            fees={fees}
+            onChange={setFees}
+            currency={inputCurrency}
+            rate={inputRate}
+          />
         </div>
-      </div>
 
-      <div className="space-y-6">
-        <div className="rounded-3xl border border-border bg-[linear-gradient(135deg,var(--background-card),var(--background-secondary))] p-6 shadow-sm">
-          <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
-            <div>
-              <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
-                Resultado
-              </p>
-              <h3 className="mt-2 text-2xl font-semibold tracking-tight">
-                Así se vería una estrategia {frequencyLabel}
-              </h3>
-            </div>
-            <div
-              className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${
-                isPositive
-                  ? "bg-emerald-500/12 text-emerald-600 dark:text-emerald-400"
-                  : "bg-red-500/12 text-red-600 dark:text-red-400"
-              }`}
+        {embed ? null : (
+          <div className="mt-6 flex flex-col gap-3 border-t border-border pt-5 sm:flex-row sm:items-center sm:justify-between">
+            <p aria-live="polite" className="text-sm leading-6 text-text-secondary">
+              {notice ??
+                "El enlace guarda todos los parámetros para compartir este mismo escenario."}
+            </p>
+            <button
+              type="button"
+              onClick={copyLink}
+              className="shrink-0 cursor-pointer rounded-full bg-btc px-4 py-2 text-xs font-semibold text-black"
             >
-              {formatPercentage(summary.profitLossPercentage)}
-            </div>
+              Copiar enlace
+            </button>
           </div>
+        )}
+      </div>
 
-          <div className="mt-6 grid gap-4 sm:grid-cols-2">
-            <div className="rounded-2xl border border-border bg-card p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                Capital total
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatCurrency(summary.totalInvested)}
-              </p>
-            </div>
-            <div className="rounded-2xl border border-border bg-card p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                BTC acumulado
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatBitcoin(summary.totalBitcoin)}
-              </p>
-            </div>
-            <div className="rounded-2xl border border-border bg-card p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                Precio promedio
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatCurrency(summary.averageBuyPrice)}
-              </p>
-            </div>
-            <div className="rounded-2xl border border-border bg-card p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                Valor al precio final
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatCurrency(summary.currentValue)}
-              </p>
+      {result ? (
+        <div className="space-y-6">
+          <div className="rounded-3xl border border-border bg-[linear-gradient(135deg,var(--background-card),var(--background-secondary))] p-6 shadow-sm">
+            <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+                  Resultado
+                </p>
+                <h3 className="mt-2 text-2xl font-semibold tracking-tight">
+                  {isBacktest
+                    ? `Así habría rendido una estrategia ${frequencyLabel}`
+                    : `Así se vería una estrategia ${frequencyLabel}`}
+                </h3>
+              </div>
+              <div
+                className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${
+                  isPositive
+                    ? "bg-emerald-500/12 text-emerald-600 dark:text-emerald-400"
+                    : "bg-red-500/12 text-red-600 dark:text-red-400"
+                }`}
+              >
+                {formatPercentage(summary.profitLossPercentage)}
+              </div>
             </div>
-          </div>
-
-          <div className="mt-4 rounded-2xl border border-border bg-card p-4">
-            <p className="text-sm leading-7 text-text-secondary">
-              {beatsLumpSum
-                ? "En esta simulación el DCA acumula más BTC que una compra única al inicio, algo que suele ocurrir cuando el precio cae o pasa tiempo en niveles más bajos."
-                : "En esta simulación una compra única al inicio habría acumulado más BTC. Eso también es normal: si el precio sube con fuerza desde el comienzo, escalonar entradas puede comprar menos cantidad."}
-            </p>
-          </div>
-        </div>
 
-        <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
-          <div className="flex items-center justify-between gap-4">
-            <div>
-              <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
-                Comparación
-              </p>
-              <h3 className="mt-2 text-2xl font-semibold tracking-tight">
-                DCA frente a compra única
-              </h3>
+            <div className="mt-6 grid gap-4 sm:grid-cols-2">
+              <div className="rounded-2xl border border-border bg-card p-4">
+                <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  Capital total
+                </p>
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatAmount(summary.totalInvested)}
+                </p>
+              </div>
+              <div className="rounded-2xl border border-border bg-card p-4">
+                <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  BTC acumulado
+                </p>
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatBitcoin(summary.totalBitcoin)}
+                </p>
+              </div>
+              <div className="rounded-2xl border border-border bg-card p-4">
+                <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  Precio promedio
+                </p>
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatAmount(summary.averageBuyPrice)}
+                </p>
+              </div>
+              <div className="rounded-2xl border border-border bg-card p-4">
+                <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  {finalValueLabel}
+                </p>
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatAmount(summary.currentValue)}
+                </p>
+              </div>
             </div>
-            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-              Mismo capital
-            </p>
-          </div>
 
-          <div className="mt-5 grid gap-4 md:grid-cols-2">
-            <div className="rounded-2xl border border-border bg-background p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                Estrategia DCA
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatBitcoin(summary.totalBitcoin)}
-              </p>
-              <p className="mt-2 text-sm leading-6 text-text-secondary">
-                Precio medio construido: {formatCurrency(summary.averageBuyPrice)}
+            <div className="mt-4 rounded-2xl border border-border bg-card p-4">
+              <p className="text-sm leading-7 text-text-secondary">
+                {beatsLumpSum
+                  ? `En ${scenarioLabel} el DCA acumula más BTC que una compra única al inicio, algo que suele ocurrir cuando el precio cae o pasa tiempo en niveles más bajos.`
+                  : `En ${scenarioLabel} una compra única al inicio habría acumulado más BTC. Eso también es normal: si el precio sube con fuerza desde el comienzo, escalonar entradas puede comprar menos cantidad.`}
               </p>
             </div>
 
-            <div className="rounded-2xl border border-border bg-background p-4">
-              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                Compra única al inicio
-              </p>
-              <p className="mt-3 text-2xl font-semibold">
-                {formatBitcoin(summary.lumpSumBitcoin)}
-              </p>
-              <p className="mt-2 text-sm leading-6 text-text-secondary">
-                Todo el capital entra al precio inicial:{" "}
-                {formatCurrency(startingPrice)}
-              </p>
-            </div>
-          </div>
+            {feeSummary ? (
+              <div className="mt-4 rounded-2xl border border-border bg-card p-4">
+                <p className="text-sm leading-7 text-text-secondary">
+                  {`Comisiones, spread y retiro (${DCA_EXCHANGE_LABELS[fees.exchange]}): ${formatAmount(feeSummary.totalCost)} (${feeSummary.costPercentage.toFixed(2)}% de lo invertido). Frente al mismo plan sin costos terminas con ${formatBitcoin(feeSummary.bitcoinLost)} menos, ${formatAmount(feeSummary.valueLost)} a precio final: ${feeSummary.profitImpact.toFixed(2)} puntos menos de rendimiento.`}
+                  {summary.uninvested > 0.005
+                    ? ` ${formatAmount(summary.uninvested)} quedan sin invertir porque no llegan a la orden mínima.`
+                    : ""}
+                </p>
+              </div>
+            ) : null}
 
-          <div className="mt-4 rounded-2xl border border-border bg-[linear-gradient(135deg,var(--background-card),var(--background-secondary))] p-4">
-            <p className="text-sm leading-7 text-text-secondary">
-              {beatsLumpSum
-                ? `El DCA termina con ${formatBitcoin(
-                    summary.lumpSumDifference,
-                  )} más que la compra única en este recorrido.`
-                : `La compra única termina con ${formatBitcoin(
-                    Math.abs(summary.lumpSumDifference),
-                  )} más que el DCA en este recorrido.`}
-            </p>
-          </div>
-        </div>
+            {backtestResult ? (
+              <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                <div className="rounded-2xl border border-border bg-card p-4">
+                  <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                    Peor caída del plan
+                  </p>
+                  <p className="mt-3 text-2xl font-semibold text-red-600 dark:text-red-400">
+                    {backtestResult.maxDrawdown.percentage.toFixed(2)}%
+                  </p>
+                  <p className="mt-1 text-xs leading-5 text-text-secondary">
+                    {backtestResult.maxDrawdown.peakDate &&
+                    backtestResult.maxDrawdown.troughDate
+                      ? `Del ${formatDate(backtestResult.maxDrawdown.peakDate, embed?.locale)} al ${formatDate(backtestResult.maxDrawdown.troughDate, embed?.locale)}, sin contar los aportes.`
+                      : "El valor del plan nunca cayó desde un máximo."}
+                  </p>
+                </div>
+                <div className="rounded-2xl border border-border bg-card p-4">
+                  <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                    Tiempo en pérdida
+                  </p>
+                  <p className="mt-3 text-2xl font-semibold">
+                    {backtestResult.underwater.days} días
+                  </p>
+                  <p className="mt-1 text-xs leading-5 text-text-secondary">
+                    {backtestResult.underwater.percentage.toFixed(1)}% del período
+                    valiendo menos que lo invertido; la racha más larga fue de{" "}
+                    {backtestResult.underwater.longestDays} días.
+                  </p>
+                </div>
+                <p className="text-xs leading-5 text-text-muted sm:col-span-2">
+                  {`Primera compra el ${formatDate(backtestResult.startDate, embed?.locale)}, valuado al cierre del ${formatDate(backtestResult.endDate, embed?.locale)}.`}
+                  {purchases.length < backtestResult.requestedBuys
+                    ? ` Solo ${purchases.length} de ${backtestResult.requestedBuys} compras entran en el histórico.`
+                    : ""}
+                </p>
+              </div>
+            ) : null}
 
-        <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
-          <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
-            <div>
-              <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
-                Visual
-              </p>
-              <h3 className="mt-2 text-2xl font-semibold tracking-tight">
-                Recorrido de compras y precio promedio final
-              </h3>
-            </div>
-            <p className="text-sm leading-6 text-text-secondary">
-              Cada punto pequeño representa una compra. El punto grande marca el
-              precio promedio final del plan.
-            </p>
+            {embed ? null : (
+              <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <p className="text-sm leading-6 text-text-secondary">
+                  Valuar el plan en pesos con cada cotización del dólar.
+                </p>
+                <ArsCompareToggle />
+              </div>
+            )}
           </div>
 
-          <div className="mt-5 overflow-hidden rounded-2xl border border-border bg-[linear-gradient(180deg,var(--background),var(--background-secondary))] p-4">
-            <svg
-              viewBox={`0 0 ${chartWidth} ${chartHeight}`}
-              className="h-auto w-full"
-              role="img"
-              aria-label="Gráfico de compras periódicas y precio promedio final"
-            >
-              <line
-                x1={chartPadding}
-                y1={averagePriceY}
-                x2={chartWidth - chartPadding}
-                y2={averagePriceY}
-                stroke="rgba(247,147,26,0.45)"
-                strokeDasharray="6 7"
-              />
+          {isMonteCarlo ? (
+            <MonteCarloPanel
+              inputs={inputs}
+              formatAmount={formatAmount}
+              locale={embed?.locale}
+            />
+          ) : null}
 
-              {chartPoints.map((point, index) => {
-                const nextPoint = chartPoints[index + 1];
-
-                return (
-                  <g key={point.index}>
-                    {nextPoint ? (
-                      <line
-                        x1={point.x}
-                        y1={point.y}
-                        x2={nextPoint.x}
-                        y2={nextPoint.y}
-                        stroke="rgba(148,163,184,0.4)"
-                        strokeWidth="1.5"
-                      />
-                    ) : null}
-                    <circle
-                      cx={point.x}
-                      cy={point.y}
-                      r="5"
-                      fill="var(--price-line-color)"
-                    />
-                  </g>
-                );
-              })}
-
-              <circle
-                cx={chartWidth / 2}
-                cy={averagePriceY}
-                r="10"
-                fill="#f7931a"
-                stroke="var(--background-card)"
-                strokeWidth="3"
-              />
-            </svg>
+          {compareArs ? (
+            <ArsRateComparison
+              title="El plan en pesos según el dólar"
+              rows={[
+                { label: "Capital total", usdValue: summary.totalInvested / inputRate },
+                {
+                  label: "Precio promedio",
+                  usdValue: summary.averageBuyPrice / inputRate,
+                },
+                {
+                  label: finalValueLabel,
+                  usdValue: summary.currentValue / inputRate,
+                },
+              ]}
+            />
+          ) : null}
 
-            <div className="mt-4 grid gap-3 sm:grid-cols-3">
-              <div className="rounded-2xl border border-border bg-card px-4 py-3">
-                <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                  Precio más bajo
-                </p>
-                <p className="mt-2 text-lg font-semibold">
-                  {formatCurrency(minChartPrice)}
+          <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+                  Comparación
                 </p>
+                <h3 className="mt-2 text-2xl font-semibold tracking-tight">
+                  DCA frente a compra única
+                </h3>
               </div>
-              <div className="rounded-2xl border border-border bg-card px-4 py-3">
+              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                Mismo capital
+              </p>
+            </div>
+
+            <div className="mt-5 grid gap-4 md:grid-cols-2">
+              <div className="rounded-2xl border border-border bg-background p-4">
                 <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                  Precio promedio
+                  Estrategia DCA
                 </p>
-                <p className="mt-2 text-lg font-semibold">
-                  {formatCurrency(summary.averageBuyPrice)}
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatBitcoin(summary.totalBitcoin)}
+                </p>
+                <p className="mt-2 text-sm leading-6 text-text-secondary">
+                  Precio medio construido:{" "}
+                  {formatAmount(summary.averageBuyPrice)}
                 </p>
               </div>
-              <div className="rounded-2xl border border-border bg-card px-4 py-3">
+
+              <div className="rounded-2xl border border-border bg-background p-4">
                 <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                  Precio más alto
+                  Compra única al inicio
                 </p>
-                <p className="mt-2 text-lg font-semibold">
-                  {formatCurrency(maxChartPrice)}
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatBitcoin(summary.lumpSumBitcoin)}
+                </p>
+                <p className="mt-2 text-sm leading-6 text-text-secondary">
+                  Todo el capital entra al precio inicial:{" "}
+                  {formatAmount(purchases[0]?.price ?? startingPrice)}
                 </p>
               </div>
             </div>
-          </div>
-        </div>
 
-        <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
-          <div className="flex items-center justify-between gap-4">
-            <div>
-              <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
-                Compras
+            <div className="mt-4 rounded-2xl border border-border bg-[linear-gradient(135deg,var(--background-card),var(--background-secondary))] p-4">
+              <p className="text-sm leading-7 text-text-secondary">
+                {beatsLumpSum
+                  ? `El DCA termina con ${formatBitcoin(
+                      summary.lumpSumDifference,
+                    )} más que la compra única en este recorrido.`
+                  : `La compra única termina con ${formatBitcoin(
+                      Math.abs(summary.lumpSumDifference),
+                    )} más que el DCA en este recorrido.`}
               </p>
-              <h3 className="mt-2 text-2xl font-semibold tracking-tight">
-                Desglose de la práctica
-              </h3>
             </div>
-            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-              {purchases.length} tramos
-            </p>
           </div>
 
-          <div className="mt-5 overflow-hidden rounded-2xl border border-border">
-            <div className="grid grid-cols-[0.7fr_1fr_1fr] gap-3 bg-background-secondary px-4 py-3 text-xs font-semibold uppercase tracking-[0.18em] text-text-muted">
-              <span>Compra</span>
-              <span>Precio BTC</span>
-              <span>BTC comprado</span>
+          <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+            <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+                  Visual
+                </p>
+                <h3 className="mt-2 text-2xl font-semibold tracking-tight">
+                  Recorrido de compras y precio promedio final
+                </h3>
+              </div>
+              <div className="flex flex-col items-start gap-3 md:items-end">
+                <p className="text-sm leading-6 text-text-secondary">
+                  Cada punto pequeño representa una compra. El punto grande marca el
+                  precio promedio final del plan.
+                </p>
+                {embed ? null : (
+                  <ChartImageExport
+                    name={`dca-${isBacktest ? "backtest-" : ""}${inputCurrency.toLowerCase()}`}
+                    getSvg={() => chartRef.current}
+                    meta={{
+                      title: isBacktest
+                        ? "Backtest DCA con precios reales"
+                        : "Recorrido de compras DCA",
+                      subtitle: `${purchases.length} compras ${
+                        strategy.type === "fixed"
+                          ? "de"
+                          : `· ${DCA_STRATEGY_LABELS[strategy.type].toLowerCase()} sobre`
+                      } ${formatAmount(amountPerBuy)} · frecuencia ${frequencyLabel} · ${
+                        backtestResult
+                          ? `desde el ${formatDate(backtestResult.startDate)}`
+                          : `BTC de ${formatAmount(startingPrice)} a ${formatAmount(endingPrice)}${
+                              pricePath === "linear"
+                                ? ""
+                                : ` · recorrido ${DCA_PRICE_PATH_LABELS[pricePath].toLowerCase()}`
+                            }`
+                      }${
+                        hasDcaFees(fees)
+                          ? ` · comisiones (${DCA_EXCHANGE_LABELS[fees.exchange]})`
+                          : ""
+                      }`,
+                      dataDate: backtestResult?.endDate,
+                      legend: [
+                        { label: "Compras", color: "var(--price-line-color)" },
+                        {
+                          label: `Precio promedio ${formatAmount(summary.averageBuyPrice)}`,
+                          color: "#f7931a",
+                        },
+                      ],
+                    }}
+                  />
+                )}
+              </div>
             </div>
-            <div className="max-h-[320px] overflow-y-auto">
-              {purchases.map((purchase) => (
-                <div
-                  key={purchase.index}
-                  className="grid grid-cols-[0.7fr_1fr_1fr] gap-3 border-t border-border px-4 py-3 text-sm"
-                >
-                  <span className="font-medium text-foreground">
-                    #{purchase.index}
-                  </span>
-                  <span className="text-text-secondary">
-                    {formatCurrency(purchase.price)}
-                  </span>
-                  <span className="text-text-secondary">
-                    {purchase.bitcoinBought.toFixed(6)}
-                  </span>
+
+            <div className="mt-5 overflow-hidden rounded-2xl border border-border bg-[linear-gradient(180deg,var(--background),var(--background-secondary))] p-4">
+              <svg
+                ref={chartRef}
+                viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+                className="h-auto w-full"
+                role="img"
+                aria-label="Gráfico de compras periódicas y precio promedio final"
+              >
+                <line
+                  x1={chartPadding}
+                  y1={averagePriceY}
+                  x2={chartWidth - chartPadding}
+                  y2={averagePriceY}
+                  stroke="rgba(247,147,26,0.45)"
+                  strokeDasharray="6 7"
+                />
+
+                {chartPoints.map((point, index) => {
+                  const nextPoint = chartPoints[index + 1];
+
+                  return (
+                    <g key={point.index}>
+                      {nextPoint ? (
+                        <line
+                          x1={point.x}
+                          y1={point.y}
+                          x2={nextPoint.x}
+                          y2={nextPoint.y}
+                          stroke="rgba(148,163,184,0.4)"
+                          strokeWidth="1.5"
+                        />
+                      ) : null}
+                      <circle
+                        cx={point.x}
+                        cy={point.y}
+                        r="5"
+                        fill="var(--price-line-color)"
+                      />
+                    </g>
+                  );
+                })}
+
+                <circle
+                  cx={chartWidth / 2}
+                  cy={averagePriceY}
+                  r="10"
+                  fill="#f7931a"
+                  stroke="var(--background-card)"
+                  strokeWidth="3"
+                />
+              </svg>
+
+              <div className="mt-4 grid gap-3 sm:grid-cols-3">
+                <div className="rounded-2xl border border-border bg-card px-4 py-3">
+                  <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                    Precio más bajo
+                  </p>
+                  <p className="mt-2 text-lg font-semibold">
+                    {formatAmount(minChartPrice)}
+                  </p>
                 </div>
-              ))}
+                <div className="rounded-2xl border border-border bg-card px-4 py-3">
+                  <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                    Precio promedio
+                  </p>
+                  <p className="mt-2 text-lg font-semibold">
+                    {formatAmount(summary.averageBuyPrice)}
+                  </p>
+                </div>
+                <div className="rounded-2xl border border-border bg-card px-4 py-3">
+                  <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                    Precio más alto
+                  </p>
+                  <p className="mt-2 text-lg font-semibold">
+                    {formatAmount(maxChartPrice)}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+                  Compras
+                </p>
+                <h3 className="mt-2 text-2xl font-semibold tracking-tight">
+                  Desglose de la práctica
+                </h3>
+              </div>
+              <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                {purchases.length} tramos
+              </p>
+            </div>
+
+            {/* El CSV trae el desglose; el JSON, también los parámetros y el resumen. */}
+            {embed ? null : (
+              <div className="mt-4">
+                {isBacktest ? (
+                  <ExportMenu
+                    name={`dca-backtest-${inputCurrency.toLowerCase()}`}
+                    url={`/api/dca/backtest?${backtestParams.toString()}`}
+                  />
+                ) : (
+                  <ExportMenu
+                    name={`dca-${currency.toLowerCase()}`}
+                    getCsv={() => toCsv(purchases, DCA_PURCHASE_COLUMNS)}
+                    getJson={() => ({ inputs, ...result })}
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="mt-5 overflow-hidden rounded-2xl border border-border">
+              <div className="grid grid-cols-[0.7fr_1fr_1fr] gap-3 bg-background-secondary px-4 py-3 text-xs font-semibold uppercase tracking-[0.18em] text-text-muted">
+                <span>Compra</span>
+                <span>Precio BTC</span>
+                <span>BTC comprado</span>
+              </div>
+              <div className="max-h-[320px] overflow-y-auto">
+                {purchases.map((purchase) => (
+                  <div
+                    key={purchase.index}
+                    className="grid grid-cols-[0.7fr_1fr_1fr] gap-3 border-t border-border px-4 py-3 text-sm"
+                  >
+                    <span className="font-medium text-foreground">
+                      #{purchase.index}
+                      {purchase.date ? (
+                        <span className="block text-xs font-normal text-text-muted">
+                          {formatDate(purchase.date, embed?.locale)}
+                        </span>
+                      ) : null}
+                    </span>
+                    <span className="text-text-secondary">
+                      {formatAmount(purchase.price)}
+                    </span>
+                    <span className="text-text-secondary">
+                      {purchase.bitcoinBought.toFixed(6)}
+                    </span>
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
         </div>
-      </div>
+      ) : (
+        <div className="flex min-h-[320px] items-center justify-center rounded-3xl border border-border bg-card p-6 text-center shadow-sm">
+          <p
+            aria-live="polite"
+            className={`max-w-sm text-sm leading-7 ${
+              backtest.error
+                ? "text-red-600 dark:text-red-400"
+                : "text-text-secondary"
+            }`}
+          >
+            {backtest.error ??
+              "Calculando el backtest con el histórico de precios…"}
+          </p>
+        </div>
+      )}
     </section>
   );
 }
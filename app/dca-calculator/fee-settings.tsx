@@ -0,0 +1,352 @@
+"use client";
+
+import type { Currency } from "@/lib/currency";
+import {
+  DCA_EXCHANGE_LABELS,
+  DCA_EXCHANGES,
+  DCA_FEE_MODEL_LABELS,
+  DCA_FEE_MODELS,
+  getExchangeFees,
+  MAX_FEE_PERCENTAGE,
+  MAX_WITHDRAWAL_FEE,
+  NO_DCA_FEES,
+  type DcaExchange,
+  type DcaFees,
+  type DcaFeeTier,
+} from "@/lib/dca-fees";
+
+type FeeSettingsProps = {
+  fees: DcaFees;
+  onChange: (fees: DcaFees) => void;
+  currency: Currency;
+  // Cotización de `currency` en USD, para convertir los presets.
+  rate: number;
+};
+
+const inputClassName =
+  "w-full rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:border-btc";
+
+const tierInputClassName =
+  "w-full rounded-xl border border-border bg-background px-3 py-2 text-sm outline-none focus:border-btc";
+
+function parseFeeInput(value: string, max: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), max) : 0;
+}
+
+export default function FeeSettings({
+  fees,
+  onChange,
+  currency,
+  rate,
+}: FeeSettingsProps) {
+  // Cualquier ajuste a mano deja de ser el preset del exchange.
+  function update(changes: Partial<DcaFees>) {
+    onChange({ ...fees, ...changes, exchange: "custom" });
+  }
+
+  function selectExchange(exchange: DcaExchange) {
+    if (exchange === "none") {
+      onChange(NO_DCA_FEES);
+    } else if (exchange === "custom") {
+      onChange({ ...fees, exchange });
+    } else {
+      onChange(getExchangeFees(exchange, rate));
+    }
+  }
+
+  function selectModel(model: DcaFees["model"]) {
+    update({
+      model,
+      // Los tramos arrancan con los de Coinbase para no empezar de cero.
+      tiers:
+        model === "tiered" && fees.tiers.length === 0
+          ? getExchangeFees("coinbase", rate).tiers
+          : fees.tiers,
+    });
+  }
+
+  function updateTier(index: number, changes: Partial<DcaFeeTier>) {
+    update({
+      tiers: fees.tiers.map((tier, current) =>
+        current === index ? { ...tier, ...changes } : tier,
+      ),
+    });
+  }
+
+  function addTier() {
+    const bounded = fees.tiers.filter((tier) => tier.upTo !== null);
+    const lastLimit = bounded[bounded.length - 1]?.upTo ?? 0;
+    const open = fees.tiers.find((tier) => tier.upTo === null);
+    update({
+      tiers: [
+        ...bounded,
+        { upTo: lastLimit > 0 ? lastLimit * 2 : 100, rate: 0, fixed: 0 },
+        open ?? { upTo: null, rate: 0, fixed: 0 },
+      ],
+    });
+  }
+
+  function removeTier(index: number) {
+    update({ tiers: fees.tiers.filter((_, current) => current !== index) });
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="space-y-2">
+        <span className="text-sm font-medium text-foreground">
+          Comisiones del exchange
+        </span>
+        <select
+          value={fees.exchange}
+          onChange={(event) =>
+            selectExchange(event.target.value as DcaExchange)
+          }
+          className={inputClassName}
+        >
+          {DCA_EXCHANGES.map((exchange) => (
+            <option key={exchange} value={exchange}>
+              {DCA_EXCHANGE_LABELS[exchange]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {fees.exchange === "none" ? (
+        <p className="text-xs leading-5 text-text-muted">
+          Cada compra convierte todo el monto a BTC al precio exacto.
+        </p>
+      ) : (
+        <div className="space-y-4 rounded-2xl border border-border bg-background p-4">
+          <div
+            role="group"
+            aria-label="Tipo de comisión"
+            className="flex flex-wrap gap-2"
+          >
+            {DCA_FEE_MODELS.map((model) => (
+              <button
+                key={model}
+                type="button"
+                aria-pressed={fees.model === model}
+                onClick={() => selectModel(model)}
+                className={`cursor-pointer rounded-full border px-3 py-1.5 text-xs font-semibold transition ${
+                  fees.model === model
+                    ? "border-btc bg-btc text-black"
+                    : "border-border bg-card text-text-secondary hover:border-btc-soft hover:text-foreground"
+                }`}
+              >
+                {DCA_FEE_MODEL_LABELS[model]}
+              </button>
+            ))}
+          </div>
+
+          {fees.model === "percentage" ? (
+            <label className="block space-y-2">
+              <span className="text-sm font-medium text-foreground">
+                Comisión por compra (%)
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_FEE_PERCENTAGE}
+                step={0.05}
+                value={fees.rate}
+                onChange={(event) =>
+                  update({
+                    rate: parseFeeInput(event.target.value, MAX_FEE_PERCENTAGE),
+                  })
+                }
+                className={inputClassName}
+              />
+            </label>
+          ) : null}
+
+          {fees.model === "fixed" ? (
+            <label className="block space-y-2">
+              <span className="text-sm font-medium text-foreground">
+                Comisión por compra ({currency})
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={fees.fixed}
+                onChange={(event) =>
+                  update({
+                    fixed: parseFeeInput(
+                      event.target.value,
+                      Number.MAX_SAFE_INTEGER,
+                    ),
+                  })
+                }
+                className={inputClassName}
+              />
+            </label>
+          ) : null}
+
+          {fees.model === "tiered" ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_0.8fr_0.8fr_auto] gap-2 text-xs uppercase tracking-[0.18em] text-text-muted">
+                <span>Orden hasta</span>
+                <span>%</span>
+                <span>Fija</span>
+                <span className="w-6" />
+              </div>
+              {fees.tiers.map((tier, index) => (
+                <div
+                  key={index}
+                  className="grid grid-cols-[1fr_0.8fr_0.8fr_auto] items-center gap-2"
+                >
+                  {tier.upTo === null ? (
+                    <span className="px-3 py-2 text-sm text-text-secondary">
+                      Sin tope
+                    </span>
+                  ) : (
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label={`Tope del tramo ${index + 1} (${currency})`}
+                      value={tier.upTo}
+                      onChange={(event) =>
+                        updateTier(index, {
+                          upTo: parseFeeInput(
+                            event.target.value,
+                            Number.MAX_SAFE_INTEGER,
+                          ),
+                        })
+                      }
+                      className={tierInputClassName}
+                    />
+                  )}
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_FEE_PERCENTAGE}
+                    step={0.05}
+                    aria-label={`Comisión del tramo ${index + 1} (%)`}
+                    value={tier.rate}
+                    onChange={(event) =>
+                      updateTier(index, {
+                        rate: parseFeeInput(
+                          event.target.value,
+                          MAX_FEE_PERCENTAGE,
+                        ),
+                      })
+                    }
+                    className={tierInputClassName}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    aria-label={`Comisión fija del tramo ${index + 1} (${currency})`}
+                    value={tier.fixed}
+                    onChange={(event) =>
+                      updateTier(index, {
+                        fixed: parseFeeInput(
+                          event.target.value,
+                          Number.MAX_SAFE_INTEGER,
+                        ),
+                      })
+                    }
+                    className={tierInputClassName}
+                  />
+                  {tier.upTo === null ? (
+                    <span className="w-6" />
+                  ) : (
+                    <button
+                      type="button"
+                      aria-label={`Quitar el tramo ${index + 1}`}
+                      onClick={() => removeTier(index)}
+                      className="w-6 cursor-pointer text-sm text-text-muted hover:text-foreground"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addTier}
+                className="cursor-pointer text-xs font-semibold text-btc"
+              >
+                Agregar tramo
+              </button>
+            </div>
+          ) : null}
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="space-y-2">
+              <span className="text-xs font-medium text-foreground">
+                Spread (%)
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_FEE_PERCENTAGE}
+                step={0.05}
+                value={fees.spread}
+                onChange={(event) =>
+                  update({
+                    spread: parseFeeInput(
+                      event.target.value,
+                      MAX_FEE_PERCENTAGE,
+                    ),
+                  })
+                }
+                className={tierInputClassName}
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="text-xs font-medium text-foreground">
+                Orden mínima ({currency})
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={fees.minimumOrder}
+                onChange={(event) =>
+                  update({
+                    minimumOrder: parseFeeInput(
+                      event.target.value,
+                      Number.MAX_SAFE_INTEGER,
+                    ),
+                  })
+                }
+                className={tierInputClassName}
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="text-xs font-medium text-foreground">
+                Retiro (BTC)
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_WITHDRAWAL_FEE}
+                step={0.00001}
+                value={fees.withdrawalFee}
+                onChange={(event) =>
+                  update({
+                    withdrawalFee: parseFeeInput(
+                      event.target.value,
+                      MAX_WITHDRAWAL_FEE,
+                    ),
+                  })
+                }
+                className={tierInputClassName}
+              />
+            </label>
+          </div>
+
+          <p className="text-xs leading-5 text-text-muted">
+            {fees.exchange === "custom"
+              ? "Cada compra paga la comisión y la mitad del spread; si el aporte no llega a la orden mínima, se acumula para la siguiente. El retiro se cobra una vez, al final."
+              : "Tarifas de referencia para compras chicas: cambian seguido, confírmalas en el exchange antes de decidir."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
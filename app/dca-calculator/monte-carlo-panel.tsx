@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { DcaInputs } from "@/lib/dca-calculator";
+import { runDcaMonteCarlo, type PercentileBand } from "@/lib/dca-monte-carlo";
+import {
+  DEFAULT_MONTE_CARLO_PATHS,
+  MONTE_CARLO_PATH_COUNTS,
+  type MonteCarloPathCount,
+} from "@/lib/dca-paths";
+
+// Pausa sin cambios antes de volver a correr los caminos mientras se escribe.
+const RERUN_DELAY_MS = 300;
+
+type MonteCarloPanelProps = {
+  inputs: DcaInputs;
+  formatAmount: (value: number) => string;
+  locale?: string;
+};
+
+function formatPercentage(value: number) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+export default function MonteCarloPanel({
+  inputs,
+  formatAmount,
+  locale = "es-AR",
+}: MonteCarloPanelProps) {
+  const [paths, setPaths] = useState<MonteCarloPathCount>(
+    DEFAULT_MONTE_CARLO_PATHS,
+  );
+  const [settledInputs, setSettledInputs] = useState(inputs);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSettledInputs(inputs), RERUN_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [inputs]);
+
+  const {
+    amountPerBuy,
+    numberOfBuys,
+    startingPrice,
+    endingPrice,
+    frequency,
+    currency,
+    pricePath,
+    volatility,
+    seed,
+    fees,
+    strategy,
+  } = settledInputs;
+  // Hasta 10.000 caminos corren en el hilo principal: se recalcula cuando los
+  // parámetros dejan de cambiar, no con cada tecla.
+  const monteCarlo = useMemo(
+    () =>
+      runDcaMonteCarlo(
+        {
+          amountPerBuy,
+          numberOfBuys,
+          startingPrice,
+          endingPrice,
+          frequency,
+          currency,
+          pricePath,
+          volatility,
+          seed,
+          fees,
+          strategy,
+        },
+        paths,
+      ),
+    [
+      amountPerBuy,
+      numberOfBuys,
+      startingPrice,
+      endingPrice,
+      frequency,
+      currency,
+      pricePath,
+      volatility,
+      seed,
+      fees,
+      strategy,
+      paths,
+    ],
+  );
+
+  return (
+    <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+            Monte Carlo
+          </p>
+          <h3 className="mt-2 text-2xl font-semibold tracking-tight">
+            Rango de resultados posibles
+          </h3>
+        </div>
+        <div
+          role="group"
+          aria-label="Cantidad de caminos"
+          className="inline-flex rounded-full border border-border bg-background p-1"
+        >
+          {MONTE_CARLO_PATH_COUNTS.map((count) => (
+            <button
+              key={count}
+              type="button"
+              aria-pressed={paths === count}
+              onClick={() => setPaths(count)}
+              className={`cursor-pointer rounded-full px-3 py-1 text-xs font-semibold transition ${
+                paths === count
+                  ? "bg-btc text-black"
+                  : "text-text-secondary hover:text-foreground"
+              }`}
+            >
+              {count.toLocaleString(locale)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-5 overflow-hidden rounded-2xl border border-border">
+        <div className="grid grid-cols-[1.2fr_1fr_1fr_1fr] gap-3 bg-background-secondary px-4 py-3 text-xs font-semibold uppercase tracking-[0.18em] text-text-muted">
+          <span>Resultado</span>
+          <span>P5</span>
+          <span>P50</span>
+          <span>P95</span>
+        </div>
+        {(
+          [
+            {
+              label: "Capital invertido",
+              band: monteCarlo.totalInvested,
+              format: formatAmount,
+            },
+            {
+              label: "Precio final de BTC",
+              band: monteCarlo.finalPrice,
+              format: formatAmount,
+            },
+            {
+              label: "BTC acumulado",
+              band: monteCarlo.totalBitcoin,
+              format: (value: number) => value.toFixed(6),
+            },
+            {
+              label: "Valor del plan",
+              band: monteCarlo.currentValue,
+              format: formatAmount,
+            },
+            {
+              label: "Ganancia o pérdida",
+              band: monteCarlo.profitLoss,
+              format: formatAmount,
+            },
+            {
+              label: "Rendimiento",
+              band: monteCarlo.profitLossPercentage,
+              format: formatPercentage,
+            },
+          ] satisfies Array<{
+            label: string;
+            band: PercentileBand;
+            format: (value: number) => string;
+          }>
+        ).map((row) => (
+          <div
+            key={row.label}
+            className="grid grid-cols-[1.2fr_1fr_1fr_1fr] gap-3 border-t border-border px-4 py-3 text-sm"
+          >
+            <span className="font-medium text-foreground">
+              {row.label}
+            </span>
+            <span className="text-text-secondary">
+              {row.format(row.band.p5)}
+            </span>
+            <span className="font-semibold text-foreground">
+              {row.format(row.band.p50)}
+            </span>
+            <span className="text-text-secondary">
+              {row.format(row.band.p95)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-4 text-sm leading-7 text-text-secondary">
+        {`Con ${Math.round(volatility * 100)}% de volatilidad anual, el plan termina en ganancia en el ${monteCarlo.probabilityOfProfit.toFixed(0)}% de los ${monteCarlo.paths.toLocaleString(locale)} caminos. El 90% de los resultados cae entre P5 y P95; el resto de la página muestra el camino mediano.`}
+      </p>
+    </div>
+  );
+}
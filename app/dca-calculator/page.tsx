@@ -1,4 +1,17 @@
+import type { Metadata } from "next";
 import Link from "next/link";
+import { getDefaultBacktestStart } from "@/lib/dca-backtest";
+import { loadScenarioBacktest } from "@/lib/dca-backtest-data";
+import {
+  describeDcaScenario,
+  getScenarioInputs,
+  parseDcaScenario,
+  toDcaSearchParams,
+} from "@/lib/dca-calculator";
+import {
+  PREVIEW_MONTE_CARLO_PATHS,
+  runDcaMonteCarlo,
+} from "@/lib/dca-monte-carlo";
 import DcaCalculator from "./dca-calculator";
 
 const principles = [
@@ -17,18 +30,74 @@ const principles = [
 ] as const;
 
 const notes = [
-  "La simulación usa una transición simple entre precio inicial y final para que el ejemplo sea fácil de entender.",
-  "No contempla comisiones, slippage ni impuestos.",
+  "La simulación puede unir el precio inicial y el final en línea recta, con crecimiento porcentual constante, con la forma de un ciclo de halving o con un camino aleatorio.",
+  "El modo Monte Carlo repite el plan sobre miles de caminos aleatorios con la volatilidad histórica de Bitcoin y muestra el rango entre los percentiles 5 y 95.",
+  "El backtest usa el precio diario real de Bitcoin: si una fecha programada no tiene cierre, compra el día siguiente disponible.",
+  "Las comisiones, el spread, la orden mínima y el retiro son opcionales: los presets de cada exchange son aproximados. No contempla slippage ni impuestos.",
   "Tómalo como una referencia educativa, no como una recomendación financiera.",
 ] as const;
 
-export const metadata = {
+const baseMetadata = {
   title: "Calculadora DCA de Bitcoin",
   description:
     "Simulador simple de Dollar Cost Averaging para practicar compras periódicas de Bitcoin.",
 };
 
-export default function DcaCalculatorPage() {
+type DcaCalculatorPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// Un enlace compartido con el escenario completo se previsualiza con su
+// resultado; sin parámetros queda la descripción genérica.
+export async function generateMetadata({
+  searchParams,
+}: DcaCalculatorPageProps): Promise<Metadata> {
+  const scenario = parseDcaScenario(await searchParams);
+  const inputs = getScenarioInputs(scenario);
+  if (!inputs) return baseMetadata;
+
+  const backtestFrom =
+    scenario.mode === "backtest"
+      ? (scenario.startDate ?? getDefaultBacktestStart())
+      : null;
+  const backtest = backtestFrom
+    ? await loadScenarioBacktest(inputs, backtestFrom)
+    : null;
+  if (backtestFrom && !backtest) return baseMetadata;
+  const monteCarlo =
+    !backtestFrom && inputs.pricePath === "montecarlo"
+      ? runDcaMonteCarlo(inputs, PREVIEW_MONTE_CARLO_PATHS)
+      : null;
+
+  const { title, description } = describeDcaScenario(inputs, {
+    backtest,
+    monteCarlo,
+  });
+  const image = `/api/dca/og?${toDcaSearchParams(inputs, backtestFrom).toString()}`;
+
+  return {
+    ...baseMetadata,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      siteName: "BitAtlas",
+      images: [{ url: image, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function DcaCalculatorPage({
+  searchParams,
+}: DcaCalculatorPageProps) {
+  const scenario = parseDcaScenario(await searchParams);
+
   return (
     <main className="min-h-screen bg-background text-foreground">
       <section className="relative overflow-hidden border-b border-border">
@@ -133,7 +202,7 @@ export default function DcaCalculatorPage() {
           </p>
         </div>
 
-        <DcaCalculator />
+        <DcaCalculator initialScenario={scenario} />
       </section>
 
       <section className="border-y border-border bg-background-secondary">
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  validate,
+  type Infer,
+  type UpstreamErrorBody,
+} from "@/lib/upstream-schema";
+
+// Espera a que el usuario deje de tipear antes de pedir otro backtest.
+const BACKTEST_DELAY_MS = 400;
+
+const backtestResponseSchema = object({
+  currency: string(),
+  purchases: array(
+    object({
+      index: number(),
+      date: string(),
+      price: number(),
+      invested: number(),
+      bitcoinBought: number(),
+      fee: number(),
+      cumulativeInvested: number(),
+      cumulativeBitcoin: number(),
+    }),
+    { minLength: 1 },
+  ),
+  summary: object({
+    totalInvested: number(),
+    totalBitcoin: number(),
+    averageBuyPrice: number(),
+    currentValue: number(),
+    profitLoss: number(),
+    profitLossPercentage: number(),
+    lumpSumBitcoin: number(),
+    lumpSumDifference: number(),
+    uninvested: number(),
+  }),
+  requestedBuys: number(),
+  startDate: string(),
+  endDate: string(),
+  finalPrice: number(),
+  maxDrawdown: object({
+    percentage: number(),
+    peakDate: nullable(string()),
+    troughDate: nullable(string()),
+  }),
+  underwater: object({
+    days: number(),
+    longestDays: number(),
+    percentage: number(),
+  }),
+});
+
+export type DcaBacktestResponse = Infer<typeof backtestResponseSchema>;
+
+type BacktestState = {
+  query: string;
+  data: DcaBacktestResponse | null;
+  error: string | null;
+};
+
+// `query` en null apaga el backtest (modo simulación). Mientras llega la
+// respuesta de una query nueva se sigue mostrando el resultado anterior.
+export function useDcaBacktest(query: string | null) {
+  const [state, setState] = useState<BacktestState | null>(null);
+
+  useEffect(() => {
+    if (query === null) return;
+    let active = true;
+
+    async function loadBacktest(backtestQuery: string) {
+      try {
+        const res = await fetch(`/api/dca/backtest?${backtestQuery}`);
+        const json: unknown = await res.json();
+        if (!res.ok) {
+          const body = json as UpstreamErrorBody;
+          throw new Error(body.details ?? body.error ?? `HTTP ${res.status}`);
+        }
+
+        const data = validate("/api/dca/backtest", backtestResponseSchema, json);
+        if (active) setState({ query: backtestQuery, data, error: null });
+      } catch (loadError) {
+        if (active) {
+          setState({
+            query: backtestQuery,
+            data: null,
+            error:
+              loadError instanceof Error
+                ? loadError.message
+                : "No se pudo calcular el backtest.",
+          });
+        }
+      }
+    }
+
+    const timeout = window.setTimeout(
+      () => loadBacktest(query),
+      BACKTEST_DELAY_MS,
+    );
+
+    return () => {
+      active = false;
+      window.clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const current = state?.query === query ? state : null;
+
+  return {
+    data: state?.data ?? null,
+    error: current?.error ?? null,
+    loading: query !== null && current === null,
+  };
+}
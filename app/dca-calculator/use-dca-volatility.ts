@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Currency } from "@/lib/currency";
+import {
+  number,
+  object,
+  string,
+  validate,
+  type Infer,
+} from "@/lib/upstream-schema";
+
+const volatilityResponseSchema = object({
+  currency: string(),
+  volatility: number(),
+  from: string(),
+  to: string(),
+  observations: number(),
+});
+
+export type DcaVolatilityResponse = Infer<typeof volatilityResponseSchema>;
+
+// Volatilidad histórica en `currency`; null la deja sin pedir. Si falla, la
+// calculadora sigue con la volatilidad de referencia.
+export function useDcaVolatility(currency: Currency | null) {
+  const [calibrations, setCalibrations] = useState<
+    Partial<Record<Currency, DcaVolatilityResponse>>
+  >({});
+  const cached = currency ? calibrations[currency] : undefined;
+
+  useEffect(() => {
+    if (!currency || cached) return;
+    let active = true;
+
+    async function loadVolatility(volatilityCurrency: Currency) {
+      try {
+        const res = await fetch(
+          `/api/dca/volatility?currency=${volatilityCurrency}`,
+        );
+        if (!res.ok) return;
+        const data = validate(
+          "/api/dca/volatility",
+          volatilityResponseSchema,
+          await res.json(),
+        );
+        if (active) {
+          setCalibrations((current) => ({
+            ...current,
+            [volatilityCurrency]: data,
+          }));
+        }
+      } catch {
+        // Sin calibración queda la volatilidad de referencia.
+      }
+    }
+
+    loadVolatility(currency);
+
+    return () => {
+      active = false;
+    };
+  }, [currency, cached]);
+
+  return cached ?? null;
+}
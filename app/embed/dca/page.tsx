@@ -0,0 +1,24 @@
+import DcaCalculator from "@/app/dca-calculator/dca-calculator";
+import { parseDcaScenario } from "@/lib/dca-calculator";
+import { parseEmbedSettings } from "@/lib/embed";
+import EmbedFrame from "../embed-frame";
+
+export const metadata = {
+  title: "Calculadora DCA de Bitcoin · BitAtlas",
+  robots: { index: false },
+};
+
+type DcaEmbedPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function DcaEmbedPage({ searchParams }: DcaEmbedPageProps) {
+  const query = await searchParams;
+  const settings = parseEmbedSettings("dca", query);
+
+  return (
+    <EmbedFrame chart="dca" settings={settings}>
+      <DcaCalculator initialScenario={parseDcaScenario(query)} />
+    </EmbedFrame>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { RANGE_PRESETS } from "@/lib/chart-window";
+import { CURRENCY_LOCALES, SUPPORTED_CURRENCIES } from "@/lib/currency";
+import {
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  EMBED_CHART_LABELS,
+  EMBED_CHARTS,
+  EMBED_LOCALES,
+  getDefaultEmbedSettings,
+  MAX_EMBED_HEIGHT,
+  MIN_EMBED_HEIGHT,
+  type EmbedChart,
+  type EmbedSettings,
+} from "@/lib/embed";
+
+const inputClassName =
+  "w-full rounded-xl border border-border bg-background px-3 py-2 text-sm";
+
+const THEME_LABELS = { dark: "Oscuro", light: "Claro" } as const;
+
+function subscribe() {
+  return () => {};
+}
+
+export default function EmbedBuilder() {
+  const [chart, setChart] = useState<EmbedChart>("rainbow");
+  const [settings, setSettings] = useState<EmbedSettings>(() =>
+    getDefaultEmbedSettings("rainbow"),
+  );
+  const [notice, setNotice] = useState<string | null>(null);
+  // El snippet lleva la URL absoluta del sitio donde se generó.
+  const origin = useSyncExternalStore(
+    subscribe,
+    () => window.location.origin,
+    () => "",
+  );
+
+  const snippet = buildEmbedSnippet(origin, chart, settings);
+  const previewUrl = buildEmbedUrl("", chart, settings);
+
+  function update(changes: Partial<EmbedSettings>) {
+    setSettings((current) => ({ ...current, ...changes }));
+    setNotice(null);
+  }
+
+  function selectChart(next: EmbedChart) {
+    setChart(next);
+    // Cada gráfico tiene su alto por defecto; el resto de las opciones se mantiene.
+    update({ height: getDefaultEmbedSettings(next).height });
+  }
+
+  async function copySnippet() {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setNotice("Código copiado.");
+    } catch {
+      setNotice("No se pudo copiar: selecciona el código y cópialo a mano.");
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[0.8fr_1.2fr]">
+      <div className="space-y-4 rounded-3xl border border-border bg-card p-6 shadow-sm">
+        <div
+          role="tablist"
+          aria-label="Gráfico a insertar"
+          className="inline-flex flex-wrap items-center rounded-full border border-border bg-background p-0.5"
+        >
+          {EMBED_CHARTS.map((item) => (
+            <button
+              key={item}
+              type="button"
+              role="tab"
+              aria-selected={chart === item}
+              onClick={() => selectChart(item)}
+              className={`cursor-pointer rounded-full px-4 py-1.5 text-xs font-semibold transition ${
+                chart === item
+                  ? "bg-btc text-black"
+                  : "text-text-secondary hover:text-foreground"
+              }`}
+            >
+              {EMBED_CHART_LABELS[item]}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1 text-sm">
+            <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Tema
+            </span>
+            <select
+              value={settings.theme}
+              onChange={(event) =>
+                update({ theme: event.target.value as EmbedSettings["theme"] })
+              }
+              className={inputClassName}
+            >
+              {(["dark", "light"] as const).map((theme) => (
+                <option key={theme} value={theme}>
+                  {THEME_LABELS[theme]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 text-sm">
+            <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Rango
+            </span>
+            <select
+              value={settings.range}
+              disabled={chart === "dca"}
+              onChange={(event) =>
+                update({ range: event.target.value as EmbedSettings["range"] })
+              }
+              className={`${inputClassName} disabled:opacity-50`}
+            >
+              {RANGE_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 text-sm">
+            <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Moneda
+            </span>
+            <select
+              value={settings.currency}
+              onChange={(event) => {
+                const currency = event.target.value as EmbedSettings["currency"];
+                update({ currency, locale: CURRENCY_LOCALES[currency] });
+              }}
+              className={inputClassName}
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 text-sm">
+            <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Formato de números
+            </span>
+            <select
+              value={settings.locale}
+              onChange={(event) => update({ locale: event.target.value })}
+              className={inputClassName}
+            >
+              {EMBED_LOCALES.map((locale) => (
+                <option key={locale} value={locale}>
+                  {locale}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 text-sm sm:col-span-2">
+            <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Alto (px)
+            </span>
+            <input
+              type="number"
+              min={MIN_EMBED_HEIGHT}
+              max={MAX_EMBED_HEIGHT}
+              step={20}
+              value={settings.height}
+              onChange={(event) => {
+                const height = Number(event.target.value);
+                if (Number.isFinite(height)) update({ height });
+              }}
+              onBlur={() =>
+                update({
+                  height: Math.min(
+                    Math.max(Math.round(settings.height), MIN_EMBED_HEIGHT),
+                    MAX_EMBED_HEIGHT,
+                  ),
+                })
+              }
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Código para insertar
+          </span>
+          <textarea
+            readOnly
+            value={snippet}
+            rows={5}
+            onFocus={(event) => event.currentTarget.select()}
+            className={`${inputClassName} font-mono text-xs leading-5`}
+          />
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={copySnippet}
+              className="cursor-pointer rounded-full bg-btc px-4 py-2 text-xs font-semibold text-black transition"
+            >
+              Copiar código
+            </button>
+            {notice ? (
+              <span className="text-xs text-text-secondary">{notice}</span>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Vista previa
+        </p>
+        <iframe
+          src={previewUrl}
+          title={`Vista previa: ${EMBED_CHART_LABELS[chart]}`}
+          style={{
+            height: Math.min(
+              Math.max(settings.height, MIN_EMBED_HEIGHT),
+              MAX_EMBED_HEIGHT,
+            ),
+          }}
+          className="w-full rounded-2xl border border-border"
+          loading="lazy"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ReactNode } from "react";
+import EmbedProvider from "@/app/components/EmbedProvider";
+import {
+  EMBED_CHART_LABELS,
+  type EmbedChart,
+  type EmbedSettings,
+} from "@/lib/embed";
+
+const CHART_PAGES: Record<EmbedChart, string> = {
+  rainbow: "/rainbow",
+  realized: "/realized",
+  dca: "/dca-calculator",
+};
+
+type EmbedFrameProps = {
+  chart: EmbedChart;
+  settings: EmbedSettings;
+  children: ReactNode;
+};
+
+// El tema se aplica en este contenedor y no en <html>: la página embebida no
+// tiene Navbar que lo sincronice con la preferencia guardada.
+export default function EmbedFrame({ chart, settings, children }: EmbedFrameProps) {
+  return (
+    <div className={settings.theme === "dark" ? "dark" : undefined}>
+      <main
+        style={{ height: settings.height }}
+        className="flex flex-col gap-2 overflow-hidden bg-background p-3 text-foreground"
+      >
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          <EmbedProvider settings={settings}>{children}</EmbedProvider>
+        </div>
+        <footer className="flex items-center justify-between gap-3 text-[11px] text-text-muted">
+          <span>No es consejo financiero.</span>
+          <a
+            href={CHART_PAGES[chart]}
+            target="_blank"
+            rel="noopener"
+            className="font-semibold text-btc hover:underline"
+          >
+            {EMBED_CHART_LABELS[chart]} en BitAtlas ↗
+          </a>
+        </footer>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import EmbedBuilder from "./embed-builder";
+
+export const metadata = {
+  title: "Insertar gráficos de BitAtlas",
+  description:
+    "Genera el código para insertar el Rainbow Chart, el precio realizado o la calculadora DCA en tu sitio.",
+};
+
+export default function EmbedPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <section className="relative overflow-hidden border-b border-border">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.18),transparent_32%)] dark:bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.22),transparent_32%)]" />
+
+        <div className="relative mx-auto max-w-7xl px-4 py-14 sm:px-6 lg:px-8">
+          <div className="max-w-3xl space-y-5">
+            <div className="inline-flex items-center rounded-full border border-btc-soft bg-card px-4 py-2 text-xs font-semibold uppercase tracking-[0.28em] text-btc">
+              BitAtlas · Widgets
+            </div>
+            <h1 className="text-4xl font-semibold tracking-tight sm:text-5xl">
+              Inserta nuestros gráficos en tu sitio.
+            </h1>
+            <p className="text-base leading-7 text-text-secondary">
+              Elige el gráfico, el tema, el rango y la moneda, y copia el
+              iframe. Los datos se actualizan solos y el widget enlaza a la
+              versión completa en BitAtlas.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="mx-auto max-w-7xl px-4 py-14 sm:px-6 lg:px-8">
+        <EmbedBuilder />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,29 @@
+import { Suspense } from "react";
+import RainbowChart from "@/app/rainbow/rainbow-chart";
+import { parseEmbedSettings } from "@/lib/embed";
+import EmbedFrame from "../embed-frame";
+
+export const metadata = {
+  title: "Bitcoin Rainbow Chart · BitAtlas",
+  robots: { index: false },
+};
+
+type RainbowEmbedPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function RainbowEmbedPage({
+  searchParams,
+}: RainbowEmbedPageProps) {
+  const settings = parseEmbedSettings("rainbow", await searchParams);
+
+  return (
+    <EmbedFrame chart="rainbow" settings={settings}>
+      <Suspense
+        fallback={<div className="p-6 text-sm text-text-secondary">Cargando datos…</div>}
+      >
+        <RainbowChart />
+      </Suspense>
+    </EmbedFrame>
+  );
+}
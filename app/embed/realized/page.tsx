@@ -0,0 +1,24 @@
+import { RealizedPriceChart } from "@/app/realized/realized-price-chart";
+import { parseEmbedSettings } from "@/lib/embed";
+import EmbedFrame from "../embed-frame";
+
+export const metadata = {
+  title: "Precio realizado de Bitcoin · BitAtlas",
+  robots: { index: false },
+};
+
+type RealizedEmbedPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function RealizedEmbedPage({
+  searchParams,
+}: RealizedEmbedPageProps) {
+  const settings = parseEmbedSettings("realized", await searchParams);
+
+  return (
+    <EmbedFrame chart="realized" settings={settings}>
+      <RealizedPriceChart />
+    </EmbedFrame>
+  );
+}
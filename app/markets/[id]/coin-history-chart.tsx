@@ -0,0 +1,176 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import ExportMenu from "@/app/components/ExportMenu";
+import type { CoinHistoryPoint } from "@/lib/coin-details";
+import { getCurrencyFormatter, type Currency } from "@/lib/currency";
+import { COIN_HISTORY_COLUMNS, toCsv } from "@/lib/data-export";
+
+type Denomination = "fiat" | "btc";
+
+type CoinHistoryChartProps = {
+  id: string;
+  history: CoinHistoryPoint[];
+  currency: Currency;
+  symbol: string;
+};
+
+function formatBtc(value: number) {
+  if (value >= 1) return `${value.toFixed(2)} BTC`;
+  if (value >= 0.0001) return `${value.toFixed(6)} BTC`;
+  return `${Math.round(value * 100_000_000).toLocaleString("es-AR")} sats`;
+}
+
+export default function CoinHistoryChart({
+  id,
+  history,
+  currency,
+  symbol,
+}: CoinHistoryChartProps) {
+  const [denomination, setDenomination] = useState<Denomination>("fiat");
+  const hasBtcHistory =
+    symbol !== "BTC" && history.some((point) => point.priceBtc !== null);
+
+  const formatValue = useMemo(() => {
+    if (denomination === "btc") return formatBtc;
+    const formatter = getCurrencyFormatter(currency, {
+      maximumFractionDigits: 2,
+    });
+    const compact = getCurrencyFormatter(currency, {
+      notation: "compact",
+      maximumFractionDigits: 2,
+    });
+    return (value: number) =>
+      value >= 100_000 ? compact.format(value) : formatter.format(value);
+  }, [currency, denomination]);
+
+  const rows = history
+    .map((point) => ({
+      date: point.date,
+      value: denomination === "btc" ? point.priceBtc : point.price,
+    }))
+    .filter(
+      (row): row is { date: string; value: number } => row.value !== null,
+    );
+
+  const first = rows[0]?.value ?? null;
+  const last = rows[rows.length - 1]?.value ?? null;
+  const change = first && last ? (last / first - 1) * 100 : null;
+
+  return (
+    <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+            Histórico
+          </p>
+          <h2 className="mt-2 text-2xl font-semibold tracking-tight">
+            {symbol} en {denomination === "btc" ? "BTC" : currency} · último año
+          </h2>
+          {change !== null ? (
+            <p
+              className={`mt-2 text-sm font-semibold ${
+                change >= 0
+                  ? "text-emerald-600 dark:text-emerald-400"
+                  : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              {change >= 0 ? "+" : ""}
+              {change.toFixed(2)}% en el período
+            </p>
+          ) : null}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {hasBtcHistory ? (
+            <div
+              role="group"
+              aria-label="Denominación del gráfico"
+              className="inline-flex items-center rounded-full border border-border bg-background p-0.5"
+            >
+              {(["fiat", "btc"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={denomination === option}
+                  onClick={() => setDenomination(option)}
+                  className={`cursor-pointer rounded-full px-3 py-1 text-xs font-semibold transition ${
+                    denomination === option
+                      ? "bg-btc text-black"
+                      : "text-text-secondary hover:text-foreground"
+                  }`}
+                >
+                  {option === "btc" ? "BTC" : currency}
+                </button>
+              ))}
+            </div>
+          ) : null}
+          {/* El histórico ya llegó con la página: se exporta sin volver a pedirlo. */}
+          <ExportMenu
+            name={`${id}-history-${currency.toLowerCase()}`}
+            getCsv={() => toCsv(history, COIN_HISTORY_COLUMNS)}
+            getJson={() => history}
+          />
+        </div>
+      </div>
+
+      <div className="mt-6 h-[360px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={rows}
+            margin={{ top: 10, right: 12, bottom: 0, left: 0 }}
+          >
+            <defs>
+              <linearGradient id="coin-history-fill" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor="#f7931a" stopOpacity={0.32} />
+                <stop offset="100%" stopColor="#f7931a" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <XAxis
+              dataKey="date"
+              tick={{ fontSize: 12, fill: "var(--chart-axis-text)" }}
+              axisLine={{ stroke: "var(--chart-axis-line)" }}
+              tickLine={{ stroke: "var(--chart-axis-line)" }}
+              minTickGap={48}
+            />
+            <YAxis
+              tick={{ fontSize: 12, fill: "var(--chart-axis-text)" }}
+              axisLine={{ stroke: "var(--chart-axis-line)" }}
+              tickLine={{ stroke: "var(--chart-axis-line)" }}
+              width={currency === "ARS" && denomination === "fiat" ? 128 : 96}
+              domain={["auto", "auto"]}
+              tickFormatter={(value) => formatValue(Number(value))}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "var(--tooltip-bg)",
+                borderColor: "var(--border-color)",
+                borderRadius: "8px",
+                fontSize: "11px",
+              }}
+              labelStyle={{ color: "#e2e8f0", fontSize: "11px" }}
+              itemStyle={{ fontSize: "11px" }}
+              formatter={(value) => [formatValue(Number(value)), "Precio"]}
+            />
+            <Area
+              type="monotone"
+              dataKey="value"
+              stroke="#f7931a"
+              strokeWidth={2}
+              fill="url(#coin-history-fill)"
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import {
+  fetchCoinDetailResult,
+  isCoinId,
+  type CoinDetailResult,
+} from "@/lib/coin-details";
+import {
+  CURRENCY_COOKIE,
+  getCurrencyFormatter,
+  parseCurrency,
+} from "@/lib/currency";
+import {
+  changeTone,
+  createCurrencyFormatter,
+  formatPercent,
+  formatSupply,
+} from "@/lib/market-format";
+import CoinHistoryChart from "./coin-history-chart";
+
+export const metadata = {
+  title: "Detalle de mercado",
+  description:
+    "Precio, supply, máximos y mínimos históricos de cada criptomoneda, también expresados en BTC.",
+};
+
+type CoinPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+});
+
+function formatDate(value: string | null) {
+  return value ? dateFormatter.format(new Date(value)) : "Sin fecha";
+}
+
+function errorView(message: string) {
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <section className="mx-auto max-w-7xl px-4 py-14 sm:px-6 lg:px-8">
+        <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+            Mercado
+          </p>
+          <h1 className="mt-3 text-2xl font-semibold">
+            No se pudo cargar este activo en este momento
+          </h1>
+          <p className="mt-3 text-sm leading-7 text-text-secondary">{message}</p>
+          <Link
+            href="/#mercados"
+            className="mt-5 inline-flex text-sm font-semibold text-btc"
+          >
+            Volver a mercados
+          </Link>
+        </div>
+      </section>
+    </main>
+  );
+}
+
+export default async function CoinPage({ params }: CoinPageProps) {
+  const { id } = await params;
+  if (!isCoinId(id)) {
+    notFound();
+  }
+
+  const cookieStore = await cookies();
+  const currency = parseCurrency(cookieStore.get(CURRENCY_COOKIE)?.value);
+  let result: CoinDetailResult | null;
+
+  try {
+    result = await fetchCoinDetailResult(id, currency);
+  } catch (error) {
+    return errorView(error instanceof Error ? error.message : String(error));
+  }
+
+  if (result === null) {
+    notFound();
+  }
+
+  const { coin, history, historyError, historySource, detailSource } = result;
+  const formatCurrency = createCurrencyFormatter(currency);
+  const priceFormatter = getCurrencyFormatter(currency, {
+    maximumFractionDigits:
+      coin.currentPrice !== null && coin.currentPrice < 1 ? 6 : 2,
+  });
+  const issuedShare =
+    coin.circulatingSupply !== null && coin.maxSupply
+      ? (coin.circulatingSupply / coin.maxSupply) * 100
+      : null;
+  const lastBtcPrice = history[history.length - 1]?.priceBtc ?? null;
+
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <section className="relative overflow-hidden border-b border-border">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.18),transparent_32%)] dark:bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.22),transparent_32%)]" />
+
+        <div className="relative mx-auto max-w-7xl px-4 py-12 sm:px-6 lg:px-8 lg:py-16">
+          <Link
+            href="/#mercados"
+            className="text-sm font-semibold text-text-secondary hover:text-btc"
+          >
+            ← Volver a mercados
+          </Link>
+
+          <div className="mt-6 flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="space-y-4">
+              <div className="inline-flex items-center rounded-full border border-btc-soft bg-card px-4 py-2 text-xs font-semibold uppercase tracking-[0.28em] text-btc">
+                #{coin.rank ?? "-"} · {coin.symbol}
+              </div>
+              <h1 className="text-4xl font-semibold tracking-tight sm:text-5xl">
+                {coin.name}
+              </h1>
+            </div>
+
+            <div className="space-y-2 lg:text-right">
+              <p className="text-4xl font-semibold">
+                {coin.currentPrice === null
+                  ? "N/D"
+                  : priceFormatter.format(coin.currentPrice)}
+              </p>
+              <p
+                className={`text-sm font-semibold ${changeTone(coin.priceChange24h)}`}
+              >
+                {formatPercent(coin.priceChange24h)} en 24h
+                {lastBtcPrice !== null && coin.symbol !== "BTC"
+                  ? ` · ${lastBtcPrice.toFixed(8)} BTC`
+                  : null}
+              </p>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="mx-auto max-w-7xl space-y-6 px-4 py-12 sm:px-6 lg:px-8">
+        {detailSource === "markets" ? (
+          <p className="rounded-2xl border border-border bg-card px-4 py-3 text-sm text-text-secondary">
+            El detalle completo no respondió: se muestran los datos del listado
+            de mercados y el ATH estimado a partir de su distancia porcentual.
+          </p>
+        ) : null}
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="rounded-2xl border border-border bg-card p-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+              Market Cap
+            </p>
+            <p className="mt-3 text-2xl font-semibold">
+              {formatCurrency(coin.marketCap, true)}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-border bg-card p-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+              Volumen 24h
+            </p>
+            <p className="mt-3 text-2xl font-semibold">
+              {formatCurrency(coin.totalVolume, true)}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-border bg-card p-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+              Rango 24h
+            </p>
+            <p className="mt-3 text-lg font-semibold">
+              {formatCurrency(coin.low24h)} – {formatCurrency(coin.high24h)}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-border bg-card p-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
+              Moneda
+            </p>
+            <p className="mt-3 text-2xl font-semibold">{currency}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+              Supply
+            </p>
+            <dl className="mt-5 grid gap-4 sm:grid-cols-3">
+              <div>
+                <dt className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  Circulante
+                </dt>
+                <dd className="mt-2 text-lg font-semibold">
+                  {formatSupply(coin.circulatingSupply, coin.symbol)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  Total
+                </dt>
+                <dd className="mt-2 text-lg font-semibold">
+                  {formatSupply(coin.totalSupply, coin.symbol)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  Máximo
+                </dt>
+                <dd className="mt-2 text-lg font-semibold">
+                  {coin.maxSupply === null
+                    ? "Sin tope"
+                    : formatSupply(coin.maxSupply, coin.symbol)}
+                </dd>
+              </div>
+            </dl>
+            {issuedShare !== null ? (
+              <div className="mt-5 space-y-2">
+                <div className="h-2 overflow-hidden rounded-full bg-background-secondary">
+                  <div
+                    className="h-full rounded-full bg-btc"
+                    style={{ width: `${Math.min(issuedShare, 100)}%` }}
+                  />
+                </div>
+                <p className="text-sm text-text-secondary">
+                  {issuedShare.toFixed(2)}% del supply máximo ya está en
+                  circulación.
+                </p>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="rounded-3xl border border-border bg-card p-6 shadow-sm">
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+              Máximos y mínimos
+            </p>
+            <dl className="mt-5 grid gap-4 sm:grid-cols-2">
+              <div className="rounded-2xl border border-border bg-background p-4">
+                <dt className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  ATH · {formatDate(coin.athDate)}
+                </dt>
+                <dd className="mt-2 text-lg font-semibold">
+                  {formatCurrency(coin.ath)}
+                </dd>
+                <dd className={`mt-1 text-sm ${changeTone(coin.athChangePercentage)}`}>
+                  {formatPercent(coin.athChangePercentage)} desde el máximo
+                </dd>
+              </div>
+              <div className="rounded-2xl border border-border bg-background p-4">
+                <dt className="text-xs uppercase tracking-[0.2em] text-text-muted">
+                  ATL · {formatDate(coin.atlDate)}
+                </dt>
+                <dd className="mt-2 text-lg font-semibold">
+                  {formatCurrency(coin.atl)}
+                </dd>
+                <dd className={`mt-1 text-sm ${changeTone(coin.atlChangePercentage)}`}>
+                  {formatPercent(coin.atlChangePercentage)} desde el mínimo
+                </dd>
+              </div>
+            </dl>
+          </div>
+        </div>
+
+        {history.length > 0 ? (
+          <CoinHistoryChart
+            id={id}
+            history={history}
+            currency={currency}
+            symbol={coin.symbol}
+          />
+        ) : (
+          <div className="rounded-3xl border border-border bg-card p-6 text-sm text-text-secondary shadow-sm">
+            No hay histórico disponible para {coin.name}
+            {historyError ? `: ${historyError}` : "."}
+          </div>
+        )}
+
+        {historySource ? (
+          <p className="text-xs text-text-muted">
+            Histórico diario según {historySource}; la conversión a BTC usa el
+            cierre diario de Bitcoin.
+          </p>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -1,5 +1,7 @@
 import Link from "next/link";
+import { parseMarketQuery } from "@/lib/market-query";
 import CryptoMarketTable from "./components/CryptoMarketTable";
+import RainbowZoneStatus from "./components/RainbowZoneStatus";
 
 const featureCards = [
   {
@@ -74,7 +76,13 @@ const principles = [
   },
 ] as const;
 
-export default function Home() {
+type HomeProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function Home({ searchParams }: HomeProps) {
+  const marketQuery = parseMarketQuery(await searchParams);
+
   return (
     <main className="min-h-screen bg-background text-foreground">
       <section className="relative overflow-hidden border-b border-border">
@@ -145,15 +153,11 @@ export default function Home() {
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-1">
                 <div className="rounded-2xl border border-border bg-background p-4">
                   <p className="text-xs uppercase tracking-[0.2em] text-text-muted">
-                    Ciclo
-                  </p>
-                  <p className="mt-3 text-lg font-semibold">
-                    Lectura de largo plazo
-                  </p>
-                  <p className="mt-2 text-sm leading-6 text-text-secondary">
-                    Para mirar el mercado con algo de distancia cuando la
-                    volatilidad aprieta.
+                    Ciclo · Zona actual
                   </p>
+                  <div className="mt-3">
+                    <RainbowZoneStatus />
+                  </div>
                 </div>
 
                 <div className="rounded-2xl border border-border bg-background p-4">
@@ -188,7 +192,7 @@ export default function Home() {
       </section>
 
       <section id="mercados" className="mx-auto max-w-7xl px-4 py-14 sm:px-6 lg:px-8 lg:py-16">
-        <CryptoMarketTable />
+        <CryptoMarketTable query={marketQuery} />
       </section>
 
       <section id="graficos" className="mx-auto max-w-7xl px-4 py-14 sm:px-6 lg:px-8 lg:py-20">
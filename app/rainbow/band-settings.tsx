@@ -0,0 +1,345 @@
+"use client";
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  DEFAULT_RAINBOW_PARAMS,
+  MAX_GENESIS_OFFSET_DAYS,
+  MAX_TIGHTENING,
+  MIN_TIGHTENING,
+  parseRainbowParams,
+  toRainbowSearchParams,
+  ZONE_COLORS,
+  ZONE_LABELS,
+  type RainbowModelParams,
+} from "@/lib/rainbow-model";
+import {
+  isSameParams,
+  MAX_PRESET_NAME_LENGTH,
+  parseSavedPresets,
+  RAINBOW_PRESETS,
+  RAINBOW_PRESETS_CHANGE_EVENT,
+  RAINBOW_PRESETS_STORAGE_KEY,
+  writeSavedPresets,
+} from "@/lib/rainbow-presets";
+import { useRainbowParams } from "./use-rainbow-params";
+
+// Espera a que el usuario deje de tipear antes de pedir un nuevo ajuste.
+const URL_UPDATE_DELAY_MS = 400;
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(RAINBOW_PRESETS_CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(RAINBOW_PRESETS_CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+function useSavedPresets() {
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => localStorage.getItem(RAINBOW_PRESETS_STORAGE_KEY),
+    () => null,
+  );
+  return useMemo(() => parseSavedPresets(raw), [raw]);
+}
+
+// Un valor fuera de rango no sobrevive al ida y vuelta por la URL.
+function isValidParams(params: RainbowModelParams) {
+  return isSameParams(
+    parseRainbowParams(toRainbowSearchParams(params)),
+    params,
+  );
+}
+
+function writeUrl(params: RainbowModelParams, presetName: string | null) {
+  const search = toRainbowSearchParams(params);
+  if (presetName) search.set("preset", presetName);
+  const query = search.toString();
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`,
+  );
+}
+
+const inputClassName =
+  "w-full rounded-xl border border-border bg-background px-3 py-2 text-sm";
+
+export default function BandSettings() {
+  const searchParams = useSearchParams();
+  const { params } = useRainbowParams();
+  const savedPresets = useSavedPresets();
+  const [draft, setDraft] = useState(params);
+  const [presetName, setPresetName] = useState<string | null>(
+    () => searchParams.get("preset")?.slice(0, MAX_PRESET_NAME_LENGTH) ?? null,
+  );
+  const [nameInput, setNameInput] = useState(presetName ?? "");
+  const [notice, setNotice] = useState<string | null>(null);
+  const valid = isValidParams(draft);
+
+  useEffect(() => {
+    if (!valid) return;
+    const timeout = window.setTimeout(
+      () => writeUrl(draft, presetName),
+      URL_UPDATE_DELAY_MS,
+    );
+    return () => window.clearTimeout(timeout);
+  }, [draft, presetName, valid]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = window.setTimeout(() => setNotice(null), 2500);
+    return () => window.clearTimeout(timeout);
+  }, [notice]);
+
+  const selectedPreset = [
+    ...RAINBOW_PRESETS.map((preset) => ({ ...preset, key: `builtin:${preset.name}` })),
+    ...savedPresets.map((preset) => ({ ...preset, key: `saved:${preset.name}` })),
+  ].find(
+    (preset) =>
+      isSameParams(preset.params, draft) &&
+      (presetName === null || preset.name === presetName),
+  );
+  const isSavedPreset = selectedPreset?.key.startsWith("saved:") ?? false;
+
+  function updateDraft(changes: Partial<RainbowModelParams>) {
+    setDraft((current) => ({ ...current, ...changes }));
+    setPresetName(null);
+  }
+
+  function updateMultiplier(index: number, value: number) {
+    updateDraft({
+      multipliers: draft.multipliers.map((item, current) =>
+        current === index ? value : item,
+      ),
+    });
+  }
+
+  function applyPreset(key: string) {
+    const [kind, ...rest] = key.split(":");
+    const name = rest.join(":");
+    const preset = (kind === "saved" ? savedPresets : RAINBOW_PRESETS).find(
+      (item) => item.name === name,
+    );
+    if (!preset) return;
+    setDraft(preset.params);
+    setPresetName(preset.name);
+    setNameInput(preset.name);
+  }
+
+  function savePreset() {
+    const name = nameInput.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+    if (!name) {
+      setNotice("Pon un nombre para guardar el preset.");
+      return;
+    }
+    if (RAINBOW_PRESETS.some((preset) => preset.name === name)) {
+      setNotice("Ese nombre ya lo usa un preset incluido.");
+      return;
+    }
+
+    writeSavedPresets([
+      ...savedPresets.filter((preset) => preset.name !== name),
+      { name, params: draft },
+    ]);
+    setPresetName(name);
+    setNotice(`Preset «${name}» guardado en este navegador.`);
+  }
+
+  function deletePreset() {
+    if (!selectedPreset || !isSavedPreset) return;
+    writeSavedPresets(
+      savedPresets.filter((preset) => preset.name !== selectedPreset.name),
+    );
+    setPresetName(null);
+    setNotice(`Preset «${selectedPreset.name}» eliminado.`);
+  }
+
+  async function copyLink() {
+    writeUrl(draft, presetName);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setNotice("Enlace copiado.");
+    } catch {
+      setNotice("No se pudo copiar: copia la URL desde el navegador.");
+    }
+  }
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-border bg-background p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+        <label className="flex-1 space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Preset
+          </span>
+          <select
+            value={selectedPreset?.key ?? ""}
+            onChange={(event) => applyPreset(event.target.value)}
+            className={inputClassName}
+          >
+            <option value="" disabled>
+              {presetName ? `${presetName} (compartido)` : "Personalizado"}
+            </option>
+            <optgroup label="Incluidos">
+              {RAINBOW_PRESETS.map((preset) => (
+                <option key={preset.name} value={`builtin:${preset.name}`}>
+                  {preset.name}
+                </option>
+              ))}
+            </optgroup>
+            {savedPresets.length > 0 ? (
+              <optgroup label="Guardados">
+                {savedPresets.map((preset) => (
+                  <option key={preset.name} value={`saved:${preset.name}`}>
+                    {preset.name}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => applyPreset(`builtin:${RAINBOW_PRESETS[0].name}`)}
+            disabled={isSameParams(draft, DEFAULT_RAINBOW_PARAMS)}
+            className="cursor-pointer rounded-full border border-border px-4 py-2 text-xs font-semibold text-text-secondary transition hover:text-foreground disabled:cursor-default disabled:opacity-50"
+          >
+            Restablecer
+          </button>
+          <button
+            type="button"
+            onClick={copyLink}
+            disabled={!valid}
+            className="cursor-pointer rounded-full bg-btc px-4 py-2 text-xs font-semibold text-black disabled:cursor-default disabled:opacity-50"
+          >
+            Copiar enlace
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-[0.18em] text-text-muted">
+          Multiplicadores sobre el baseline
+        </p>
+        <div className="grid gap-3 sm:grid-cols-3">
+          {draft.multipliers.map((multiplier, index) => (
+            <label key={ZONE_LABELS[index]} className="space-y-1 text-sm">
+              <span className="flex items-center gap-2 text-xs text-text-secondary">
+                <span
+                  aria-hidden
+                  className="inline-block h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: ZONE_COLORS[index] }}
+                />
+                {ZONE_LABELS[index]}
+              </span>
+              <input
+                type="number"
+                min="0.01"
+                step="0.05"
+                value={multiplier}
+                onChange={(event) =>
+                  updateMultiplier(index, Number(event.target.value))
+                }
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Tightening · {draft.tightening.toFixed(2)}
+          </span>
+          <input
+            type="range"
+            min={MIN_TIGHTENING}
+            max={MAX_TIGHTENING}
+            step="0.05"
+            value={draft.tightening}
+            onChange={(event) =>
+              updateDraft({ tightening: Number(event.target.value) })
+            }
+            className="w-full accent-btc"
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Inicio de la regresión
+          </span>
+          <input
+            type="date"
+            value={draft.regressionStart ?? ""}
+            onChange={(event) =>
+              updateDraft({ regressionStart: event.target.value || null })
+            }
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Desplazamiento del génesis (días)
+          </span>
+          <input
+            type="number"
+            step="1"
+            min={-MAX_GENESIS_OFFSET_DAYS}
+            max={MAX_GENESIS_OFFSET_DAYS}
+            value={draft.genesisOffsetDays}
+            onChange={(event) =>
+              updateDraft({ genesisOffsetDays: Number(event.target.value) })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {!valid ? (
+        <p className="text-xs text-red-600 dark:text-red-300">
+          Hay valores fuera de rango: los multiplicadores tienen que ser
+          positivos y crecientes, el tightening entre {MIN_TIGHTENING} y{" "}
+          {MAX_TIGHTENING}, la regresión necesita al menos un año de datos y el
+          génesis se mueve hasta {MAX_GENESIS_OFFSET_DAYS} días. El gráfico
+          mantiene los últimos valores válidos.
+        </p>
+      ) : null}
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <input
+          type="text"
+          value={nameInput}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          placeholder="Nombre del preset"
+          onChange={(event) => setNameInput(event.target.value)}
+          className={`${inputClassName} sm:max-w-xs`}
+        />
+        <button
+          type="button"
+          onClick={savePreset}
+          disabled={!valid}
+          className="cursor-pointer rounded-full border border-btc-soft px-4 py-2 text-xs font-semibold text-btc disabled:cursor-default disabled:opacity-50"
+        >
+          Guardar preset
+        </button>
+        {isSavedPreset ? (
+          <button
+            type="button"
+            onClick={deletePreset}
+            className="cursor-pointer rounded-full border border-border px-4 py-2 text-xs font-semibold text-text-secondary hover:text-foreground"
+          >
+            Eliminar preset
+          </button>
+        ) : null}
+        {notice ? (
+          <span className="text-xs text-text-secondary" role="status">
+            {notice}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import BandSettings from "./band-settings";
+import OhlcChart from "./ohlc-chart";
+import RainbowChart from "./rainbow-chart";
+import { useRainbowParams } from "./use-rainbow-params";
+
+const VIEWS = [
+  { value: "rainbow", label: "Rainbow" },
+  { value: "candles", label: "Velas OHLC" },
+] as const;
+
+type View = (typeof VIEWS)[number]["value"];
+
+export default function RainbowChartViews() {
+  const [view, setView] = useState<View>("rainbow");
+  const { query } = useRainbowParams();
+  // Un enlace con bandas propias abre los ajustes para que se note el cambio.
+  const [showSettings, setShowSettings] = useState(query !== "");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div
+          role="tablist"
+          aria-label="Vista del gráfico"
+          className="inline-flex items-center rounded-full border border-border bg-background p-0.5"
+        >
+          {VIEWS.map((item) => (
+            <button
+              key={item.value}
+              type="button"
+              role="tab"
+              aria-selected={view === item.value}
+              onClick={() => setView(item.value)}
+              className={`cursor-pointer rounded-full px-4 py-1.5 text-xs font-semibold transition ${
+                view === item.value
+                  ? "bg-btc text-black"
+                  : "text-text-secondary hover:text-foreground"
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {view === "rainbow" ? (
+          <button
+            type="button"
+            aria-expanded={showSettings}
+            onClick={() => setShowSettings((current) => !current)}
+            className="cursor-pointer rounded-full border border-border px-4 py-1.5 text-xs font-semibold text-text-secondary transition hover:text-foreground"
+          >
+            {showSettings ? "Ocultar ajustes" : "Ajustar bandas"}
+          </button>
+        ) : null}
+      </div>
+
+      {view === "rainbow" && showSettings ? <BandSettings /> : null}
+      {view === "rainbow" ? <RainbowChart /> : <OhlcChart />}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import ExportMenu from "@/app/components/ExportMenu";
+import { useCurrency } from "@/app/components/useCurrency";
+import { getCurrencyFormatter } from "@/lib/currency";
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  validate,
+  type Infer,
+  type UpstreamErrorBody,
+} from "@/lib/upstream-schema";
+
+const ohlcResponseSchema = object({
+  source: string(),
+  approximate: boolean(),
+  fallbackReason: optional(string()),
+  candles: array(
+    object({
+      timestamp: number(),
+      open: number(),
+      high: number(),
+      low: number(),
+      close: number(),
+      volume: nullable(number()),
+    }),
+    { minLength: 1 },
+  ),
+});
+
+type OhlcResponse = Infer<typeof ohlcResponseSchema>;
+
+const RESOLUTION_OPTIONS = [
+  { value: "1h", label: "1H", limit: 168, caption: "últimos 7 días" },
+  { value: "1d", label: "1D", limit: 180, caption: "últimos 6 meses" },
+  { value: "1w", label: "1W", limit: 156, caption: "últimos 3 años" },
+] as const;
+
+type Resolution = (typeof RESOLUTION_OPTIONS)[number]["value"];
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 420;
+const UP_COLOR = "#10b981";
+const DOWN_COLOR = "#ef4444";
+
+function formatCandleTime(timestamp: number, resolution: Resolution) {
+  const iso = new Date(timestamp * 1000).toISOString();
+  return resolution === "1h"
+    ? `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`
+    : iso.slice(0, 10);
+}
+
+export default function OhlcChart() {
+  const currency = useCurrency();
+  const [resolution, setResolution] = useState<Resolution>("1d");
+  const [data, setData] = useState<OhlcResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const option = RESOLUTION_OPTIONS.find((item) => item.value === resolution)!;
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadCandles() {
+      try {
+        setError(null);
+        const res = await fetch(
+          `/api/ohlc?resolution=${resolution}&limit=${option.limit}&currency=${currency}`,
+        );
+        const json: unknown = await res.json();
+        if (!res.ok) {
+          const body = json as UpstreamErrorBody;
+          throw new Error(body.details ?? body.error ?? `HTTP ${res.status}`);
+        }
+
+        const payload = validate("/api/ohlc", ohlcResponseSchema, json);
+        if (active) {
+          setData(payload);
+          setActiveIndex(null);
+        }
+      } catch (loadError) {
+        if (active) {
+          setData(null);
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "No se pudieron cargar las velas.",
+          );
+        }
+      }
+    }
+
+    loadCandles();
+
+    return () => {
+      active = false;
+    };
+  }, [currency, resolution, option.limit]);
+
+  const priceFormatter = useMemo(
+    () => getCurrencyFormatter(currency, { maximumFractionDigits: 0 }),
+    [currency],
+  );
+  const compactFormatter = useMemo(
+    () =>
+      getCurrencyFormatter(currency, {
+        notation: "compact",
+        maximumFractionDigits: 1,
+      }),
+    [currency],
+  );
+
+  const chart = useMemo(() => {
+    const candles = data?.candles ?? [];
+    if (candles.length === 0) return null;
+
+    const lows = candles.map((candle) => candle.low);
+    const highs = candles.map((candle) => candle.high);
+    const padding = (Math.max(...highs) - Math.min(...lows)) * 0.05 || 1;
+    const min = Math.min(...lows) - padding;
+    const max = Math.max(...highs) + padding;
+    const toY = (value: number) =>
+      CHART_HEIGHT - ((value - min) / (max - min)) * CHART_HEIGHT;
+    const slot = CHART_WIDTH / candles.length;
+    const bodyWidth = Math.max(1, slot * 0.64);
+
+    return {
+      slot,
+      bodyWidth,
+      yTicks: Array.from({ length: 5 }, (_, index) => {
+        const value = max - (index / 4) * (max - min);
+        return { value, y: toY(value) };
+      }),
+      candles: candles.map((candle, index) => ({
+        ...candle,
+        x: index * slot + slot / 2,
+        openY: toY(candle.open),
+        closeY: toY(candle.close),
+        highY: toY(candle.high),
+        lowY: toY(candle.low),
+      })),
+    };
+  }, [data]);
+
+  if (error) {
+    return (
+      <div className="rounded-3xl border border-red-500/20 bg-red-500/10 p-6 text-sm text-red-600 dark:text-red-200">
+        {error}
+      </div>
+    );
+  }
+
+  if (!data || !chart) {
+    return (
+      <div className="p-6 text-sm text-text-secondary">Cargando velas…</div>
+    );
+  }
+
+  const active =
+    chart.candles[activeIndex ?? chart.candles.length - 1] ?? null;
+
+  function updateActiveIndex(clientX: number, bounds: DOMRect) {
+    if (!chart) return;
+    const ratio =
+      bounds.width === 0 ? 0 : (clientX - bounds.left) / bounds.width;
+    const clamped = Math.min(Math.max(ratio, 0), 0.9999);
+    setActiveIndex(Math.floor(clamped * chart.candles.length));
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="text-xs text-text-muted">
+          BTC · {currency} · {option.caption} · {data.source}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div
+            role="group"
+            aria-label="Resolución de las velas"
+            className="inline-flex items-center rounded-full border border-border bg-background p-0.5"
+          >
+            {RESOLUTION_OPTIONS.map((item) => (
+              <button
+                key={item.value}
+                type="button"
+                aria-pressed={resolution === item.value}
+                onClick={() => setResolution(item.value)}
+                className={`cursor-pointer rounded-full px-3 py-1 text-xs font-semibold transition ${
+                  resolution === item.value
+                    ? "bg-btc text-black"
+                    : "text-text-secondary hover:text-foreground"
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <ExportMenu
+            name={`ohlc-${resolution}-${currency.toLowerCase()}`}
+            url={`/api/ohlc?resolution=${resolution}&limit=${option.limit}&currency=${currency}`}
+          />
+        </div>
+      </div>
+
+      {data.approximate ? (
+        <p className="rounded-2xl border border-border bg-background px-4 py-3 text-xs text-text-secondary">
+          Velas aproximadas con los cierres diarios guardados: no reflejan las
+          mechas reales del período.
+          {data.fallbackReason ? ` (${data.fallbackReason})` : null}
+        </p>
+      ) : null}
+
+      {active ? (
+        <dl className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-5">
+          <div>
+            <dt className="text-xs uppercase tracking-[0.18em] text-text-muted">
+              Período
+            </dt>
+            <dd className="mt-1 font-semibold">
+              {formatCandleTime(active.timestamp, resolution)}
+            </dd>
+          </div>
+          {(
+            [
+              ["Apertura", active.open],
+              ["Máximo", active.high],
+              ["Mínimo", active.low],
+              ["Cierre", active.close],
+            ] as const
+          ).map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs uppercase tracking-[0.18em] text-text-muted">
+                {label}
+              </dt>
+              <dd className="mt-1 font-semibold">
+                {priceFormatter.format(value)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+
+      <div className="overflow-x-auto">
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="h-auto w-full min-w-[720px] bg-(--chart-plot-bg)"
+          role="img"
+          aria-label="Gráfico de velas de Bitcoin"
+          onMouseLeave={() => setActiveIndex(null)}
+          onMouseMove={(event) =>
+            updateActiveIndex(
+              event.clientX,
+              event.currentTarget.getBoundingClientRect(),
+            )
+          }
+          onTouchMove={(event) =>
+            updateActiveIndex(
+              event.touches[0].clientX,
+              event.currentTarget.getBoundingClientRect(),
+            )
+          }
+        >
+          {chart.yTicks.map((tick) => (
+            <g key={tick.y}>
+              <line
+                x1="0"
+                x2={CHART_WIDTH}
+                y1={tick.y}
+                y2={tick.y}
+                stroke="var(--border-color)"
+                strokeDasharray="4 8"
+              />
+              <text
+                x="12"
+                y={Math.max(16, tick.y - 8)}
+                fill="var(--text-secondary)"
+                fontSize="12"
+              >
+                {compactFormatter.format(tick.value)}
+              </text>
+            </g>
+          ))}
+
+          {chart.candles.map((candle, index) => {
+            const color = candle.close >= candle.open ? UP_COLOR : DOWN_COLOR;
+            const bodyTop = Math.min(candle.openY, candle.closeY);
+            const bodyHeight = Math.max(
+              1,
+              Math.abs(candle.closeY - candle.openY),
+            );
+
+            return (
+              <g
+                key={candle.timestamp}
+                opacity={
+                  activeIndex === null || activeIndex === index ? 1 : 0.55
+                }
+              >
+                <line
+                  x1={candle.x}
+                  x2={candle.x}
+                  y1={candle.highY}
+                  y2={candle.lowY}
+                  stroke={color}
+                  strokeWidth="1"
+                />
+                <rect
+                  x={candle.x - chart.bodyWidth / 2}
+                  y={bodyTop}
+                  width={chart.bodyWidth}
+                  height={bodyHeight}
+                  fill={color}
+                />
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import Link from "next/link";
-import RainbowChart from "./rainbow-chart";
+import { Suspense } from "react";
+import RainbowChartViews from "./chart-views";
+import ProjectionPanel from "./projection-panel";
 
 const summaryCards = [
   {
@@ -40,6 +42,10 @@ const sideNotes = [
   "El mejor uso del gráfico aparece cuando evitás reaccionar al corto plazo.",
 ] as const;
 
+const chartFallback = (
+  <div className="p-6 text-sm text-text-secondary">Cargando datos…</div>
+);
+
 export const metadata = {
   title: "Bitcoin Rainbow Chart",
   description: "Visualizacion del Bitcoin Chart (Informativo)",
@@ -155,7 +161,31 @@ export default function RainbowPage() {
         </div>
 
         <div className="rounded-3xl border border-border bg-card p-4 shadow-sm sm:p-5">
-          <RainbowChart />
+          {/* Los parámetros de las bandas se leen de la URL del lado del cliente */}
+          <Suspense fallback={chartFallback}>
+            <RainbowChartViews />
+          </Suspense>
+        </div>
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-[0.8fr_1.2fr]">
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+              Proyección
+            </p>
+            <h2 className="text-3xl font-semibold tracking-tight">
+              ¿Qué precio haría falta para llegar a cada zona?
+            </h2>
+            <p className="text-sm leading-6 text-text-secondary">
+              Elige una fecha y una zona: las bandas se proyectan con la misma
+              regresión que dibuja el gráfico, así ves cuánto tendría que
+              moverse BTC para ubicarse ahí.
+            </p>
+          </div>
+          <div className="rounded-3xl border border-border bg-card p-4 shadow-sm sm:p-5">
+            <Suspense fallback={chartFallback}>
+              <ProjectionPanel />
+            </Suspense>
+          </div>
         </div>
       </section>
 
@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import ExportMenu from "@/app/components/ExportMenu";
+import { useCurrency } from "@/app/components/useCurrency";
+import { getCurrencyFormatter } from "@/lib/currency";
+import { changeTone, formatPercent } from "@/lib/market-format";
+import { ZONE_COLORS, ZONE_LABELS } from "@/lib/rainbow-model";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  validate,
+  type Infer,
+  type UpstreamErrorBody,
+} from "@/lib/upstream-schema";
+import { useRainbowParams } from "./use-rainbow-params";
+
+const forecastResponseSchema = object({
+  lastPrice: object({ date: string(), price: number() }),
+  projection: array(
+    object({
+      date: string(),
+      baseline: number(),
+      boundaries: array(number(), { minLength: ZONE_LABELS.length + 1 }),
+    }),
+    { minLength: 1 },
+  ),
+  target: nullable(
+    object({
+      zone: number(),
+      label: string(),
+      date: string(),
+      price: nullable(number()),
+      upperPrice: nullable(number()),
+      changePercent: nullable(number()),
+    }),
+  ),
+});
+
+type ForecastResponse = Infer<typeof forecastResponseSchema>;
+
+// Baseline del modelo (multiplicador 1.0).
+const DEFAULT_ZONE = 3;
+
+function defaultTargetDate() {
+  return `${new Date().getUTCFullYear() + 1}-12-31`;
+}
+
+// Los extremos abiertos (zona 0 sin piso, última sin techo) cambian la frase.
+function describeTargetRange(
+  target: NonNullable<ForecastResponse["target"]>,
+  formatter: Intl.NumberFormat,
+) {
+  if (target.price === null && target.upperPrice !== null) {
+    return `por debajo de ${formatter.format(target.upperPrice)}`;
+  }
+  if (target.price !== null && target.upperPrice === null) {
+    return `por encima de ${formatter.format(target.price)}`;
+  }
+  return `entre ${formatter.format(target.price ?? 0)} y ${formatter.format(target.upperPrice ?? 0)}`;
+}
+
+export default function ProjectionPanel() {
+  const currency = useCurrency();
+  const { query } = useRainbowParams();
+  const [date, setDate] = useState(defaultTargetDate);
+  const [zone, setZone] = useState(DEFAULT_ZONE);
+  const [data, setData] = useState<ForecastResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!date) return;
+    let active = true;
+
+    async function loadForecast() {
+      try {
+        setError(null);
+        // Los parámetros de las bandas viajan junto a la consulta del objetivo.
+        const params = new URLSearchParams(query);
+        params.set("from", date);
+        params.set("to", date);
+        params.set("date", date);
+        params.set("zone", String(zone));
+        params.set("currency", currency);
+        const res = await fetch(`/api/rainbow/forecast?${params}`);
+        const json: unknown = await res.json();
+        if (!res.ok) {
+          const body = json as UpstreamErrorBody;
+          throw new Error(body.details ?? body.error ?? `HTTP ${res.status}`);
+        }
+
+        const payload = validate(
+          "/api/rainbow/forecast",
+          forecastResponseSchema,
+          json,
+        );
+        if (active) setData(payload);
+      } catch (loadError) {
+        if (active) {
+          setData(null);
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "No se pudo calcular la proyección.",
+          );
+        }
+      }
+    }
+
+    loadForecast();
+
+    return () => {
+      active = false;
+    };
+  }, [currency, date, zone, query]);
+
+  const priceFormatter = useMemo(
+    () => getCurrencyFormatter(currency, { maximumFractionDigits: 0 }),
+    [currency],
+  );
+
+  const row = data?.projection[0] ?? null;
+  const target = data?.target ?? null;
+
+  // Exporta la proyección diaria desde el último cierre hasta la fecha objetivo.
+  const exportParams = new URLSearchParams(query);
+  exportParams.set("to", date);
+  exportParams.set("currency", currency);
+
+  return (
+    <div className="space-y-5">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Fecha objetivo
+          </span>
+          <input
+            type="date"
+            value={date}
+            onChange={(event) => setDate(event.target.value)}
+            className="w-full rounded-xl border border-border bg-background px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-xs uppercase tracking-[0.18em] text-text-muted">
+            Zona
+          </span>
+          <select
+            value={zone}
+            onChange={(event) => setZone(Number(event.target.value))}
+            className="w-full rounded-xl border border-border bg-background px-3 py-2 text-sm"
+          >
+            {ZONE_LABELS.map((label, index) => (
+              <option key={label} value={index}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-600 dark:text-red-200">
+          {error}
+        </div>
+      ) : !data || !row ? (
+        <div className="text-sm text-text-secondary">Calculando proyección…</div>
+      ) : (
+        <>
+          {target ? (
+            <div className="rounded-2xl border border-border bg-background p-4">
+              <p className="text-xs uppercase tracking-[0.18em] text-text-muted">
+                Precio necesario
+              </p>
+              <p className="mt-2 text-2xl font-semibold">
+                {target.price === null && target.upperPrice !== null
+                  ? `< ${priceFormatter.format(target.upperPrice)}`
+                  : priceFormatter.format(target.price ?? 0)}
+              </p>
+              <p className="mt-2 text-sm leading-6 text-text-secondary">
+                Para estar en «{target.label}» el {target.date}, BTC tiene que
+                cotizar {describeTargetRange(target, priceFormatter)}.{" "}
+                <span className={changeTone(target.changePercent)}>
+                  {formatPercent(target.changePercent)}
+                </span>{" "}
+                frente al último cierre ({priceFormatter.format(data.lastPrice.price)}{" "}
+                al {data.lastPrice.date}).
+              </p>
+            </div>
+          ) : null}
+
+          <div className="flex justify-end">
+            <ExportMenu
+              name={`rainbow-forecast-${currency.toLowerCase()}`}
+              url={`/api/rainbow/forecast?${exportParams}`}
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-[0.18em] text-text-muted">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Zona</th>
+                  <th className="py-2 pr-4 text-right font-medium">Desde</th>
+                  <th className="py-2 text-right font-medium">Hasta</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ZONE_LABELS.map((label, index) => ({ label, index }))
+                  .reverse()
+                  .map(({ label, index }) => (
+                    <tr
+                      key={label}
+                      className={`border-t border-border ${
+                        index === zone ? "font-semibold" : ""
+                      }`}
+                    >
+                      <td className="py-2 pr-4">
+                        <span
+                          aria-hidden
+                          className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: ZONE_COLORS[index] }}
+                        />
+                        {label}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {priceFormatter.format(row.boundaries[index])}
+                      </td>
+                      <td className="py-2 text-right">
+                        {priceFormatter.format(row.boundaries[index + 1])}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-text-muted">
+            Bandas proyectadas para el {row.date} extendiendo la regresión
+            histórica. Es una extrapolación del modelo, no una predicción.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
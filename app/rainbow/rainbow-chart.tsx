@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState, type CSSProperties } from "react";
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import {
   ResponsiveContainer,
   AreaChart,
@@ -13,12 +13,49 @@ import {
   ReferenceLine,
 } from "recharts";
 import { scaleSymlog } from "d3-scale";
-
-type ApiResponse = {
-  data?: unknown;
-};
-
-type UnknownRecord = Record<string, unknown>;
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  validate,
+  type UpstreamErrorBody,
+} from "@/lib/upstream-schema";
+import { BAND_MULTIPLIERS, ZONE_COLORS, ZONE_LABELS } from "@/lib/rainbow-model";
+import { getCurrencyFormatter } from "@/lib/currency";
+import ChartImageExport from "@/app/components/ChartImageExport";
+import { useEmbed } from "@/app/components/EmbedProvider";
+import ExportMenu from "@/app/components/ExportMenu";
+import { useCurrency } from "@/app/components/useCurrency";
+import { getPresetWindow, RANGE_PRESETS } from "@/lib/chart-window";
+import { useRainbowParams } from "./use-rainbow-params";
+
+const zoneBoundariesSchema = array(number(), {
+  minLength: BAND_MULTIPLIERS.length + 1,
+});
+
+const rainbowModelResponseSchema = object({
+  boundaries: array(
+    object({
+      date: string(),
+      price: nullable(number()),
+      baseline: number(),
+      boundaries: zoneBoundariesSchema,
+    }),
+    { minLength: 1 },
+  ),
+});
+
+const rainbowForecastResponseSchema = object({
+  projection: array(
+    object({
+      date: string(),
+      baseline: number(),
+      boundaries: zoneBoundariesSchema,
+    }),
+  ),
+});
 
 type Point = {
   ts: number;
@@ -33,10 +70,6 @@ function toDateLabel(ts: number) {
   return new Date(ms).toISOString().slice(0, 10);
 }
 
-function toMs(ts: number) {
-  return ts < 10_000_000_000 ? ts * 1000 : ts;
-}
-
 function dateStrToUtcMs(date: string) {
   const [y, m, d] = date.split("-").map(Number);
   if (!Number.isFinite(y) || !Number.isFinite(m) || !Number.isFinite(d)) {
@@ -45,50 +78,12 @@ function dateStrToUtcMs(date: string) {
   return Date.UTC(y, m - 1, d);
 }
 
-function isRecord(v: unknown): v is UnknownRecord {
-  return typeof v === "object" && v !== null;
-}
-
 function getMessage(e: unknown): string {
   return e instanceof Error ? e.message : "Error";
 }
 
-// 9 zonas (multiplicadores sobre baseline)
-const BAND_MULTIPLIERS = [
-  0.25, 0.4, 0.65, 1.0, 1.6, 2.6, 4.2, 6.8, 11.0,
-] as const;
-const BAND_TIGHTENING = 0.80;
-
-// colores temporales (después los reemplazamos por metadata.zoneColors del API)
-const FALLBACK_ZONE_COLORS = [
-  "#0044FF",
-  "#0088FF",
-  "#00FFFF",
-  "#88FF00",
-  "#FFFF00",
-  "#FFCC00",
-  "#FF8800",
-  "#FF4400",
-  "#FF0000",
-] as const;
-
-const BAND_LABELS: string[] = [
-  "Bitcoin está muerto",
-  "Zona de venta masiva",
-  "Compra!",
-  "Buena zona de acumulación",
-  "Todavia está en descuento",
-  "HODL!",
-  "Empieza la burbuja?",
-  "Toma de ganancias",
-  "Burbuja 100% VENDE!",
-];
-
-// epsilon para log (nunca 0)
-const EPS = 1e-9;
-const DAY_MS = 1000 * 60 * 60 * 24;
-const BITCOIN_GENESIS_MS = Date.UTC(2009, 0, 3);
 const CHART_START_MS = Date.UTC(2012, 0, 1);
+const CHART_END_DATE = "2028-01-01";
 const CHART_END_MS = Date.UTC(2028, 0, 1);
 const HALVING_DATES = [
   "2012-11-28",
@@ -109,75 +104,59 @@ export default function RainbowChart() {
   const [rows, setRows] = useState<Point[]>([]);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
+  const currency = useCurrency();
+  const { query } = useRainbowParams();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const embed = useEmbed();
+  const range = embed?.range ?? "all";
+  const rangeLabel = RANGE_PRESETS.find(({ id }) => id === range)?.label;
 
   useEffect(() => {
+    let active = true;
+
     const run = async () => {
       try {
         setLoading(true);
         setErr(null);
 
-        const res = await fetch(
-          "/api/rainbow?interval=daily&timespan=all&limit=2000",
-        );
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-        const json: ApiResponse = await res.json();
-        const payload: unknown = json.data ?? json;
-
-        if (!isRecord(payload)) {
-          throw new Error("Formato inesperado: payload no es objeto");
-        }
-
-        const seriesObj: UnknownRecord = payload;
-
-        // 1) Precio real
-        const priceArr = seriesObj["price"];
-        if (!Array.isArray(priceArr)) {
-          throw new Error("No se encontró data.price como array");
-        }
-
-        const points: { tsMs: number; price: number }[] = [];
-        for (const item of priceArr) {
-          if (!isRecord(item)) continue;
-          const ts = item["timestamp"];
-          const val = item["price"];
-          if (typeof ts !== "number") continue;
-          if (typeof val !== "number") continue;
-          if (val <= 0) continue;
-          points.push({ tsMs: toMs(ts), price: val });
-        }
-        points.sort((a, b) => a.tsMs - b.tsMs);
-
-        const firstTs = points[0]?.tsMs;
-        if (!firstTs) throw new Error("No hay datos de precio");
-
-        // 2) Baseline tipo potencia (regresión ln(price) vs ln(days + 1))
-        // Esto genera bandas curvas en eje Y logarítmico.
-        const xs: number[] = [];
-        const ys: number[] = [];
-
-        for (const p of points) {
-          const days = Math.max(0, (p.tsMs - BITCOIN_GENESIS_MS) / DAY_MS);
-          xs.push(Math.log(days + 1));
-          ys.push(Math.log(p.price));
-        }
-
-        const n = xs.length;
-        const sumX = xs.reduce((acc, v) => acc + v, 0);
-        const sumY = ys.reduce((acc, v) => acc + v, 0);
-        const sumXX = xs.reduce((acc, v) => acc + v * v, 0);
-        const sumXY = xs.reduce((acc, v, i) => acc + v * ys[i], 0);
-
-        const denom = n * sumXX - sumX * sumX;
-        const b = denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom;
-        const a = n === 0 ? 0 : (sumY - b * sumX) / n;
+        const fetchJson = async (url: string) => {
+          const res = await fetch(url);
+          const json: unknown = await res.json();
+          if (!res.ok) {
+            const body = json as UpstreamErrorBody;
+            throw new Error(body.details ?? body.error ?? `HTTP ${res.status}`);
+          }
+          return json;
+        };
 
-        // 3) Rows: price + baseline + zonas y bandas [lower, upper]
-        const buildRow = (tsMs: number, price?: number): Point => {
-          const days = Math.max(0, (tsMs - BITCOIN_GENESIS_MS) / DAY_MS);
-          const x = Math.log(days + 1);
-          const baseline = Math.exp(a + b * x);
+        // El ajuste, los límites históricos y la proyección vienen del servidor
+        const paramsQuery = query ? `&${query}` : "";
+        const [modelJson, forecastJson] = await Promise.all([
+          fetchJson(
+            `/api/rainbow/model?limit=2000&currency=${currency}${paramsQuery}`,
+          ),
+          fetchJson(
+            `/api/rainbow/forecast?to=${CHART_END_DATE}&currency=${currency}${paramsQuery}`,
+          ),
+        ]);
+        const { boundaries } = validate(
+          "/api/rainbow/model",
+          rainbowModelResponseSchema,
+          modelJson,
+        );
+        const { projection } = validate(
+          "/api/rainbow/forecast",
+          rainbowForecastResponseSchema,
+          forecastJson,
+        );
 
+        // Rows: price + baseline + zonas y bandas [lower, upper]
+        const buildRow = (
+          tsMs: number,
+          baseline: number,
+          zones: number[],
+          price?: number,
+        ): Point => {
           const row: Point = {
             ts: tsMs,
             date: toDateLabel(tsMs),
@@ -185,53 +164,60 @@ export default function RainbowChart() {
             baseline,
           };
 
-          // Zonas absolutas (límites)
-          BAND_MULTIPLIERS.forEach((m, i) => {
-            const tightenedMultiplier = Math.exp(Math.log(m) * BAND_TIGHTENING);
-            row[`zone_${i}`] = Math.max(EPS, baseline * tightenedMultiplier);
-          });
-
-          // Bandas por rango entre límites consecutivos: [zone_i, zone_{i+1}]
-          for (let i = 0; i < BAND_MULTIPLIERS.length - 1; i += 1) {
-            const lower = Number(row[`zone_${i}`] ?? EPS);
-            const upper = Number(row[`zone_${i + 1}`] ?? EPS);
-            row[`band_${i}`] = [Math.max(EPS, lower), Math.max(EPS, upper)];
-          }
-          // Banda superior final para no dejar hueco arriba
-          {
-            const i = BAND_MULTIPLIERS.length - 1;
-            const lower = Number(row[`zone_${i}`] ?? EPS);
-            const upper = Math.max(EPS, lower * 1.35);
-            row[`band_${i}`] = [Math.max(EPS, lower), upper];
+          // Límites absolutos y bandas entre límites consecutivos
+          for (let i = 0; i < BAND_MULTIPLIERS.length; i += 1) {
+            row[`zone_${i}`] = zones[i];
+            row[`band_${i}`] = [zones[i], zones[i + 1]];
           }
 
           return row;
         };
 
-        const merged: Point[] = points.map((p) => buildRow(p.tsMs, p.price));
+        const merged: Point[] = boundaries.map((item) =>
+          buildRow(
+            dateStrToUtcMs(item.date),
+            item.baseline,
+            item.boundaries,
+            item.price ?? undefined,
+          ),
+        );
 
-        // Extiende el eje X hasta 2028-01-01 aunque no haya precio real.
-        const lastTsMs = points[points.length - 1]?.tsMs ?? firstTs;
-        if (lastTsMs < CHART_END_MS) {
-          let ts = lastTsMs + DAY_MS;
-          while (ts <= CHART_END_MS) {
-            merged.push(buildRow(ts));
-            ts += DAY_MS;
-          }
+        // Extiende el eje X hasta 2028-01-01 con las bandas proyectadas.
+        const lastTsMs = merged[merged.length - 1].ts;
+        for (const item of projection) {
+          const ts = dateStrToUtcMs(item.date);
+          if (ts > lastTsMs) merged.push(buildRow(ts, item.baseline, item.boundaries));
         }
 
-        setRows(merged);
+        if (active) setRows(merged);
       } catch (e: unknown) {
-        setErr(getMessage(e));
+        if (active) setErr(getMessage(e));
       } finally {
-        setLoading(false);
+        if (active) setLoading(false);
       }
     };
 
     run();
-  }, []);
 
-  const allRows = useMemo(() => rows.filter((row) => row.ts >= CHART_START_MS), [rows]);
+    return () => {
+      active = false;
+    };
+  }, [currency, query]);
+
+  const allRows = useMemo(() => {
+    const chartRows = rows.filter((row) => row.ts >= CHART_START_MS);
+    const pricedRows = chartRows.filter((row) => row.price !== undefined);
+    if (range === "all" || pricedRows.length === 0) return chartRows;
+
+    // El preset se calcula sobre los cierres reales; a la derecha queda un
+    // cuarto de ese rango de bandas proyectadas.
+    const visible = getPresetWindow(range, {
+      start: pricedRows[0].ts,
+      end: pricedRows[pricedRows.length - 1].ts,
+    });
+    const end = visible.end + (visible.end - visible.start) / 4;
+    return chartRows.filter((row) => row.ts >= visible.start && row.ts <= end);
+  }, [rows, range]);
   const hasData = allRows.length > 0;
 
   const bandKeys = useMemo(
@@ -267,6 +253,35 @@ export default function RainbowChart() {
   }, [allRows]);
 
   const hasPrice = Boolean(allRows[0]?.price);
+  const imageMeta = useMemo(() => {
+    const lastPriceRow = allRows.findLast((row) => row.price !== undefined);
+    const firstYear = allRows[0] ? new Date(allRows[0].ts).getUTCFullYear() : null;
+    const lastYear = allRows.at(-1)
+      ? new Date(allRows[allRows.length - 1].ts).getUTCFullYear()
+      : null;
+
+    return {
+      title: "Bitcoin Rainbow Chart",
+      subtitle: [
+        firstYear !== null ? `${firstYear} – ${lastYear}` : null,
+        currency,
+        "Escala logarítmica",
+        query ? "Bandas personalizadas" : null,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      legend: [
+        ...ZONE_LABELS.map((label, index) => ({
+          label,
+          color: ZONE_COLORS[index % ZONE_COLORS.length],
+        })),
+        ...(hasPrice ? [{ label: "Precio", color: "var(--price-line-color)" }] : []),
+      ],
+      dataDate: lastPriceRow
+        ? new Date(lastPriceRow.ts).toISOString().slice(0, 10)
+        : null,
+    };
+  }, [allRows, currency, query, hasPrice]);
   // c=1 aproxima mejor distancias por década sin perder el 0 visible.
   const yScale = useMemo(() => scaleSymlog().constant(1), []);
   const yTicks = useMemo(() => {
@@ -307,22 +322,22 @@ export default function RainbowChart() {
     }
     return ticks;
   }, [allRows]);
+  const locale = embed?.locale;
+  const usdFormatter = useMemo(
+    () => getCurrencyFormatter(currency, { maximumFractionDigits: 2 }, locale),
+    [currency, locale],
+  );
+  const tickFormatter = useMemo(
+    () => getCurrencyFormatter(currency, { maximumFractionDigits: 0 }, locale),
+    [currency, locale],
+  );
   const yTickFormatter = (v: number) => {
-    if (v === 0) return "$0";
+    if (v === 0) return tickFormatter.format(0);
     const exp = Math.log10(v);
     const isMajor = Math.abs(exp - Math.round(exp)) < 1e-10 && v >= 10;
     if (!isMajor) return "";
-    return `$${Intl.NumberFormat("en-US").format(v)}`;
+    return tickFormatter.format(v);
   };
-  const usdFormatter = useMemo(
-    () =>
-      new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-        maximumFractionDigits: 2,
-      }),
-    [],
-  );
   const renderLegend = ({
     payload,
   }: {
@@ -374,7 +389,8 @@ export default function RainbowChart() {
     );
   };
 
-  if (loading) {
+  // Al cambiar parámetros se mantiene el gráfico previo hasta tener el nuevo.
+  if (loading && rows.length === 0) {
     return <div className="p-6 text-sm text-neutral-600">Cargando datos…</div>;
   }
 
@@ -384,7 +400,7 @@ export default function RainbowChart() {
         <p className="text-sm text-red-600">Error: {err}</p>
         <p className="text-xs text-neutral-600">
           Probá abrir{" "}
-          <code className="rounded bg-neutral-100 px-1">/api/rainbow</code> y
+          <code className="rounded bg-neutral-100 px-1">/api/rainbow/model</code> y
           revisá si devuelve JSON.
         </p>
       </div>
@@ -400,11 +416,36 @@ export default function RainbowChart() {
   }
 
   return (
-    <div className="space-y-3">
-      <div className="text-xs text-neutral-500">Rango: ALL</div>
+    <div className={embed ? "flex h-full flex-col gap-3" : "space-y-3"}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-neutral-500">
+          Rango: {embed ? rangeLabel : "ALL"} · {currency}
+        </div>
+        {embed ? null : (
+          // limit=0: la exportación lleva todos los días, no la serie reducida del gráfico
+          <div className="flex flex-wrap items-center gap-2">
+            <ChartImageExport
+              name={`rainbow-${currency.toLowerCase()}`}
+              getSvg={() =>
+                chartRef.current?.querySelector<SVGSVGElement>(
+                  "svg.recharts-surface",
+                ) ?? null
+              }
+              meta={imageMeta}
+            />
+            <ExportMenu
+              name={`rainbow-${currency.toLowerCase()}`}
+              url={`/api/rainbow/model?limit=0&currency=${currency}${query ? `&${query}` : ""}`}
+            />
+          </div>
+        )}
+      </div>
 
       {/* Chart (Paso 5.3: zonas entre líneas + price) */}
-      <div className="h-160 w-full bg-(--chart-plot-bg)">
+      <div
+        ref={chartRef}
+        className={`w-full bg-(--chart-plot-bg) ${embed ? "min-h-0 flex-1" : "h-160"}`}
+      >
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart
             data={allRows}
@@ -426,7 +467,7 @@ export default function RainbowChart() {
               tick={{ fontSize: 12, fill: "var(--chart-axis-text)" }}
               axisLine={{ stroke: "var(--chart-axis-line)" }}
               tickLine={{ stroke: "var(--chart-axis-line)" }}
-              width={86}
+              width={currency === "ARS" ? 128 : 86}
               scale={yScale}
               domain={[0, "dataMax"]}
               ticks={yTicks}
@@ -515,9 +556,9 @@ export default function RainbowChart() {
                 key={k}
                 type="monotone"
                 dataKey={k}
-                name={BAND_LABELS[idx] ?? k}
-                stroke={FALLBACK_ZONE_COLORS[idx % FALLBACK_ZONE_COLORS.length]}
-                fill={FALLBACK_ZONE_COLORS[idx % FALLBACK_ZONE_COLORS.length]}
+                name={ZONE_LABELS[idx] ?? k}
+                stroke={ZONE_COLORS[idx % ZONE_COLORS.length]}
+                fill={ZONE_COLORS[idx % ZONE_COLORS.length]}
                 fillOpacity={0.35}
                 strokeWidth={0.6}
                 dot={false}
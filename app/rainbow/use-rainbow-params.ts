@@ -0,0 +1,27 @@
+"use client";
+
+import { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  parseRainbowParams,
+  toRainbowSearchParams,
+  type RainbowModelParams,
+} from "@/lib/rainbow-model";
+
+// La URL es la fuente de verdad de los parámetros: así un enlace compartido
+// reproduce las mismas bandas.
+export function useRainbowParams(): {
+  params: RainbowModelParams;
+  query: string;
+} {
+  const searchParams = useSearchParams();
+  const query = toRainbowSearchParams(parseRainbowParams(searchParams)).toString();
+
+  return useMemo(
+    () => ({
+      params: parseRainbowParams(new URLSearchParams(query)),
+      query,
+    }),
+    [query],
+  );
+}
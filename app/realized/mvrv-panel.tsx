@@ -0,0 +1,371 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  DEFAULT_MVRV_THRESHOLDS,
+  MVRV_METRIC_LABELS,
+  parseMvrvThreshold,
+  type MvrvMetric,
+  type MvrvPoint,
+} from "@/lib/realized-metrics";
+import type { TimeScale } from "./time-scale";
+
+type MvrvPanelPoint = MvrvPoint & { date: string };
+
+type MvrvPanelProps = {
+  points: MvrvPanelPoint[];
+  // Misma escala que el gráfico principal, para que los dos queden alineados.
+  scale: TimeScale;
+  activeIndex: number | null;
+  onActiveIndexChange: (index: number) => void;
+  onLeave: () => void;
+};
+
+type ThresholdDraft = { top: string; bottom: string };
+
+const WIDTH = 960;
+const HEIGHT = 180;
+const METRICS: MvrvMetric[] = ["mvrv", "mvrvZScore"];
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+});
+
+function toDraft(metric: MvrvMetric): ThresholdDraft {
+  const { top, bottom } = DEFAULT_MVRV_THRESHOLDS[metric];
+  return { top: String(top), bottom: String(bottom) };
+}
+
+function describeValue(value: number, top: number, bottom: number) {
+  if (value >= top) {
+    return {
+      label: "Sobre el techo histórico",
+      className: "text-red-600 dark:text-red-300",
+    };
+  }
+  if (value <= bottom) {
+    return {
+      label: "Bajo el piso histórico",
+      className: "text-emerald-600 dark:text-emerald-300",
+    };
+  }
+  return { label: "Entre umbrales", className: "text-text-secondary" };
+}
+
+const inputClassName =
+  "w-24 rounded-xl border border-border bg-background px-3 py-1.5 text-sm";
+
+export function MvrvPanel({
+  points,
+  scale,
+  activeIndex,
+  onActiveIndexChange,
+  onLeave,
+}: MvrvPanelProps) {
+  const [metric, setMetric] = useState<MvrvMetric>("mvrv");
+  const [drafts, setDrafts] = useState<Record<MvrvMetric, ThresholdDraft>>(
+    () => ({ mvrv: toDraft("mvrv"), mvrvZScore: toDraft("mvrvZScore") }),
+  );
+
+  const draft = drafts[metric];
+  const top = parseMvrvThreshold(draft.top);
+  const bottom = parseMvrvThreshold(draft.bottom);
+  const validThresholds = top !== null && bottom !== null && top > bottom;
+  // Con umbrales inválidos se siguen mostrando los defaults.
+  const thresholds = validThresholds
+    ? { top, bottom }
+    : DEFAULT_MVRV_THRESHOLDS[metric];
+
+  const chart = useMemo(() => {
+    const values = points.map((point) => point[metric]);
+    const defined = values.filter((value): value is number => value !== null);
+    if (defined.length === 0) return null;
+
+    // El rango siempre incluye los umbrales para que las bandas se vean.
+    const min = Math.min(...defined, thresholds.bottom);
+    const max = Math.max(...defined, thresholds.top);
+    const padding = (max - min) * 0.05 || 1;
+    const domainMin = min - padding;
+    const domainMax = max + padding;
+    const toY = (value: number) =>
+      HEIGHT - ((value - domainMin) / (domainMax - domainMin)) * HEIGHT;
+    const toX = (index: number) => (scale.xs[index] / scale.width) * WIDTH;
+
+    let path = "";
+    let drawing = false;
+    values.forEach((value, index) => {
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      path += `${drawing ? "L" : "M"} ${toX(index).toFixed(2)} ${toY(value).toFixed(2)} `;
+      drawing = true;
+    });
+
+    return {
+      path: path.trim(),
+      topY: toY(thresholds.top),
+      bottomY: toY(thresholds.bottom),
+      toX,
+      toY,
+    };
+  }, [points, scale, metric, thresholds.top, thresholds.bottom]);
+
+  const latest = points[points.length - 1];
+  const activePoint =
+    activeIndex !== null ? (points[activeIndex] ?? latest) : latest;
+  const activeValue = activePoint?.[metric] ?? null;
+  const reading =
+    activeValue === null
+      ? null
+      : describeValue(activeValue, thresholds.top, thresholds.bottom);
+  const isDefault =
+    draft.top === toDraft(metric).top && draft.bottom === toDraft(metric).bottom;
+
+  function updateDraft(changes: Partial<ThresholdDraft>) {
+    setDrafts((current) => ({
+      ...current,
+      [metric]: { ...current[metric], ...changes },
+    }));
+  }
+
+  function updateActiveIndex(clientX: number, bounds: DOMRect) {
+    const ratio = bounds.width === 0 ? 0 : (clientX - bounds.left) / bounds.width;
+    onActiveIndexChange(
+      scale.nearestIndex(Math.min(Math.max(ratio, 0), 1) * scale.width),
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-[28px] border border-border bg-card shadow-sm">
+      <div className="flex flex-col gap-4 border-b border-border p-6 lg:flex-row lg:items-end lg:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
+            Valuación on-chain
+          </p>
+          <h2 className="mt-3 text-2xl font-semibold">
+            {MVRV_METRIC_LABELS[metric]}
+          </h2>
+          <p className="mt-2 max-w-2xl text-sm text-text-secondary">
+            {metric === "mvrv"
+              ? "Precio BTC dividido el precio realizado: cuánto vale el mercado contra lo que pagaron las monedas en su último movimiento."
+              : "Distancia entre precio y precio realizado medida en desvíos estándar del precio hasta cada fecha."}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="inline-flex rounded-full border border-border bg-background p-1">
+            {METRICS.map((item) => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setMetric(item)}
+                aria-pressed={metric === item}
+                className={`cursor-pointer rounded-full px-3 py-1.5 text-xs font-semibold transition ${
+                  metric === item
+                    ? "bg-btc text-black"
+                    : "text-text-secondary hover:text-foreground"
+                }`}
+              >
+                {MVRV_METRIC_LABELS[item]}
+              </button>
+            ))}
+          </div>
+          <label className="space-y-1 text-sm">
+            <span className="block text-xs uppercase tracking-[0.18em] text-text-muted">
+              Techo
+            </span>
+            <input
+              type="number"
+              step="0.1"
+              value={draft.top}
+              onChange={(event) => updateDraft({ top: event.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="block text-xs uppercase tracking-[0.18em] text-text-muted">
+              Piso
+            </span>
+            <input
+              type="number"
+              step="0.1"
+              value={draft.bottom}
+              onChange={(event) => updateDraft({ bottom: event.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => updateDraft(toDraft(metric))}
+            disabled={isDefault}
+            className="cursor-pointer rounded-full border border-border px-4 py-2 text-xs font-semibold text-text-secondary transition hover:text-foreground disabled:cursor-default disabled:opacity-50"
+          >
+            Restablecer
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4 p-4 md:p-6">
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-sm">
+          {activePoint ? (
+            <span className="text-text-secondary">
+              {dateFormatter.format(new Date(activePoint.date))}
+            </span>
+          ) : null}
+          <span className="text-2xl font-semibold text-foreground">
+            {activeValue === null ? "—" : activeValue.toFixed(2)}
+          </span>
+          {reading ? (
+            <span className={`font-medium ${reading.className}`}>
+              {reading.label}
+            </span>
+          ) : (
+            <span className="text-text-muted">
+              Sin datos suficientes para el desvío en esta fecha.
+            </span>
+          )}
+        </div>
+
+        {!validThresholds ? (
+          <p className="text-xs text-red-600 dark:text-red-300">
+            El techo tiene que ser un número mayor que el piso; se muestran los
+            umbrales por defecto.
+          </p>
+        ) : null}
+
+        {chart ? (
+          <div className="relative overflow-x-auto">
+            <div className="min-w-[720px]">
+              <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="h-auto w-full"
+                role="img"
+                aria-label={`Gráfico de ${MVRV_METRIC_LABELS[metric]} con umbrales de techo y piso`}
+                onMouseLeave={onLeave}
+                onMouseMove={(event) =>
+                  updateActiveIndex(
+                    event.clientX,
+                    event.currentTarget.getBoundingClientRect(),
+                  )
+                }
+                onTouchStart={(event) =>
+                  updateActiveIndex(
+                    event.touches[0].clientX,
+                    event.currentTarget.getBoundingClientRect(),
+                  )
+                }
+                onTouchMove={(event) =>
+                  updateActiveIndex(
+                    event.touches[0].clientX,
+                    event.currentTarget.getBoundingClientRect(),
+                  )
+                }
+              >
+                <defs>
+                  <clipPath id={`mvrv-above-${metric}`}>
+                    <rect x="0" y="0" width={WIDTH} height={chart.topY} />
+                  </clipPath>
+                  <clipPath id={`mvrv-below-${metric}`}>
+                    <rect
+                      x="0"
+                      y={chart.bottomY}
+                      width={WIDTH}
+                      height={HEIGHT - chart.bottomY}
+                    />
+                  </clipPath>
+                </defs>
+
+                <rect
+                  x="0"
+                  y="0"
+                  width={WIDTH}
+                  height={chart.topY}
+                  fill="rgba(239,68,68,0.08)"
+                />
+                <rect
+                  x="0"
+                  y={chart.bottomY}
+                  width={WIDTH}
+                  height={HEIGHT - chart.bottomY}
+                  fill="rgba(16,185,129,0.08)"
+                />
+                {[
+                  { y: chart.topY, value: thresholds.top, color: "#ef4444" },
+                  { y: chart.bottomY, value: thresholds.bottom, color: "#10b981" },
+                ].map((line) => (
+                  <g key={line.color}>
+                    <line
+                      x1="0"
+                      x2={WIDTH}
+                      y1={line.y}
+                      y2={line.y}
+                      stroke={line.color}
+                      strokeDasharray="6 6"
+                    />
+                    <text
+                      x="12"
+                      y={Math.max(14, line.y - 6)}
+                      fill={line.color}
+                      fontSize="12"
+                    >
+                      {line.value}
+                    </text>
+                  </g>
+                ))}
+
+                <path
+                  d={chart.path}
+                  fill="none"
+                  stroke="var(--price-line-color)"
+                  strokeWidth="1.75"
+                  strokeLinejoin="round"
+                />
+                {/* Los tramos fuera de los umbrales se repintan con su color. */}
+                <path
+                  d={chart.path}
+                  fill="none"
+                  stroke="#ef4444"
+                  strokeWidth="2.5"
+                  strokeLinejoin="round"
+                  clipPath={`url(#mvrv-above-${metric})`}
+                />
+                <path
+                  d={chart.path}
+                  fill="none"
+                  stroke="#10b981"
+                  strokeWidth="2.5"
+                  strokeLinejoin="round"
+                  clipPath={`url(#mvrv-below-${metric})`}
+                />
+
+                {activeIndex !== null && activeValue !== null ? (
+                  <g pointerEvents="none">
+                    <line
+                      x1={chart.toX(activeIndex)}
+                      x2={chart.toX(activeIndex)}
+                      y1="0"
+                      y2={HEIGHT}
+                      stroke="rgba(247,147,26,0.45)"
+                      strokeDasharray="5 7"
+                    />
+                    <circle
+                      cx={chart.toX(activeIndex)}
+                      cy={chart.toY(activeValue)}
+                      r="4.5"
+                      fill="#f7931a"
+                      stroke="var(--background-card)"
+                      strokeWidth="2"
+                    />
+                  </g>
+                ) : null}
+              </svg>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useMemo, useRef, type PointerEvent } from "react";
+import {
+  clampWindow,
+  MIN_WINDOW_MS,
+  panWindow,
+  type DateWindow,
+} from "@/lib/chart-window";
+import { createTimeScale } from "./time-scale";
+
+type RangeBrushProps = {
+  points: { date: string; btcPrice: number }[];
+  bounds: DateWindow;
+  value: DateWindow;
+  onChange: (range: DateWindow) => void;
+};
+
+type DragMode = "start" | "end" | "move";
+
+const WIDTH = 960;
+const HEIGHT = 56;
+// Distancia (en unidades del viewBox) a la que un borde se puede agarrar.
+const HANDLE_HIT = 10;
+
+export function RangeBrush({ points, bounds, value, onChange }: RangeBrushProps) {
+  const drag = useRef<{
+    mode: DragMode;
+    startTime: number;
+    initial: DateWindow;
+  } | null>(null);
+
+  const path = useMemo(() => {
+    const scale = createTimeScale(
+      points.map((point) => point.date),
+      WIDTH,
+      bounds,
+    );
+    const logs = points.map((point) => Math.log10(Math.max(point.btcPrice, 0.0001)));
+    const min = Math.min(...logs);
+    const range = Math.max(...logs) - min || 1;
+
+    return logs
+      .map(
+        (value, index) =>
+          `${index === 0 ? "M" : "L"} ${scale.xs[index].toFixed(2)} ${(
+            HEIGHT - 4 - ((value - min) / range) * (HEIGHT - 8)
+          ).toFixed(2)}`,
+      )
+      .join(" ");
+  }, [points, bounds]);
+
+  const span = bounds.end - bounds.start || 1;
+  const toX = (time: number) => ((time - bounds.start) / span) * WIDTH;
+  const startX = toX(value.start);
+  const endX = toX(value.end);
+
+  function getPosition(event: PointerEvent<SVGSVGElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = rect.width === 0 ? 0 : ((event.clientX - rect.left) / rect.width) * WIDTH;
+    return { x, time: bounds.start + (Math.min(Math.max(x, 0), WIDTH) / WIDTH) * span };
+  }
+
+  function handlePointerDown(event: PointerEvent<SVGSVGElement>) {
+    const { x, time } = getPosition(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    if (Math.abs(x - startX) <= HANDLE_HIT) {
+      drag.current = { mode: "start", startTime: time, initial: value };
+    } else if (Math.abs(x - endX) <= HANDLE_HIT) {
+      drag.current = { mode: "end", startTime: time, initial: value };
+    } else {
+      // Fuera de la selección, primero la centra donde se hizo click.
+      const current =
+        x > startX && x < endX
+          ? value
+          : panWindow(value, bounds, time - (value.start + value.end) / 2);
+      if (current !== value) onChange(current);
+      drag.current = { mode: "move", startTime: time, initial: current };
+    }
+  }
+
+  function handlePointerMove(event: PointerEvent<SVGSVGElement>) {
+    if (!drag.current) return;
+    const { time } = getPosition(event);
+    const { mode, startTime, initial } = drag.current;
+
+    if (mode === "move") {
+      onChange(panWindow(initial, bounds, time - startTime));
+    } else if (mode === "start") {
+      onChange(
+        clampWindow(
+          { start: Math.min(time, initial.end - MIN_WINDOW_MS), end: initial.end },
+          bounds,
+        ),
+      );
+    } else {
+      onChange(
+        clampWindow(
+          { start: initial.start, end: Math.max(time, initial.start + MIN_WINDOW_MS) },
+          bounds,
+        ),
+      );
+    }
+  }
+
+  function handlePointerUp() {
+    drag.current = null;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-14 w-full cursor-grab touch-none select-none active:cursor-grabbing"
+      role="img"
+      aria-label="Selector del rango visible"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <rect
+        width={WIDTH}
+        height={HEIGHT}
+        rx="10"
+        fill="var(--background-secondary)"
+      />
+      <path
+        d={path}
+        fill="none"
+        stroke="var(--price-line-color)"
+        strokeWidth="1.25"
+        opacity="0.7"
+      />
+      <rect x="0" y="0" width={Math.max(startX, 0)} height={HEIGHT} fill="rgba(15,23,42,0.35)" />
+      <rect
+        x={endX}
+        y="0"
+        width={Math.max(WIDTH - endX, 0)}
+        height={HEIGHT}
+        fill="rgba(15,23,42,0.35)"
+      />
+      <rect
+        x={startX}
+        y="1"
+        width={Math.max(endX - startX, 1)}
+        height={HEIGHT - 2}
+        fill="rgba(247,147,26,0.12)"
+        stroke="#f7931a"
+        strokeWidth="1.5"
+      />
+      {[startX, endX].map((x, index) => (
+        <rect
+          key={index}
+          x={x - 3}
+          y={HEIGHT / 2 - 12}
+          width="6"
+          height="24"
+          rx="3"
+          fill="#f7931a"
+          className="cursor-ew-resize"
+        />
+      ))}
+    </svg>
+  );
+}
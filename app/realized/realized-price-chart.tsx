@@ -1,8 +1,41 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-
-type RealizedPricePoint = {
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PointerEvent,
+} from "react";
+import ArsCompareToggle from "@/app/components/ArsCompareToggle";
+import ArsRateComparison from "@/app/components/ArsRateComparison";
+import ChartImageExport from "@/app/components/ChartImageExport";
+import { useEmbed } from "@/app/components/EmbedProvider";
+import ExportMenu from "@/app/components/ExportMenu";
+import { useArsCompare, useCurrency } from "@/app/components/useCurrency";
+import {
+  clampWindow,
+  getActivePreset,
+  getDataBounds,
+  getPresetWindow,
+  isSameWindow,
+  panWindow,
+  RANGE_PRESETS,
+  toDate,
+  toTime,
+  zoomWindow,
+  type DateWindow,
+} from "@/lib/chart-window";
+import { getCurrencyFormatter } from "@/lib/currency";
+import {
+  summarizeRealizedPrice,
+  type MvrvPoint,
+} from "@/lib/realized-metrics";
+import { MvrvPanel } from "./mvrv-panel";
+import { RangeBrush } from "./range-brush";
+import { createTimeScale, getTimeTicks } from "./time-scale";
+
+type RealizedPricePoint = MvrvPoint & {
   date: string;
   realizedPrice: number;
   btcPrice: number;
@@ -10,39 +43,40 @@ type RealizedPricePoint = {
 
 type RealizedPriceResponse = {
   source: string;
+  fxRate?: number;
   updatedAt: string;
+  summary: {
+    latest: RealizedPricePoint;
+    high: RealizedPricePoint;
+    change30d: number | null;
+  } | null;
   points: RealizedPricePoint[];
   error?: string;
+  details?: string;
 };
 
+type Gesture =
+  | { kind: "pan"; startRatio: number; initial: DateWindow; moved: boolean }
+  | { kind: "pinch"; startDistance: number; anchor: number; initial: DateWindow };
+
 type PositionedPoint = RealizedPricePoint & {
   x: number;
   realizedY: number;
   btcY: number;
 };
 
-const currencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  maximumFractionDigits: 0,
-});
-
-const compactCurrencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  notation: "compact",
-  maximumFractionDigits: 1,
-});
-
-const dateFormatter = new Intl.DateTimeFormat("en-US", {
-  year: "numeric",
-  month: "short",
-  day: "numeric",
-});
+const CHART_WIDTH = 960;
+// Un vértice por unidad horizontal del gráfico alcanza para no perder la forma.
+const CHART_MAX_POINTS = CHART_WIDTH;
+// Espera a que termine el gesto antes de pedir el detalle de la ventana.
+const DETAIL_FETCH_DELAY_MS = 250;
+const WHEEL_ZOOM_SPEED = 0.0015;
+// Por debajo de esto un toque cuenta como tap y no como arrastre.
+const DRAG_THRESHOLD_PX = 4;
 
 function buildLogLinePath(
   values: number[],
-  width: number,
+  xs: number[],
   height: number,
   minLog: number,
   maxLog: number,
@@ -56,37 +90,90 @@ function buildLogLinePath(
 
   return safeValues
     .map((value, index) => {
-      const x = (index / Math.max(safeValues.length - 1, 1)) * width;
       const y = height - ((Math.log10(value) - minLog) / range) * height;
 
-      return `${index === 0 ? "M" : "L"} ${x.toFixed(2)} ${y.toFixed(2)}`;
+      return `${index === 0 ? "M" : "L"} ${xs[index].toFixed(2)} ${y.toFixed(2)}`;
     })
     .join(" ");
 }
 
-function buildAreaPath(path: string, width: number, height: number) {
+function buildAreaPath(path: string, xs: number[], height: number) {
   if (!path) {
     return "";
   }
 
-  return `${path} L ${width} ${height} L 0 ${height} Z`;
+  return `${path} L ${xs[xs.length - 1]} ${height} L ${xs[0]} ${height} Z`;
+}
+
+function getRatio(clientX: number, bounds: DOMRect) {
+  const ratio = bounds.width === 0 ? 0 : (clientX - bounds.left) / bounds.width;
+  return Math.min(Math.max(ratio, 0), 1);
 }
 
 export function RealizedPriceChart() {
   const [data, setData] = useState<RealizedPriceResponse | null>(null);
+  // Serie de la ventana visible, más densa que la vista general.
+  const [detail, setDetail] = useState<{
+    key: string;
+    payload: RealizedPriceResponse;
+  } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  // null muestra toda la historia.
+  const [view, setView] = useState<DateWindow | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointers = useRef(new Map<number, number>());
+  const gesture = useRef<Gesture | null>(null);
+  const currency = useCurrency();
+  const compareArs = useArsCompare();
+  const embed = useEmbed();
+  const locale = embed?.locale;
+  // Dentro de un widget el gráfico llena el alto del iframe: el alto del
+  // viewBox sale de la proporción del área disponible.
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [plotSize, setPlotSize] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const currencyFormatter = useMemo(
+    () => getCurrencyFormatter(currency, { maximumFractionDigits: 0 }, locale),
+    [currency, locale],
+  );
+  const compactCurrencyFormatter = useMemo(
+    () =>
+      getCurrencyFormatter(
+        currency,
+        {
+          notation: "compact",
+          maximumFractionDigits: 1,
+        },
+        locale,
+      ),
+    [currency, locale],
+  );
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale ?? "en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      }),
+    [locale],
+  );
 
   useEffect(() => {
     let active = true;
 
     async function loadData() {
       try {
-        const response = await fetch("/api/realized");
+        const response = await fetch(
+          `/api/realized?currency=${currency}&maxPoints=${CHART_MAX_POINTS}`,
+        );
         const payload = (await response.json()) as RealizedPriceResponse;
 
         if (!response.ok) {
-          throw new Error(payload.error || "La solicitud falló");
+          throw new Error(
+            payload.details || payload.error || "La solicitud falló",
+          );
         }
 
         if (active) {
@@ -108,10 +195,66 @@ export function RealizedPriceChart() {
     return () => {
       active = false;
     };
-  }, []);
+  }, [currency]);
+
+  const bounds = useMemo(() => (data ? getDataBounds(data.points) : null), [data]);
+  const visibleWindow = bounds
+    ? view
+      ? clampWindow(view, bounds)
+      : embed
+        ? getPresetWindow(embed.range, bounds)
+        : bounds
+    : null;
+  const visibleStart = visibleWindow?.start ?? 0;
+  const visibleEnd = visibleWindow?.end ?? 0;
+  const isFullRange =
+    !bounds || !visibleWindow || isSameWindow(visibleWindow, bounds);
+  const windowKey = `${currency}:${toDate(visibleStart)}:${toDate(visibleEnd)}`;
+  const detailPayload =
+    !isFullRange && detail?.key === windowKey ? detail.payload : null;
 
-  const chart = useMemo(() => {
+  useEffect(() => {
+    if (isFullRange) return;
+
+    let active = true;
+    const [, from, to] = windowKey.split(":");
+    const timeout = window.setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/realized?currency=${currency}&from=${from}&to=${to}&maxPoints=${CHART_MAX_POINTS}`,
+        );
+        if (!response.ok) return;
+        const payload = (await response.json()) as RealizedPriceResponse;
+        if (active) setDetail({ key: windowKey, payload });
+      } catch {
+        // Sin detalle se sigue mostrando la vista general recortada.
+      }
+    }, DETAIL_FETCH_DELAY_MS);
+
+    return () => {
+      active = false;
+      window.clearTimeout(timeout);
+    };
+  }, [currency, windowKey, isFullRange]);
+
+  const visiblePoints = useMemo(() => {
+    if (detailPayload) return detailPayload.points;
     const points = data?.points ?? [];
+    if (isFullRange) return points;
+    return points.filter((point) => {
+      const time = toTime(point.date);
+      return time >= visibleStart && time <= visibleEnd;
+    });
+  }, [data, detailPayload, isFullRange, visibleStart, visibleEnd]);
+
+  // 48 unidades del viewBox quedan para las etiquetas del eje x.
+  const plotHeight =
+    embed && plotSize && plotSize.width > 0
+      ? Math.max(160, Math.round((CHART_WIDTH * plotSize.height) / plotSize.width) - 48)
+      : 420;
+
+  const chart = useMemo(() => {
+    const points = visiblePoints;
 
     if (points.length === 0) {
       return null;
@@ -120,8 +263,14 @@ export function RealizedPriceChart() {
     const realizedValues = points.map((point) => point.realizedPrice);
     const btcValues = points.map((point) => point.btcPrice);
     const values = [...realizedValues, ...btcValues].filter((value) => value > 0);
-    const width = 960;
-    const height = 420;
+    const width = CHART_WIDTH;
+    const height = plotHeight;
+    const domain = { start: visibleStart, end: visibleEnd };
+    const scale = createTimeScale(
+      points.map((point) => point.date),
+      width,
+      domain,
+    );
     const min = Math.min(...values);
     const max = Math.max(...values);
     const minLog = Math.log10(min);
@@ -134,24 +283,24 @@ export function RealizedPriceChart() {
 
       return { value, y };
     });
-    const yearTicks = points.filter((point) => point.date.endsWith("-01-01"));
+    const timeTicks = getTimeTicks(domain, width);
     const realizedPath = buildLogLinePath(
       realizedValues,
-      width,
+      scale.xs,
       height,
       minLog,
       maxLog,
     );
     const btcPricePath = buildLogLinePath(
       btcValues,
-      width,
+      scale.xs,
       height,
       minLog,
       maxLog,
     );
-    const areaPath = buildAreaPath(realizedPath, width, height);
+    const areaPath = buildAreaPath(realizedPath, scale.xs, height);
     const positionedPoints: PositionedPoint[] = points.map((point, index) => {
-      const x = (index / Math.max(points.length - 1, 1)) * width;
+      const x = scale.xs[index];
       const realizedY =
         height -
         ((Math.log10(Math.max(point.realizedPrice, 0.0001)) - minLog) / range) *
@@ -172,48 +321,74 @@ export function RealizedPriceChart() {
     return {
       width,
       height,
+      scale,
       min,
       max,
       yTicks,
-      yearTicks,
+      timeTicks,
       realizedPath,
       btcPricePath,
       areaPath,
       positionedPoints,
     };
-  }, [data]);
+  }, [visiblePoints, visibleStart, visibleEnd, plotHeight]);
+
+  // El resumen del servidor sale de la serie diaria; mientras llega el de la
+  // ventana se aproxima con los puntos visibles.
+  const summary = isFullRange
+    ? data?.summary
+    : (detailPayload?.summary ?? summarizeRealizedPrice(visiblePoints));
+  const stats = summary
+    ? {
+        latest: summary.latest,
+        change30d: summary.change30d ?? 0,
+        latestBtcPrice: summary.latest.btcPrice,
+      }
+    : null;
+  const hasChart = chart !== null;
 
   useEffect(() => {
-    if (!data?.points.length) {
-      setActiveIndex(null);
-      return;
-    }
-
-    setActiveIndex(data.points.length - 1);
-  }, [data]);
+    const plot = plotRef.current;
+    if (!embed || !plot) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setPlotSize((current) =>
+        current && current.width === width && current.height === height
+          ? current
+          : { width, height },
+      );
+    });
+    observer.observe(plot);
 
-  const stats = useMemo(() => {
-    const points = data?.points ?? [];
+    return () => {
+      observer.disconnect();
+    };
+  }, [embed, hasChart]);
 
-    if (points.length === 0) {
-      return null;
+  useEffect(() => {
+    if (!svgRef.current || !bounds) return;
+    const svg = svgRef.current;
+    const dataBounds = bounds;
+
+    function handleWheel(event: WheelEvent) {
+      event.preventDefault();
+      const anchor = getRatio(event.clientX, svg.getBoundingClientRect());
+      // Firefox puede reportar líneas en vez de píxeles.
+      const delta = event.deltaMode === 1 ? event.deltaY * 33 : event.deltaY;
+      setView((current) =>
+        zoomWindow(
+          current ?? dataBounds,
+          dataBounds,
+          Math.exp(delta * WHEEL_ZOOM_SPEED),
+          anchor,
+        ),
+      );
     }
 
-    const latest = points[points.length - 1];
-    const monthAgo = points[Math.max(0, points.length - 31)];
-    const ath = points.reduce((best, point) =>
-      point.realizedPrice > best.realizedPrice ? point : best,
-    );
-    const latestBtcPrice = points[points.length - 1].btcPrice;
-    const change30d =
-      monthAgo.realizedPrice === 0
-        ? 0
-        : ((latest.realizedPrice - monthAgo.realizedPrice) /
-            monthAgo.realizedPrice) *
-          100;
-
-    return { latest, ath, change30d, latestBtcPrice };
-  }, [data]);
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [bounds, hasChart]);
 
   if (error) {
     return (
@@ -223,7 +398,7 @@ export function RealizedPriceChart() {
     );
   }
 
-  if (!data || !chart || !stats) {
+  if (!data || !chart || !stats || !bounds || !visibleWindow) {
     return (
       <div className="rounded-3xl border border-border bg-card p-6 text-sm text-text-secondary">
         Cargando datos del precio realizado...
@@ -231,8 +406,13 @@ export function RealizedPriceChart() {
     );
   }
 
-  const activePoint =
-    activeIndex !== null ? chart.positionedPoints[activeIndex] : null;
+  const pointCount = chart.positionedPoints.length;
+  // Sin hover se destaca el último punto visible.
+  const resolvedIndex =
+    activeIndex !== null && activeIndex < pointCount
+      ? activeIndex
+      : pointCount - 1;
+  const activePoint = chart.positionedPoints[resolvedIndex] ?? null;
   const tooltipWidth = 176;
   const tooltipHeight = 74;
   const tooltipX = activePoint
@@ -247,67 +427,168 @@ export function RealizedPriceChart() {
         12,
       )
     : 0;
-  const chartPointCount = chart.positionedPoints.length;
+  const { scale, width: chartWidth } = chart;
+  const dataBounds = bounds;
+  const currentWindow = visibleWindow;
+  const activePreset = getActivePreset(currentWindow, dataBounds);
+  // fxRate es la cotización del último cierre: la comparación en pesos no
+  // sigue a la ventana visible.
+  const latestClose = data.summary?.latest ?? stats.latest;
+  const imageMeta = {
+    title: "Precio BTC vs. precio realizado",
+    subtitle: `${dateFormatter.format(new Date(currentWindow.start))} – ${dateFormatter.format(
+      new Date(currentWindow.end),
+    )} · ${currency} · Escala logarítmica`,
+    legend: [
+      { label: "Precio BTC", color: "var(--price-line-color)" },
+      { label: "Precio realizado", color: "#f7931a" },
+    ],
+    dataDate: visiblePoints.at(-1)?.date ?? null,
+  };
+
+  function updateActiveIndex(ratio: number) {
+    setActiveIndex(scale.nearestIndex(ratio * chartWidth));
+  }
 
-  function updateActiveIndex(clientX: number, bounds: DOMRect) {
-    const relativeX = clientX - bounds.left;
-    const ratio = bounds.width === 0 ? 0 : relativeX / bounds.width;
-    const nextIndex = Math.round(
-      Math.min(Math.max(ratio, 0), 1) * Math.max(chartPointCount - 1, 0),
-    );
+  function startGesture() {
+    const positions = [...pointers.current.values()];
+    if (positions.length >= 2) {
+      const [first, second] = positions;
+      gesture.current = {
+        kind: "pinch",
+        startDistance: Math.max(Math.abs(first - second), 0.01),
+        anchor: (first + second) / 2,
+        initial: currentWindow,
+      };
+    } else if (positions.length === 1) {
+      gesture.current = {
+        kind: "pan",
+        startRatio: positions[0],
+        initial: currentWindow,
+        moved: false,
+      };
+    } else {
+      gesture.current = null;
+    }
+  }
 
-    setActiveIndex(nextIndex);
+  function handlePointerDown(event: PointerEvent<SVGSVGElement>) {
+    if (event.pointerType === "mouse" && event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(
+      event.pointerId,
+      getRatio(event.clientX, event.currentTarget.getBoundingClientRect()),
+    );
+    startGesture();
   }
 
-  return (
-    <section className="space-y-6">
-      <div className="grid gap-4 md:grid-cols-3">
-        <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
-          <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
-            Precio realizado
-          </p>
-          <p className="mt-3 text-3xl font-semibold text-foreground">
-            {currencyFormatter.format(stats.latest.realizedPrice)}
-          </p>
-          <p className="mt-2 text-sm text-text-secondary">
-            {dateFormatter.format(new Date(stats.latest.date))}
-          </p>
-        </article>
+  function handlePointerMove(event: PointerEvent<SVGSVGElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = getRatio(event.clientX, rect);
 
-        <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
-          <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
-            Precio BTC
-          </p>
-          <p className="mt-3 text-3xl font-semibold text-foreground">
-            {currencyFormatter.format(stats.latestBtcPrice)}
-          </p>
-          <p className="mt-2 text-sm text-text-secondary">
-            Cierre histórico más reciente del precio spot.
-          </p>
-        </article>
+    // Mouse sin botón apretado: solo hover.
+    if (!pointers.current.has(event.pointerId)) {
+      updateActiveIndex(ratio);
+      return;
+    }
 
-        <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
-          <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
-            Cambio 30D
-          </p>
-          <p
-            className={`mt-3 text-3xl font-semibold ${
-              stats.change30d >= 0
-                ? "text-emerald-600 dark:text-emerald-300"
-                : "text-red-600 dark:text-red-300"
-            }`}
-          >
-            {stats.change30d >= 0 ? "+" : ""}
-            {stats.change30d.toFixed(2)}%
-          </p>
-          <p className="mt-2 text-sm text-text-secondary">
-            Variación del costo base del mercado en el último mes.
-          </p>
-        </article>
-      </div>
+    pointers.current.set(event.pointerId, ratio);
+    const current = gesture.current;
+    if (!current) return;
+
+    if (current.kind === "pan") {
+      const delta = ratio - current.startRatio;
+      if (!current.moved && Math.abs(delta * rect.width) < DRAG_THRESHOLD_PX) {
+        updateActiveIndex(ratio);
+        return;
+      }
+      current.moved = true;
+      const span = current.initial.end - current.initial.start;
+      setView(panWindow(current.initial, dataBounds, -delta * span));
+      return;
+    }
+
+    const [first, second] = [...pointers.current.values()];
+    const distance = Math.max(Math.abs(first - second), 0.01);
+    setView(
+      zoomWindow(
+        current.initial,
+        dataBounds,
+        current.startDistance / distance,
+        current.anchor,
+      ),
+    );
+  }
+
+  function handlePointerEnd(event: PointerEvent<SVGSVGElement>) {
+    pointers.current.delete(event.pointerId);
+    // Al levantar un dedo del pellizco se sigue paneando con el otro.
+    startGesture();
+  }
 
-      <div className="overflow-hidden rounded-[28px] border border-border bg-[linear-gradient(180deg,var(--background-card),var(--background-secondary))] shadow-sm">
-        <div className="border-b border-border bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.16),transparent_36%)] p-6">
+  return (
+    <section className={embed ? "flex h-full flex-col" : "space-y-6"}>
+      {embed ? null : (
+        <div className="grid gap-4 md:grid-cols-3">
+          <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
+            <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
+              Precio realizado
+            </p>
+            <p className="mt-3 text-3xl font-semibold text-foreground">
+              {currencyFormatter.format(stats.latest.realizedPrice)}
+            </p>
+            <p className="mt-2 text-sm text-text-secondary">
+              {dateFormatter.format(new Date(stats.latest.date))}
+            </p>
+          </article>
+
+          <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
+            <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
+              Precio BTC
+            </p>
+            <p className="mt-3 text-3xl font-semibold text-foreground">
+              {currencyFormatter.format(stats.latestBtcPrice)}
+            </p>
+            <p className="mt-2 text-sm text-text-secondary">
+              {isFullRange
+                ? "Cierre histórico más reciente del precio spot."
+                : "Cierre al final del rango visible."}
+            </p>
+          </article>
+
+          <article className="rounded-3xl border border-border bg-card p-5 shadow-sm">
+            <p className="text-xs uppercase tracking-[0.24em] text-text-muted">
+              Cambio 30D
+            </p>
+            <p
+              className={`mt-3 text-3xl font-semibold ${
+                stats.change30d >= 0
+                  ? "text-emerald-600 dark:text-emerald-300"
+                  : "text-red-600 dark:text-red-300"
+              }`}
+            >
+              {stats.change30d >= 0 ? "+" : ""}
+              {stats.change30d.toFixed(2)}%
+            </p>
+            <p className="mt-2 text-sm text-text-secondary">
+              {isFullRange
+                ? "Variación del costo base del mercado en el último mes."
+                : "Variación del costo base en el último mes del rango visible."}
+            </p>
+          </article>
+        </div>
+      )}
+
+      <div
+        className={`overflow-hidden rounded-[28px] border border-border bg-[linear-gradient(180deg,var(--background-card),var(--background-secondary))] shadow-sm ${
+          embed ? "flex min-h-0 flex-1 flex-col" : ""
+        }`}
+      >
+        <div
+          className={`border-b border-border bg-[radial-gradient(circle_at_top_left,rgba(247,147,26,0.16),transparent_36%)] ${
+            embed ? "px-4 py-3" : "p-6"
+          }`}
+        >
           <p className="text-xs font-semibold uppercase tracking-[0.24em] text-btc">
             Bitcoin On-Chain
           </p>
@@ -316,23 +597,42 @@ export function RealizedPriceChart() {
               <h2 className="text-2xl font-semibold md:text-3xl">
                 Precio BTC vs. precio realizado
               </h2>
-              <p className="mt-2 max-w-2xl text-sm text-text-secondary">
-                Comparación entre el precio histórico de Bitcoin y el costo
-                promedio on-chain de las monedas en circulación, sobre la misma
-                escala logarítmica.
-              </p>
+              {embed ? null : (
+                <p className="mt-2 max-w-2xl text-sm text-text-secondary">
+                  Comparación entre el precio histórico de Bitcoin y el costo
+                  promedio on-chain de las monedas en circulación, sobre la
+                  misma escala logarítmica.
+                </p>
+              )}
             </div>
-            <div className="text-sm text-text-secondary">
-              Fuente: {data.source} · Actualizado{" "}
-              {dateFormatter.format(new Date(data.updatedAt))}
+            <div className="flex flex-col items-start gap-2 md:items-end">
+              <div className="text-sm text-text-secondary">
+                Fuente: {data.source} · Actualizado{" "}
+                {dateFormatter.format(new Date(data.updatedAt))}
+              </div>
+              {embed ? null : (
+                <ChartImageExport
+                  name={`realized-${currency.toLowerCase()}`}
+                  getSvg={() => svgRef.current}
+                  meta={imageMeta}
+                />
+              )}
             </div>
           </div>
         </div>
 
-        <div className="p-4 md:p-6">
-          <div className="relative overflow-x-auto">
-            <div className="min-w-[720px]">
-              <div className="mb-4 flex flex-wrap gap-3 text-xs font-medium text-text-secondary">
+        <div className={embed ? "flex min-h-0 flex-1 flex-col p-3" : "p-4 md:p-6"}>
+          <div
+            className={
+              embed ? "flex min-h-0 flex-1 flex-col" : "relative overflow-x-auto"
+            }
+          >
+            <div className={embed ? "flex min-h-0 flex-1 flex-col" : "min-w-[720px]"}>
+              <div
+                className={`flex flex-wrap gap-3 text-xs font-medium text-text-secondary ${
+                  embed ? "mb-2" : "mb-4"
+                }`}
+              >
                 <div className="inline-flex items-center gap-2 rounded-full border border-border bg-background px-3 py-1.5">
                   <span className="h-2.5 w-2.5 rounded-full bg-[var(--price-line-color)]" />
                   Precio BTC
@@ -345,165 +645,234 @@ export function RealizedPriceChart() {
                   <span className="text-text-muted">Escala</span>
                   Logarítmica
                 </div>
-              </div>
-              <svg
-                viewBox={`0 0 ${chart.width} ${chart.height + 48}`}
-                className="h-auto w-full"
-                role="img"
-                aria-label="Gráfico logarítmico de Bitcoin y precio realizado"
-                onMouseLeave={() => setActiveIndex(data.points.length - 1)}
-                onMouseMove={(event) =>
-                  updateActiveIndex(
-                    event.clientX,
-                    event.currentTarget.getBoundingClientRect(),
-                  )
-                }
-                onTouchStart={(event) =>
-                  updateActiveIndex(
-                    event.touches[0].clientX,
-                    event.currentTarget.getBoundingClientRect(),
-                  )
-                }
-                onTouchMove={(event) =>
-                  updateActiveIndex(
-                    event.touches[0].clientX,
-                    event.currentTarget.getBoundingClientRect(),
-                  )
-                }
-              >
-                <defs>
-                  <linearGradient id="realized-area" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="0%" stopColor="#f7931a" stopOpacity="0.40" />
-                    <stop offset="100%" stopColor="#f7931a" stopOpacity="0.02" />
-                  </linearGradient>
-                </defs>
-
-                {chart.yTicks.map((tick) => (
-                  <g key={tick.y}>
-                    <line
-                      x1="0"
-                      x2={chart.width}
-                      y1={tick.y}
-                      y2={tick.y}
-                      stroke="var(--border-color)"
-                      strokeDasharray="4 8"
-                    />
-                    <text
-                      x="12"
-                      y={Math.max(16, tick.y - 8)}
-                      fill="var(--text-secondary)"
-                      fontSize="12"
+                <div className="ml-auto inline-flex rounded-full border border-border bg-background p-1">
+                  {RANGE_PRESETS.map((preset) => (
+                    <button
+                      key={preset.id}
+                      type="button"
+                      onClick={() =>
+                        setView(getPresetWindow(preset.id, dataBounds))
+                      }
+                      aria-pressed={activePreset === preset.id}
+                      className={`cursor-pointer rounded-full px-3 py-1 font-semibold transition ${
+                        activePreset === preset.id
+                          ? "bg-btc text-black"
+                          : "hover:text-foreground"
+                      }`}
                     >
-                      {compactCurrencyFormatter.format(tick.value)}
-                    </text>
-                  </g>
-                ))}
-
-                <path d={chart.areaPath} fill="url(#realized-area)" />
-                <path
-                  d={chart.btcPricePath}
-                  fill="none"
-                  stroke="var(--price-line-color)"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-                <path
-                  d={chart.realizedPath}
-                  fill="none"
-                  stroke="#f7931a"
-                  strokeWidth="2.75"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-
-                {chart.yearTicks.map((point) => {
-                  const index = data.points.findIndex(
-                    (item) => item.date === point.date,
-                  );
-                  const x =
-                    (index / Math.max(data.points.length - 1, 1)) * chart.width;
-
-                  return (
-                    <g key={point.date}>
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                {embed ? null : (
+                  <ExportMenu
+                    name={`realized-${currency.toLowerCase()}`}
+                    url={
+                      isFullRange
+                        ? `/api/realized?currency=${currency}`
+                        : `/api/realized?currency=${currency}&from=${toDate(visibleStart)}&to=${toDate(visibleEnd)}`
+                    }
+                  />
+                )}
+              </div>
+              <div ref={plotRef} className={embed ? "min-h-0 flex-1" : undefined}>
+                <svg
+                  ref={svgRef}
+                  viewBox={`0 0 ${chart.width} ${chart.height + 48}`}
+                  className={`w-full cursor-grab touch-pan-y select-none active:cursor-grabbing ${
+                    embed ? "h-full" : "h-auto"
+                  }`}
+                  role="img"
+                  aria-label="Gráfico logarítmico de Bitcoin y precio realizado"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerEnd}
+                  onPointerCancel={handlePointerEnd}
+                  onPointerLeave={(event) => {
+                    if (event.pointerType === "mouse") setActiveIndex(null);
+                  }}
+                >
+                  <defs>
+                    <clipPath id="realized-plot">
+                      <rect width={chart.width} height={chart.height} />
+                    </clipPath>
+                    <linearGradient id="realized-area" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="0%" stopColor="#f7931a" stopOpacity="0.40" />
+                      <stop offset="100%" stopColor="#f7931a" stopOpacity="0.02" />
+                    </linearGradient>
+                  </defs>
+
+                  {chart.yTicks.map((tick) => (
+                    <g key={tick.y}>
                       <line
-                        x1={x}
-                        x2={x}
-                        y1="0"
-                        y2={chart.height}
+                        x1="0"
+                        x2={chart.width}
+                        y1={tick.y}
+                        y2={tick.y}
                         stroke="var(--border-color)"
+                        strokeDasharray="4 8"
                       />
                       <text
-                        x={x}
-                        y={chart.height + 28}
+                        x="12"
+                        y={Math.max(16, tick.y - 8)}
                         fill="var(--text-secondary)"
                         fontSize="12"
-                        textAnchor="middle"
                       >
-                        {new Date(point.date).getFullYear()}
+                        {compactCurrencyFormatter.format(tick.value)}
                       </text>
                     </g>
-                  );
-                })}
-
-                {activePoint ? (
-                  <g pointerEvents="none">
-                    <line
-                      x1={activePoint.x}
-                      x2={activePoint.x}
-                      y1="0"
-                      y2={chart.height}
-                      stroke="rgba(247,147,26,0.45)"
-                      strokeDasharray="5 7"
-                    />
-                    <circle
-                      cx={activePoint.x}
-                      cy={activePoint.btcY}
-                      r="5"
-                      fill="var(--price-line-color)"
-                      stroke="var(--background-card)"
+                  ))}
+
+                  <g clipPath="url(#realized-plot)">
+                    <path d={chart.areaPath} fill="url(#realized-area)" />
+                    <path
+                      d={chart.btcPricePath}
+                      fill="none"
+                      stroke="var(--price-line-color)"
                       strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
                     />
-                    <circle
-                      cx={activePoint.x}
-                      cy={activePoint.realizedY}
-                      r="5.5"
-                      fill="#f7931a"
-                      stroke="var(--background-card)"
-                      strokeWidth="2"
+                    <path
+                      d={chart.realizedPath}
+                      fill="none"
+                      stroke="#f7931a"
+                      strokeWidth="2.75"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
                     />
-                    <g transform={`translate(${tooltipX}, ${tooltipY})`}>
-                      <rect
-                        width={tooltipWidth}
-                        height={tooltipHeight}
-                        rx="16"
-                        fill="rgba(15, 23, 42, 0.92)"
-                        stroke="rgba(255, 255, 255, 0.08)"
+                  </g>
+
+                  {chart.timeTicks.map((tick) => {
+                    return (
+                      <g key={tick.key}>
+                        <line
+                          x1={tick.x}
+                          x2={tick.x}
+                          y1="0"
+                          y2={chart.height}
+                          stroke="var(--border-color)"
+                        />
+                        <text
+                          x={tick.x}
+                          y={chart.height + 28}
+                          fill="var(--text-secondary)"
+                          fontSize="12"
+                          textAnchor="middle"
+                        >
+                          {tick.label}
+                        </text>
+                      </g>
+                    );
+                  })}
+
+                  {activePoint ? (
+                    <g pointerEvents="none" data-export-ignore>
+                      <line
+                        x1={activePoint.x}
+                        x2={activePoint.x}
+                        y1="0"
+                        y2={chart.height}
+                        stroke="rgba(247,147,26,0.45)"
+                        strokeDasharray="5 7"
                       />
-                      <text
-                        x="12"
-                        y="20"
-                        fill="rgba(255,255,255,0.72)"
-                        fontSize="11"
-                      >
-                        {dateFormatter.format(new Date(activePoint.date))}
-                      </text>
-                      <circle cx="16" cy="38" r="4" fill="var(--price-line-color)" />
-                      <text x="26" y="42" fill="#ffffff" fontSize="12">
-                        BTC {compactCurrencyFormatter.format(activePoint.btcPrice)}
-                      </text>
-                      <circle cx="16" cy="57" r="4" fill="#f7931a" />
-                      <text x="26" y="61" fill="#ffffff" fontSize="12">
-                        Realizado {compactCurrencyFormatter.format(activePoint.realizedPrice)}
-                      </text>
+                      <circle
+                        cx={activePoint.x}
+                        cy={activePoint.btcY}
+                        r="5"
+                        fill="var(--price-line-color)"
+                        stroke="var(--background-card)"
+                        strokeWidth="2"
+                      />
+                      <circle
+                        cx={activePoint.x}
+                        cy={activePoint.realizedY}
+                        r="5.5"
+                        fill="#f7931a"
+                        stroke="var(--background-card)"
+                        strokeWidth="2"
+                      />
+                      <g transform={`translate(${tooltipX}, ${tooltipY})`}>
+                        <rect
+                          width={tooltipWidth}
+                          height={tooltipHeight}
+                          rx="16"
+                          fill="rgba(15, 23, 42, 0.92)"
+                          stroke="rgba(255, 255, 255, 0.08)"
+                        />
+                        <text
+                          x="12"
+                          y="20"
+                          fill="rgba(255,255,255,0.72)"
+                          fontSize="11"
+                        >
+                          {dateFormatter.format(new Date(activePoint.date))}
+                        </text>
+                        <circle cx="16" cy="38" r="4" fill="var(--price-line-color)" />
+                        <text x="26" y="42" fill="#ffffff" fontSize="12">
+                          BTC {compactCurrencyFormatter.format(activePoint.btcPrice)}
+                        </text>
+                        <circle cx="16" cy="57" r="4" fill="#f7931a" />
+                        <text x="26" y="61" fill="#ffffff" fontSize="12">
+                          Realizado {compactCurrencyFormatter.format(activePoint.realizedPrice)}
+                        </text>
+                      </g>
                     </g>
-                  </g>
-                ) : null}
-              </svg>
+                  ) : null}
+                </svg>
+              </div>
+              <div className="mt-3 space-y-2">
+                <RangeBrush
+                  points={data.points}
+                  bounds={dataBounds}
+                  value={currentWindow}
+                  onChange={setView}
+                />
+                <p className="text-xs text-text-muted">
+                  {dateFormatter.format(new Date(currentWindow.start))} –{" "}
+                  {dateFormatter.format(new Date(currentWindow.end))} · Rueda o
+                  pellizco para hacer zoom, arrastrar para moverse.
+                </p>
+              </div>
             </div>
           </div>
         </div>
       </div>
+
+      {embed ? null : (
+        <>
+          <MvrvPanel
+            points={visiblePoints}
+            scale={chart.scale}
+            activeIndex={resolvedIndex}
+            onActiveIndexChange={setActiveIndex}
+            onLeave={() => setActiveIndex(null)}
+          />
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm leading-6 text-text-secondary">
+              Valuar el último cierre en pesos con cada cotización del dólar.
+            </p>
+            <ArsCompareToggle />
+          </div>
+
+          {compareArs ? (
+            <ArsRateComparison
+              title="Precio realizado en pesos según el dólar"
+              rows={[
+                {
+                  label: "Precio realizado",
+                  usdValue: latestClose.realizedPrice / (data.fxRate ?? 1),
+                },
+                {
+                  label: "Precio BTC",
+                  usdValue: latestClose.btcPrice / (data.fxRate ?? 1),
+                },
+              ]}
+            />
+          ) : null}
+        </>
+      )}
     </section>
   );
 }
@@ -0,0 +1,104 @@
+import { toTime, type DateWindow } from "@/lib/chart-window";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type TimeScale = {
+  width: number;
+  // Posición horizontal de cada punto, proporcional a su fecha.
+  xs: number[];
+  toX: (date: string) => number;
+  nearestIndex: (x: number) => number;
+};
+
+export type TimeTick = {
+  key: string;
+  label: string;
+  x: number;
+};
+
+const monthFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  timeZone: "UTC",
+});
+
+const dayFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+// Con la serie reducida los puntos ya no están a un día de distancia: el eje x
+// tiene que ir por fecha y no por índice. `domain` fija los extremos cuando el
+// gráfico muestra solo una ventana de la historia.
+export function createTimeScale(
+  dates: string[],
+  width: number,
+  domain?: DateWindow,
+): TimeScale {
+  const first = domain?.start ?? (dates.length > 0 ? toTime(dates[0]) : 0);
+  const last =
+    domain?.end ?? (dates.length > 0 ? toTime(dates[dates.length - 1]) : 0);
+  const span = last - first || DAY_MS;
+  const toX = (date: string) => ((toTime(date) - first) / span) * width;
+  const xs = dates.map(toX);
+
+  function nearestIndex(x: number) {
+    let low = 0;
+    let high = xs.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (xs[middle] < x) low = middle + 1;
+      else high = middle;
+    }
+    if (low > 0 && x - xs[low - 1] < xs[low] - x) return low - 1;
+    return low;
+  }
+
+  return { width, xs, toX, nearestIndex };
+}
+
+// Años para rangos largos; trimestres, meses o semanas al hacer zoom.
+export function getTimeTicks(domain: DateWindow, width: number): TimeTick[] {
+  const spanDays = (domain.end - domain.start) / DAY_MS;
+  const toX = (time: number) =>
+    ((time - domain.start) / (domain.end - domain.start || DAY_MS)) * width;
+  const ticks: TimeTick[] = [];
+
+  if (spanDays <= 75) {
+    // Lunes de cada semana.
+    const firstDay = Math.ceil(domain.start / DAY_MS) * DAY_MS;
+    const weekday = (new Date(firstDay).getUTCDay() + 6) % 7;
+    const firstMonday = firstDay + ((7 - weekday) % 7) * DAY_MS;
+    for (let time = firstMonday; time <= domain.end; time += 7 * DAY_MS) {
+      ticks.push({
+        key: String(time),
+        label: dayFormatter.format(new Date(time)),
+        x: toX(time),
+      });
+    }
+    return ticks;
+  }
+
+  const monthStep = spanDays > 3 * 365 ? 12 : spanDays > 270 ? 3 : 1;
+  const startDate = new Date(domain.start);
+
+  let year = startDate.getUTCFullYear();
+  let month = Math.ceil(startDate.getUTCMonth() / monthStep) * monthStep;
+  for (;;) {
+    year += Math.floor(month / 12);
+    month %= 12;
+    const time = Date.UTC(year, month, 1);
+    if (time > domain.end) break;
+    if (time >= domain.start) {
+      ticks.push({
+        key: `${year}-${month}`,
+        label:
+          month === 0 ? String(year) : monthFormatter.format(new Date(time)),
+        x: toX(time),
+      });
+    }
+    month += monthStep;
+  }
+
+  return ticks;
+}
@@ -0,0 +1,173 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ARS_RATE_KINDS, type ArsRateKind } from "@/lib/currency";
+import {
+  syncUsdArsHistory,
+  type ArgentinaDatosCasa,
+} from "@/lib/history-sources";
+import { number, object, string, validate } from "@/lib/upstream-schema";
+
+// Archivo local con las últimas cotizaciones, para cuando no hay API disponible
+// o se quiere fijar un escenario a mano.
+const ARS_RATES_FILE =
+  process.env.ARS_RATES_FILE ??
+  path.join(process.cwd(), "fixtures", "ars-rates.json");
+
+export type ArsRateSourceId = "argentinadatos" | "local";
+
+export type ArsRate = {
+  rate: number;
+  date: string | null;
+};
+
+export type ArsRateSource = {
+  id: ArsRateSourceId;
+  label: string;
+  fetchRates: () => Promise<{
+    rates: Record<ArsRateKind, ArsRate>;
+    stale: boolean;
+  }>;
+};
+
+export type ArsRateQuote = ArsRate & {
+  kind: ArsRateKind;
+  // Brecha porcentual contra el dólar oficial.
+  spread: number;
+};
+
+export type ArsRateSourceAttempt = {
+  source: ArsRateSourceId;
+  ok: boolean;
+  error?: string;
+};
+
+export type ArsRatesSnapshot = {
+  source: ArsRateSourceId;
+  sourceLabel: string;
+  stale: boolean;
+  quotes: ArsRateQuote[];
+  attempts: ArsRateSourceAttempt[];
+};
+
+const ARGENTINADATOS_CASAS: Record<ArsRateKind, ArgentinaDatosCasa> = {
+  oficial: "oficial",
+  mep: "bolsa",
+  blue: "blue",
+};
+
+const localRatesSchema = object({
+  date: string(),
+  rates: object({
+    oficial: number(),
+    mep: number(),
+    blue: number(),
+  }),
+});
+
+export const ARS_RATE_SOURCES: Record<ArsRateSourceId, ArsRateSource> = {
+  argentinadatos: {
+    id: "argentinadatos",
+    label: "ArgentinaDatos",
+    fetchRates: async () => {
+      const series = await Promise.all(
+        ARS_RATE_KINDS.map((kind) =>
+          syncUsdArsHistory(ARGENTINADATOS_CASAS[kind]),
+        ),
+      );
+
+      const entries = ARS_RATE_KINDS.map((kind, index) => {
+        const last = series[index].points.at(-1);
+        if (!last) {
+          throw new Error(`No USD/ARS ${kind} history available`);
+        }
+        return [kind, { rate: last.value, date: last.date }] as const;
+      });
+
+      return {
+        rates: Object.fromEntries(entries) as Record<ArsRateKind, ArsRate>,
+        stale: series.some((history) => history.stale),
+      };
+    },
+  },
+  local: {
+    id: "local",
+    label: "Archivo local",
+    fetchRates: async () => {
+      const json: unknown = JSON.parse(await readFile(ARS_RATES_FILE, "utf8"));
+      const { date, rates } = validate("ARS rates file", localRatesSchema, json);
+
+      return {
+        rates: {
+          oficial: { rate: rates.oficial, date },
+          mep: { rate: rates.mep, date },
+          blue: { rate: rates.blue, date },
+        },
+        stale: false,
+      };
+    },
+  },
+};
+
+export const DEFAULT_ARS_RATE_SOURCE_ORDER: ArsRateSourceId[] = [
+  "argentinadatos",
+  "local",
+];
+
+function isArsRateSourceId(value: string): value is ArsRateSourceId {
+  return Object.hasOwn(ARS_RATE_SOURCES, value);
+}
+
+export function getArsRateSourceOrder(
+  configured = process.env.ARS_RATE_SOURCES,
+): ArsRateSource[] {
+  const ids = (configured ?? "")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(isArsRateSourceId);
+  const order = ids.length > 0 ? ids : DEFAULT_ARS_RATE_SOURCE_ORDER;
+
+  return Array.from(new Set(order)).map((id) => ARS_RATE_SOURCES[id]);
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function loadArsRates(): Promise<ArsRatesSnapshot> {
+  const attempts: ArsRateSourceAttempt[] = [];
+
+  for (const source of getArsRateSourceOrder()) {
+    try {
+      const { rates, stale } = await source.fetchRates();
+      const official = rates.oficial.rate;
+      if (!(official > 0)) {
+        throw new Error(`${source.label} returned an invalid official rate`);
+      }
+
+      attempts.push({ source: source.id, ok: true });
+      return {
+        source: source.id,
+        sourceLabel: source.label,
+        stale,
+        quotes: ARS_RATE_KINDS.map((kind) => ({
+          kind,
+          ...rates[kind],
+          spread: (rates[kind].rate / official - 1) * 100,
+        })),
+        attempts,
+      };
+    } catch (error) {
+      attempts.push({
+        source: source.id,
+        ok: false,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  throw new Error(
+    `All ARS rate sources failed: ${attempts
+      .map((attempt) => `${attempt.source} (${attempt.error})`)
+      .join(", ")}`,
+  );
+}
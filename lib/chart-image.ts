@@ -0,0 +1,278 @@
+export const CHART_IMAGE_FORMATS = ["png", "svg"] as const;
+export const CHART_IMAGE_SCALES = [1, 2, 3] as const;
+
+export type ChartImageFormat = (typeof CHART_IMAGE_FORMATS)[number];
+export type ChartImageScale = (typeof CHART_IMAGE_SCALES)[number];
+export type ChartImageTheme = "light" | "dark";
+
+export type ChartLegendItem = {
+  label: string;
+  // Acepta colores literales o `var(--...)` del tema.
+  color: string;
+};
+
+export type ChartImageMeta = {
+  title: string;
+  // Rango visible, moneda u otros parámetros de la vista.
+  subtitle?: string;
+  legend?: ChartLegendItem[];
+  // Fecha del último dato; sin ella el pie solo lleva la hora de exportación.
+  dataDate?: string | null;
+};
+
+export type ChartImageOptions = {
+  theme: ChartImageTheme;
+  scale: ChartImageScale;
+  watermark: boolean;
+};
+
+export type ChartImage = {
+  svg: string;
+  width: number;
+  height: number;
+};
+
+const PADDING = 32;
+const HEADER_HEIGHT = 72;
+const LEGEND_ROW_HEIGHT = 26;
+const FOOTER_HEIGHT = 44;
+const FONT_FAMILY =
+  'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+// Tooltips y cursores de hover no forman parte de la vista exportada.
+const IGNORED_SELECTOR =
+  "[data-export-ignore], .recharts-tooltip-cursor, .recharts-active-dot";
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", {
+  day: "2-digit",
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+const timestampFormatter = new Intl.DateTimeFormat("es-AR", {
+  day: "2-digit",
+  month: "short",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  timeZoneName: "short",
+});
+
+export function getCurrentTheme(): ChartImageTheme {
+  return document.documentElement.classList.contains("dark") ? "dark" : "light";
+}
+
+export function getChartImageFilename(name: string, format: ChartImageFormat) {
+  return `bitatlas-${name}.${format}`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function collectRuleVariables(
+  rules: CSSRuleList,
+  selector: string,
+  target: Map<string, string>,
+) {
+  for (const rule of Array.from(rules)) {
+    if (rule instanceof CSSStyleRule && rule.selectorText === selector) {
+      for (const property of Array.from(rule.style)) {
+        if (property.startsWith("--")) {
+          target.set(property, rule.style.getPropertyValue(property).trim());
+        }
+      }
+    } else if ("cssRules" in rule) {
+      collectRuleVariables(
+        (rule as CSSGroupingRule).cssRules,
+        selector,
+        target,
+      );
+    }
+  }
+}
+
+// Las variables del tema elegido salen de las reglas `:root` y `.dark` de
+// globals.css, así el tema exportado no depende del que esté activo.
+function readThemeVariables(theme: ChartImageTheme) {
+  const variables = new Map<string, string>();
+  const selectors = theme === "dark" ? [":root", ".dark"] : [":root"];
+
+  for (const selector of selectors) {
+    for (const sheet of Array.from(document.styleSheets)) {
+      let rules: CSSRuleList;
+      try {
+        rules = sheet.cssRules;
+      } catch {
+        continue;
+      }
+      collectRuleVariables(rules, selector, variables);
+    }
+  }
+
+  return variables;
+}
+
+function resolveVariables(markup: string, variables: Map<string, string>) {
+  const computed = getComputedStyle(document.documentElement);
+  // Dos pasadas: una variable puede apuntar a otra.
+  let resolved = markup;
+  for (let pass = 0; pass < 2; pass += 1) {
+    resolved = resolved.replace(
+      /var\((--[\w-]+)(?:,\s*([^()]+))?\)/g,
+      (match, name: string, fallback?: string) =>
+        variables.get(name) ??
+        (computed.getPropertyValue(name).trim() || fallback?.trim() || match),
+    );
+  }
+  return resolved;
+}
+
+// Recharts reserva abajo el espacio de la leyenda HTML: se recorta al
+// contenido real para que no quede una franja vacía.
+function getSourceBox(source: SVGSVGElement) {
+  const viewBox = source.viewBox.baseVal;
+  const rect = source.getBoundingClientRect();
+  const width = viewBox && viewBox.width > 0 ? viewBox.width : rect.width;
+  let height = viewBox && viewBox.height > 0 ? viewBox.height : rect.height;
+
+  try {
+    const content = source.getBBox();
+    if (content.height > 0) {
+      height = Math.min(height, Math.ceil(content.y + content.height + 8));
+    }
+  } catch {
+    // Sin layout (elemento oculto) se usa la caja completa.
+  }
+
+  return { width, height };
+}
+
+function layoutLegend(items: ChartLegendItem[], width: number) {
+  const rows: { item: ChartLegendItem; x: number }[][] = [];
+  let row: { item: ChartLegendItem; x: number }[] = [];
+  let x = 0;
+
+  for (const item of items) {
+    // Ancho aproximado: no hay medición de texto fuera del DOM.
+    const itemWidth = 26 + item.label.length * 7.2;
+    if (row.length > 0 && x + itemWidth > width) {
+      rows.push(row);
+      row = [];
+      x = 0;
+    }
+    row.push({ item, x });
+    x += itemWidth + 14;
+  }
+  if (row.length > 0) rows.push(row);
+
+  return rows;
+}
+
+export function buildChartImage(
+  source: SVGSVGElement,
+  meta: ChartImageMeta,
+  options: ChartImageOptions,
+): ChartImage {
+  const variables = readThemeVariables(options.theme);
+  const box = getSourceBox(source);
+  const legendRows = layoutLegend(meta.legend ?? [], box.width);
+  const chartTop = PADDING + HEADER_HEIGHT;
+  const legendTop = chartTop + box.height + 20;
+  const footerTop = legendTop + legendRows.length * LEGEND_ROW_HEIGHT + 12;
+  const width = box.width + PADDING * 2;
+  const height = footerTop + FOOTER_HEIGHT + PADDING / 2;
+
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll(IGNORED_SELECTOR).forEach((node) => node.remove());
+  clone.removeAttribute("class");
+  clone.removeAttribute("style");
+  clone.setAttribute("x", String(PADDING));
+  clone.setAttribute("y", String(chartTop));
+  clone.setAttribute("width", String(box.width));
+  clone.setAttribute("height", String(box.height));
+  clone.setAttribute("viewBox", `0 0 ${box.width} ${box.height}`);
+  const chart = new XMLSerializer().serializeToString(clone);
+
+  const footerText = [
+    meta.dataDate
+      ? `Datos al ${dateFormatter.format(new Date(`${meta.dataDate}T00:00:00Z`))}`
+      : null,
+    `Generado ${timestampFormatter.format(new Date())}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const legend = legendRows
+    .map((row, rowIndex) =>
+      row
+        .map(({ item, x }) => {
+          const y = legendTop + rowIndex * LEGEND_ROW_HEIGHT;
+          return `<circle cx="${PADDING + x + 6}" cy="${y + 8}" r="6" fill="${escapeXml(item.color)}"/><text x="${PADDING + x + 18}" y="${y + 12}" font-size="12" fill="var(--text-secondary)">${escapeXml(item.label)}</text>`;
+        })
+        .join(""),
+    )
+    .join("");
+
+  const watermark = options.watermark
+    ? `<text x="${width / 2}" y="${chartTop + box.height / 2}" text-anchor="middle" dominant-baseline="middle" font-size="${Math.round(box.width / 9)}" font-weight="700" fill="var(--foreground)" opacity="0.07" transform="rotate(-18 ${width / 2} ${chartTop + box.height / 2})">BitAtlas</text>`
+    : "";
+
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width * options.scale}" height="${height * options.scale}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    `<rect width="${width}" height="${height}" fill="var(--background-card)"/>`,
+    `<text x="${PADDING}" y="${PADDING + 22}" font-size="22" font-weight="600" fill="var(--foreground)">${escapeXml(meta.title)}</text>`,
+    meta.subtitle
+      ? `<text x="${PADDING}" y="${PADDING + 46}" font-size="13" fill="var(--text-secondary)">${escapeXml(meta.subtitle)}</text>`
+      : "",
+    `<text x="${width - PADDING}" y="${PADDING + 22}" text-anchor="end" font-size="16" font-weight="700" fill="var(--btc-gold)">BitAtlas</text>`,
+    chart,
+    watermark,
+    legend,
+    `<line x1="${PADDING}" x2="${width - PADDING}" y1="${footerTop}" y2="${footerTop}" stroke="var(--border-color)"/>`,
+    `<text x="${PADDING}" y="${footerTop + 26}" font-size="11" fill="var(--text-muted)">${escapeXml(footerText)}</text>`,
+    `<text x="${width - PADDING}" y="${footerTop + 26}" text-anchor="end" font-size="11" fill="var(--text-muted)">bitatlas · no es consejo financiero</text>`,
+    "</svg>",
+  ].join("");
+
+  return {
+    svg: resolveVariables(markup, variables),
+    width: width * options.scale,
+    height: height * options.scale,
+  };
+}
+
+export function renderChartPng(image: ChartImage): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([image.svg], { type: "image/svg+xml;charset=utf-8" }),
+    );
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas 2D no disponible"));
+        return;
+      }
+      context.drawImage(img, 0, 0, image.width, image.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("No se pudo generar el PNG")),
+      );
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("No se pudo dibujar el SVG"));
+    };
+    img.src = url;
+  });
+}
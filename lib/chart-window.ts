@@ -0,0 +1,108 @@
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Por debajo de un mes el precio realizado es prácticamente una recta.
+export const MIN_WINDOW_MS = 30 * DAY_MS;
+
+// Halvings: el preset "Ciclo" arranca en el último anterior al fin de los datos.
+const HALVING_DATES = ["2012-11-28", "2016-07-09", "2020-05-11", "2024-04-20"];
+
+export type DateWindow = {
+  start: number;
+  end: number;
+};
+
+export type RangePreset = "1y" | "4y" | "cycle" | "all";
+
+export const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: "1y", label: "1A" },
+  { id: "4y", label: "4A" },
+  { id: "cycle", label: "Ciclo" },
+  { id: "all", label: "Todo" },
+];
+
+export function toTime(date: string) {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+export function toDate(time: number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function getDataBounds(points: { date: string }[]): DateWindow | null {
+  if (points.length === 0) return null;
+  return {
+    start: toTime(points[0].date),
+    end: toTime(points[points.length - 1].date),
+  };
+}
+
+// Mantiene la ventana dentro de los datos y con un ancho mínimo; al chocar con
+// un borde se corre en vez de achicarse.
+export function clampWindow(range: DateWindow, bounds: DateWindow): DateWindow {
+  const boundsSpan = bounds.end - bounds.start;
+  const span = Math.min(
+    Math.max(range.end - range.start, Math.min(MIN_WINDOW_MS, boundsSpan)),
+    boundsSpan,
+  );
+  const start = Math.min(Math.max(range.start, bounds.start), bounds.end - span);
+  return { start, end: start + span };
+}
+
+// `anchor` (0 a 1) es el punto de la ventana que queda fijo, por ejemplo el
+// cursor; `factor` > 1 aleja y < 1 acerca.
+export function zoomWindow(
+  range: DateWindow,
+  bounds: DateWindow,
+  factor: number,
+  anchor: number,
+): DateWindow {
+  const span = (range.end - range.start) * factor;
+  const anchorTime = range.start + (range.end - range.start) * anchor;
+  return clampWindow(
+    { start: anchorTime - span * anchor, end: anchorTime + span * (1 - anchor) },
+    bounds,
+  );
+}
+
+export function panWindow(
+  range: DateWindow,
+  bounds: DateWindow,
+  deltaMs: number,
+): DateWindow {
+  return clampWindow(
+    { start: range.start + deltaMs, end: range.end + deltaMs },
+    bounds,
+  );
+}
+
+export function getPresetWindow(
+  preset: RangePreset,
+  bounds: DateWindow,
+): DateWindow {
+  if (preset === "all") return bounds;
+  if (preset === "cycle") {
+    const halving = HALVING_DATES.map(toTime)
+      .filter((time) => time < bounds.end)
+      .at(-1);
+    return clampWindow({ start: halving ?? bounds.start, end: bounds.end }, bounds);
+  }
+
+  const years = preset === "1y" ? 1 : 4;
+  return clampWindow(
+    { start: bounds.end - years * 365.25 * DAY_MS, end: bounds.end },
+    bounds,
+  );
+}
+
+// Compara por día: la ventana puede traer fracciones de día tras un zoom.
+export function isSameWindow(a: DateWindow, b: DateWindow) {
+  return toDate(a.start) === toDate(b.start) && toDate(a.end) === toDate(b.end);
+}
+
+export function getActivePreset(range: DateWindow, bounds: DateWindow) {
+  return (
+    RANGE_PRESETS.find(({ id }) =>
+      isSameWindow(range, getPresetWindow(id, bounds)),
+    )?.id ?? null
+  );
+}
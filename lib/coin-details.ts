@@ -0,0 +1,307 @@
+import {
+  fetchCryptoMarketsWithProvider,
+  MARKET_DATA_REVALIDATE_SECONDS,
+  type CryptoMarket,
+} from "@/lib/crypto-markets";
+import type { Currency } from "@/lib/currency";
+import {
+  convertHistory,
+  createFxConverter,
+  getLatestRate,
+  loadFxSeries,
+} from "@/lib/fx-rates";
+import { syncBtcPriceHistory } from "@/lib/history-sources";
+import { toIsoDate, type HistoryPoint } from "@/lib/price-history";
+import { fetchUpstreamJson } from "@/lib/upstream-fixtures";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  tuple,
+  validate,
+  type Infer,
+} from "@/lib/upstream-schema";
+
+const COINGECKO_COINS_URL = "https://api.coingecko.com/api/v3/coins";
+const COIN_ID_PATTERN = /^[a-z0-9-]{1,80}$/;
+
+export const COIN_HISTORY_DAYS = 365;
+
+export type CoinDetail = CryptoMarket & {
+  high24h: number | null;
+  low24h: number | null;
+  ath: number | null;
+  athDate: string | null;
+  atl: number | null;
+  atlDate: string | null;
+  atlChangePercentage: number | null;
+  totalSupply: number | null;
+  maxSupply: number | null;
+};
+
+export type CoinHistoryPoint = {
+  date: string;
+  price: number;
+  // Precio expresado en BTC; null si no hay cierre de BTC para esa fecha.
+  priceBtc: number | null;
+};
+
+export type CoinDetailResult = {
+  coin: CoinDetail;
+  history: CoinHistoryPoint[];
+  currency: Currency;
+  fxRate: number;
+  // "markets" indica que el detalle no respondió y se usó la fila del listado.
+  detailSource: "coingecko" | "markets";
+  historySource: string | null;
+  historyError: string | null;
+};
+
+// Diccionarios por moneda: no todas las monedas tienen cotización en USD.
+const usdValueSchema = nullable(object({ usd: optional(nullable(number())) }));
+const usdDateSchema = nullable(object({ usd: optional(nullable(string())) }));
+
+const coinGeckoCoinSchema = object({
+  id: string(),
+  symbol: string(),
+  name: string(),
+  market_cap_rank: nullable(number()),
+  market_data: object({
+    current_price: usdValueSchema,
+    market_cap: usdValueSchema,
+    total_volume: usdValueSchema,
+    high_24h: usdValueSchema,
+    low_24h: usdValueSchema,
+    price_change_percentage_24h: nullable(number()),
+    ath: usdValueSchema,
+    ath_change_percentage: usdValueSchema,
+    ath_date: usdDateSchema,
+    atl: usdValueSchema,
+    atl_change_percentage: usdValueSchema,
+    atl_date: usdDateSchema,
+    circulating_supply: nullable(number()),
+    total_supply: nullable(number()),
+    max_supply: nullable(number()),
+  }),
+});
+
+const coinGeckoChartSchema = object({
+  prices: array(tuple([number(), nullable(number())]), { minLength: 1 }),
+});
+
+type UsdValue = Infer<typeof usdValueSchema>;
+
+function usd(value: UsdValue) {
+  return value?.usd ?? null;
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function isCoinId(value: string) {
+  return COIN_ID_PATTERN.test(value);
+}
+
+async function fetchCoinGeckoDetail(id: string): Promise<CoinDetail> {
+  const url = new URL(`${COINGECKO_COINS_URL}/${id}`);
+  url.searchParams.set("localization", "false");
+  url.searchParams.set("tickers", "false");
+  url.searchParams.set("community_data", "false");
+  url.searchParams.set("developer_data", "false");
+
+  const payload = await fetchUpstreamJson(
+    `coingecko-coin-${id}`,
+    url.toString(),
+    { next: { revalidate: MARKET_DATA_REVALIDATE_SECONDS } },
+  );
+  const coin = validate("CoinGecko coin", coinGeckoCoinSchema, payload);
+  const data = coin.market_data;
+
+  return {
+    id: coin.id,
+    symbol: coin.symbol.toUpperCase(),
+    name: coin.name,
+    rank: coin.market_cap_rank,
+    currentPrice: usd(data.current_price),
+    marketCap: usd(data.market_cap),
+    totalVolume: usd(data.total_volume),
+    circulatingSupply: data.circulating_supply,
+    priceChange24h: data.price_change_percentage_24h,
+    athChangePercentage: usd(data.ath_change_percentage),
+    high24h: usd(data.high_24h),
+    low24h: usd(data.low_24h),
+    ath: usd(data.ath),
+    athDate: data.ath_date?.usd ?? null,
+    atl: usd(data.atl),
+    atlDate: data.atl_date?.usd ?? null,
+    atlChangePercentage: usd(data.atl_change_percentage),
+    totalSupply: data.total_supply,
+    maxSupply: data.max_supply,
+  };
+}
+
+// Sin el endpoint de detalle, el ATH se deduce de la distancia porcentual.
+function detailFromMarket(market: CryptoMarket): CoinDetail {
+  const ath =
+    market.currentPrice !== null && market.athChangePercentage !== null
+      ? market.currentPrice / (1 + market.athChangePercentage / 100)
+      : null;
+
+  return {
+    ...market,
+    high24h: null,
+    low24h: null,
+    ath,
+    athDate: null,
+    atl: null,
+    atlDate: null,
+    atlChangePercentage: null,
+    totalSupply: null,
+    maxSupply: null,
+  };
+}
+
+async function loadUsdDetail(id: string) {
+  try {
+    const coin = await fetchCoinGeckoDetail(id);
+    return { coin, source: "coingecko" as const };
+  } catch (error) {
+    let markets: CryptoMarket[];
+    try {
+      ({ markets } = await fetchCryptoMarketsWithProvider("USD"));
+    } catch {
+      throw error;
+    }
+
+    const market = markets.find((item) => item.id === id);
+    return market
+      ? { coin: detailFromMarket(market), source: "markets" as const }
+      : null;
+  }
+}
+
+async function fetchCoinGeckoHistory(id: string): Promise<HistoryPoint[]> {
+  const url = new URL(`${COINGECKO_COINS_URL}/${id}/market_chart`);
+  url.searchParams.set("vs_currency", "usd");
+  url.searchParams.set("days", String(COIN_HISTORY_DAYS));
+  url.searchParams.set("interval", "daily");
+
+  const payload = await fetchUpstreamJson(
+    `coingecko-chart-${id}`,
+    url.toString(),
+    { next: { revalidate: MARKET_DATA_REVALIDATE_SECONDS } },
+  );
+  const { prices } = validate(
+    "CoinGecko market chart",
+    coinGeckoChartSchema,
+    payload,
+  );
+
+  // El último punto es el precio en vivo del día: gana sobre el cierre previo.
+  const byDate = new Map<string, number>();
+  for (const [timestamp, price] of prices) {
+    if (price === null || price <= 0) continue;
+    byDate.set(toIsoDate(timestamp), price);
+  }
+
+  return Array.from(byDate, ([date, value]) => ({ date, value }));
+}
+
+// Para BTC el histórico local sirve de respaldo si CoinGecko no responde.
+async function loadUsdHistory(
+  id: string,
+  btcHistory: Promise<HistoryPoint[]>,
+) {
+  try {
+    return { points: await fetchCoinGeckoHistory(id), source: "CoinGecko" };
+  } catch (error) {
+    if (id !== "bitcoin") throw error;
+    const points = (await btcHistory).slice(-COIN_HISTORY_DAYS);
+    if (points.length === 0) throw error;
+    return { points, source: "charts.bitcoin.com" };
+  }
+}
+
+function scale(value: number | null, rate: number) {
+  return value === null ? null : value * rate;
+}
+
+export async function fetchCoinDetailResult(
+  id: string,
+  currency: Currency,
+): Promise<CoinDetailResult | null> {
+  const btcHistory = syncBtcPriceHistory().then((series) => series.points);
+  // Evita un unhandled rejection si nadie llega a esperar la promesa.
+  btcHistory.catch(() => undefined);
+
+  const history = loadUsdHistory(id, btcHistory).then(
+    (value) => ({ ok: true as const, ...value }),
+    (error: unknown) => ({
+      ok: false as const,
+      error: getErrorMessage(error),
+    }),
+  );
+
+  const [detail, historyResult, btcPoints, fx] = await Promise.all([
+    loadUsdDetail(id),
+    history,
+    btcHistory.catch(() => [] as HistoryPoint[]),
+    loadFxSeries(currency),
+  ]);
+
+  if (detail === null) {
+    return null;
+  }
+
+  const { rate } = getLatestRate(fx);
+  const coin: CoinDetail = {
+    ...detail.coin,
+    currentPrice: scale(detail.coin.currentPrice, rate),
+    marketCap: scale(detail.coin.marketCap, rate),
+    totalVolume: scale(detail.coin.totalVolume, rate),
+    high24h: scale(detail.coin.high24h, rate),
+    low24h: scale(detail.coin.low24h, rate),
+    ath: scale(detail.coin.ath, rate),
+    atl: scale(detail.coin.atl, rate),
+  };
+  const base = {
+    coin,
+    currency,
+    fxRate: rate,
+    detailSource: detail.source,
+  };
+
+  if (!historyResult.ok) {
+    return {
+      ...base,
+      history: [],
+      historySource: null,
+      historyError: historyResult.error,
+    };
+  }
+
+  const { points, source } = historyResult;
+  const converted = convertHistory(points, fx);
+  // Mismo arrastre que las series FX: fines de semana toman el último cierre.
+  const btcPriceAt = createFxConverter(btcPoints);
+
+  return {
+    ...base,
+    history: points.map((point, index) => ({
+      date: point.date,
+      price: converted[index].value,
+      priceBtc:
+        id === "bitcoin"
+          ? 1
+          : btcPoints.length > 0
+            ? point.value / btcPriceAt(point.date)
+            : null,
+    })),
+    historySource: source,
+    historyError: null,
+  };
+}
@@ -1,20 +1,16 @@
-export const MARKET_DATA_REVALIDATE_SECONDS = 300;
-
-const COINGECKO_MARKETS_URL =
-  "https://api.coingecko.com/api/v3/coins/markets";
-
-type CoinGeckoMarket = {
-  id?: unknown;
-  symbol?: unknown;
-  name?: unknown;
-  market_cap_rank?: unknown;
-  current_price?: unknown;
-  market_cap?: unknown;
-  total_volume?: unknown;
-  circulating_supply?: unknown;
-  price_change_percentage_24h?: unknown;
-  ath_change_percentage?: unknown;
-};
+import { DEFAULT_CURRENCY, type Currency } from "@/lib/currency";
+import { getLatestRate, loadFxSeries } from "@/lib/fx-rates";
+import {
+  getMarketProviderOrder,
+  type MarketProviderId,
+} from "@/lib/market-providers";
+import {
+  queryMarkets,
+  type MarketPaging,
+  type MarketQuery,
+} from "@/lib/market-query";
+
+export { MARKET_DATA_REVALIDATE_SECONDS } from "@/lib/market-providers";
 
 export type CryptoMarket = {
   id: string;
@@ -29,53 +25,129 @@ export type CryptoMarket = {
   athChangePercentage: number | null;
 };
 
-function asNumber(value: unknown) {
-  return typeof value === "number" && Number.isFinite(value) ? value : null;
+export type MarketProviderAttempt = {
+  provider: MarketProviderId;
+  ok: boolean;
+  error?: string;
+};
+
+export type CryptoMarketsResult = {
+  markets: CryptoMarket[];
+  provider: MarketProviderId;
+  providerLabel: string;
+  attempts: MarketProviderAttempt[];
+  // Moneda de los valores: la pedida, o USD si falló su cotización.
+  currency: Currency;
+  fxRate: number;
+  fxUnavailable: boolean;
+};
+
+export type CryptoMarketsPage = CryptoMarketsResult & {
+  query: MarketQuery;
+  paging: MarketPaging;
+};
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
 }
 
-function asString(value: unknown) {
-  return typeof value === "string" ? value : "";
+function scaleValue(value: number | null, rate: number) {
+  return value === null ? null : value * rate;
 }
 
-function mapMarket(item: CoinGeckoMarket): CryptoMarket {
+// Los proveedores cotizan en USD; el resto de las monedas sale de la serie FX.
+function convertMarket(market: CryptoMarket, rate: number): CryptoMarket {
   return {
-    id: asString(item.id),
-    symbol: asString(item.symbol).toUpperCase(),
-    name: asString(item.name),
-    rank: asNumber(item.market_cap_rank),
-    currentPrice: asNumber(item.current_price),
-    marketCap: asNumber(item.market_cap),
-    totalVolume: asNumber(item.total_volume),
-    circulatingSupply: asNumber(item.circulating_supply),
-    priceChange24h: asNumber(item.price_change_percentage_24h),
-    athChangePercentage: asNumber(item.ath_change_percentage),
+    ...market,
+    currentPrice: scaleValue(market.currentPrice, rate),
+    marketCap: scaleValue(market.marketCap, rate),
+    totalVolume: scaleValue(market.totalVolume, rate),
   };
 }
 
-export async function fetchCryptoMarkets(): Promise<CryptoMarket[]> {
-  const url = new URL(COINGECKO_MARKETS_URL);
-  url.searchParams.set("vs_currency", "usd");
-  url.searchParams.set("order", "market_cap_desc");
-  url.searchParams.set("per_page", "30");
-  url.searchParams.set("page", "1");
-  url.searchParams.set("sparkline", "false");
-  url.searchParams.set("price_change_percentage", "24h");
-
-  const response = await fetch(url.toString(), {
-    next: { revalidate: MARKET_DATA_REVALIDATE_SECONDS },
-    headers: {
-      accept: "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`CoinGecko responded with ${response.status}`);
+async function fetchUsdMarkets() {
+  const attempts: MarketProviderAttempt[] = [];
+
+  // Se prueban los proveedores en orden y se queda con el primero que responde.
+  for (const provider of getMarketProviderOrder()) {
+    try {
+      const markets = await provider.fetchMarkets();
+      if (markets.length === 0) {
+        throw new Error(`${provider.label} returned no markets`);
+      }
+
+      attempts.push({ provider: provider.id, ok: true });
+      return {
+        markets,
+        provider: provider.id,
+        providerLabel: provider.label,
+        attempts,
+      };
+    } catch (error) {
+      attempts.push({
+        provider: provider.id,
+        ok: false,
+        error: getErrorMessage(error),
+      });
+    }
   }
 
-  const payload: unknown = await response.json();
-  if (!Array.isArray(payload)) {
-    throw new Error("Unexpected market payload");
+  throw new Error(
+    `All market providers failed: ${attempts
+      .map((attempt) => `${attempt.provider} (${attempt.error})`)
+      .join(", ")}`,
+  );
+}
+
+async function loadMarketRate(currency: Currency) {
+  try {
+    return getLatestRate(await loadFxSeries(currency)).rate;
+  } catch {
+    return null;
   }
+}
+
+// Sin cotización la tabla sigue en USD: una caída del FX no tiene que tirar
+// los mercados que sí respondieron.
+export async function fetchCryptoMarketsWithProvider(
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<CryptoMarketsResult> {
+  const [result, rate] = await Promise.all([
+    fetchUsdMarkets(),
+    loadMarketRate(currency),
+  ]);
+
+  if (rate === null) {
+    return { ...result, currency: "USD", fxRate: 1, fxUnavailable: true };
+  }
+
+  return {
+    ...result,
+    markets:
+      currency === "USD"
+        ? result.markets
+        : result.markets.map((market) => convertMarket(market, rate)),
+    currency,
+    fxRate: rate,
+    fxUnavailable: false,
+  };
+}
+
+export async function fetchCryptoMarkets(
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<CryptoMarket[]> {
+  const { markets } = await fetchCryptoMarketsWithProvider(currency);
+  return markets;
+}
+
+// Filtros y orden se aplican después de convertir, así los mínimos quedan en la
+// moneda pedida.
+export async function fetchCryptoMarketsPage(
+  query: MarketQuery,
+  currency: Currency = DEFAULT_CURRENCY,
+): Promise<CryptoMarketsPage> {
+  const result = await fetchCryptoMarketsWithProvider(currency);
+  const { markets, paging } = queryMarkets(result.markets, query);
 
-  return payload.map((item) => mapMarket((item ?? {}) as CoinGeckoMarket));
+  return { ...result, markets, query, paging };
 }
@@ -0,0 +1,85 @@
+export const SUPPORTED_CURRENCIES = ["USD", "EUR", "ARS"] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: Currency = "USD";
+export const CURRENCY_COOKIE = "currency";
+export const CURRENCY_CHANGE_EVENT = "bitatlas:currency-change";
+
+const CURRENCY_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+export const CURRENCY_LOCALES: Record<Currency, string> = {
+  USD: "en-US",
+  EUR: "es-ES",
+  ARS: "es-AR",
+};
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  USD: "Dólar estadounidense",
+  EUR: "Euro",
+  ARS: "Peso argentino",
+};
+
+export function isCurrency(value: unknown): value is Currency {
+  return (
+    typeof value === "string" &&
+    (SUPPORTED_CURRENCIES as readonly string[]).includes(value)
+  );
+}
+
+export function parseCurrency(value: string | null | undefined): Currency {
+  const normalized = value?.trim().toUpperCase();
+  return isCurrency(normalized) ? normalized : DEFAULT_CURRENCY;
+}
+
+export function getCurrencyFormatter(
+  currency: Currency,
+  options: Intl.NumberFormatOptions = {},
+  locale: string = CURRENCY_LOCALES[currency],
+) {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    ...options,
+  });
+}
+
+// Lectura/escritura de la preferencia en el navegador; el server lee la misma cookie.
+export function readCurrencyCookie(cookieHeader: string): Currency {
+  const match = cookieHeader
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${CURRENCY_COOKIE}=`));
+
+  return parseCurrency(match?.slice(CURRENCY_COOKIE.length + 1));
+}
+
+export function writeCurrencyCookie(currency: Currency) {
+  document.cookie = `${CURRENCY_COOKIE}=${currency}; path=/; max-age=${CURRENCY_COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+  window.dispatchEvent(new Event(CURRENCY_CHANGE_EVENT));
+}
+
+// Tipos de cambio del peso frente al dólar: oficial, MEP (bolsa) y blue.
+export const ARS_RATE_KINDS = ["oficial", "mep", "blue"] as const;
+
+export type ArsRateKind = (typeof ARS_RATE_KINDS)[number];
+
+export const ARS_RATE_LABELS: Record<ArsRateKind, string> = {
+  oficial: "Oficial",
+  mep: "MEP",
+  blue: "Blue",
+};
+
+export const ARS_COMPARE_COOKIE = "ars-compare";
+
+export function readArsCompareCookie(cookieHeader: string): boolean {
+  return cookieHeader
+    .split(";")
+    .map((part) => part.trim())
+    .includes(`${ARS_COMPARE_COOKIE}=1`);
+}
+
+export function writeArsCompareCookie(enabled: boolean) {
+  document.cookie = `${ARS_COMPARE_COOKIE}=${enabled ? 1 : 0}; path=/; max-age=${CURRENCY_COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+  window.dispatchEvent(new Event(CURRENCY_CHANGE_EVENT));
+}
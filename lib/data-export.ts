@@ -0,0 +1,173 @@
+import type { CoinHistoryPoint } from "@/lib/coin-details";
+import type { CryptoMarket } from "@/lib/crypto-markets";
+import type { DcaBacktestPurchase } from "@/lib/dca-backtest";
+import type { DcaPurchase } from "@/lib/dca-calculator";
+import type { MvrvPoint } from "@/lib/realized-metrics";
+
+export const EXPORT_FORMATS = ["json", "csv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type CsvColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+};
+
+type CsvValue = ReturnType<CsvColumn<unknown>["value"]>;
+
+// Ausente = JSON; un valor desconocido devuelve null para responder 400.
+export function parseExportFormat(
+  value: string | null | undefined,
+): ExportFormat | null {
+  if (value === null || value === undefined) return "json";
+  const normalized = value.trim().toLowerCase();
+  return (EXPORT_FORMATS as readonly string[]).includes(normalized)
+    ? (normalized as ExportFormat)
+    : null;
+}
+
+function formatCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  // Un texto que empieza con =, +, - o @ se interpretaría como fórmula en la
+  // planilla; el apóstrofo lo fuerza a texto.
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180: separador coma, fin de línea CRLF y números sin formato regional.
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [
+    columns.map((column) => formatCsvValue(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => formatCsvValue(column.value(row))).join(","),
+    ),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function csvResponse(
+  csv: string,
+  filename: string,
+  headers: Record<string, string> = {},
+) {
+  return new Response(csv, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+export function getExportFilename(name: string, format: ExportFormat) {
+  return `bitatlas-${name}.${format}`;
+}
+
+// Solo en el navegador. La URL se libera más tarde: Safari y Firefox cancelan la
+// descarga de un blob grande si se revoca enseguida.
+const REVOKE_DELAY_MS = 60_000;
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href), REVOKE_DELAY_MS);
+}
+
+type BoundaryExportRow = {
+  date: string;
+  price?: number | null;
+  baseline: number;
+  boundaries: number[];
+};
+
+// zone_N es el límite inferior de la zona N; zone_top cierra la zona más alta.
+export function getRainbowBoundaryColumns(
+  zoneCount: number,
+  includePrice: boolean,
+): CsvColumn<BoundaryExportRow>[] {
+  const columns: CsvColumn<BoundaryExportRow>[] = [
+    { header: "date", value: (row) => row.date },
+  ];
+  if (includePrice) columns.push({ header: "price", value: (row) => row.price });
+  columns.push({ header: "baseline", value: (row) => row.baseline });
+  for (let zone = 0; zone < zoneCount; zone += 1) {
+    columns.push({ header: `zone_${zone}`, value: (row) => row.boundaries[zone] });
+  }
+  columns.push({ header: "zone_top", value: (row) => row.boundaries[zoneCount] });
+  return columns;
+}
+
+export const PRICE_HISTORY_COLUMNS: CsvColumn<{ date: string; value: number }>[] =
+  [
+    { header: "date", value: (row) => row.date },
+    { header: "price", value: (row) => row.value },
+  ];
+
+export const REALIZED_COLUMNS: CsvColumn<
+  MvrvPoint & { date: string; realizedPrice: number; btcPrice: number }
+>[] = [
+  { header: "date", value: (row) => row.date },
+  { header: "btc_price", value: (row) => row.btcPrice },
+  { header: "realized_price", value: (row) => row.realizedPrice },
+  { header: "mvrv", value: (row) => row.mvrv },
+  { header: "mvrv_z_score", value: (row) => row.mvrvZScore },
+];
+
+export const OHLC_COLUMNS: CsvColumn<{
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}>[] = [
+  {
+    header: "date",
+    value: (row) => new Date(row.timestamp * 1000).toISOString(),
+  },
+  { header: "timestamp", value: (row) => row.timestamp },
+  { header: "open", value: (row) => row.open },
+  { header: "high", value: (row) => row.high },
+  { header: "low", value: (row) => row.low },
+  { header: "close", value: (row) => row.close },
+  { header: "volume", value: (row) => row.volume },
+];
+
+export const MARKET_COLUMNS: CsvColumn<CryptoMarket>[] = [
+  { header: "rank", value: (row) => row.rank },
+  { header: "id", value: (row) => row.id },
+  { header: "symbol", value: (row) => row.symbol.toUpperCase() },
+  { header: "name", value: (row) => row.name },
+  { header: "price", value: (row) => row.currentPrice },
+  { header: "market_cap", value: (row) => row.marketCap },
+  { header: "volume_24h", value: (row) => row.totalVolume },
+  { header: "circulating_supply", value: (row) => row.circulatingSupply },
+  { header: "change_24h_pct", value: (row) => row.priceChange24h },
+  { header: "ath_change_pct", value: (row) => row.athChangePercentage },
+];
+
+export const COIN_HISTORY_COLUMNS: CsvColumn<CoinHistoryPoint>[] = [
+  { header: "date", value: (row) => row.date },
+  { header: "price", value: (row) => row.price },
+  { header: "price_btc", value: (row) => row.priceBtc },
+];
+
+export const DCA_PURCHASE_COLUMNS: CsvColumn<DcaPurchase>[] = [
+  { header: "purchase", value: (row) => row.index },
+  { header: "price", value: (row) => row.price },
+  { header: "invested", value: (row) => row.invested },
+  { header: "btc_bought", value: (row) => row.bitcoinBought },
+  { header: "fee", value: (row) => row.fee },
+  { header: "cumulative_invested", value: (row) => row.cumulativeInvested },
+  { header: "cumulative_btc", value: (row) => row.cumulativeBitcoin },
+];
+
+export const DCA_BACKTEST_COLUMNS: CsvColumn<DcaBacktestPurchase>[] = [
+  { header: "purchase", value: (row) => row.index },
+  { header: "date", value: (row) => row.date },
+  ...DCA_PURCHASE_COLUMNS.slice(1),
+];
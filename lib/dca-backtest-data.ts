@@ -0,0 +1,90 @@
+import type { Currency } from "@/lib/currency";
+import { runDcaBacktest, type DcaBacktestInputs } from "@/lib/dca-backtest";
+import type { DcaInputs } from "@/lib/dca-calculator";
+import { calibrateVolatility } from "@/lib/dca-paths";
+import { convertHistory, loadFxSeries } from "@/lib/fx-rates";
+import { syncBtcPriceHistory } from "@/lib/history-sources";
+import { describeUpstreamError } from "@/lib/upstream-schema";
+
+const BTC_HISTORY_SOURCE = "charts.bitcoin.com";
+
+// Recuerda cuál de las dos series falló: el histórico de BTC o la cotización.
+class DcaSeriesError extends Error {
+  readonly source: string;
+
+  constructor(source: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "DcaSeriesError";
+    this.source = source;
+  }
+}
+
+function withSource<T>(promise: Promise<T>, source: string) {
+  return promise.catch((error: unknown) => {
+    throw new DcaSeriesError(source, error);
+  });
+}
+
+function loadSeries(currency: Currency) {
+  return Promise.all([
+    withSource(syncBtcPriceHistory(), BTC_HISTORY_SOURCE),
+    withSource(loadFxSeries(currency), `USD/${currency} FX providers`),
+  ]);
+}
+
+// Cuerpo de error de las rutas del DCA, atribuido a la serie que falló.
+export function describeDcaSeriesError(error: unknown) {
+  return error instanceof DcaSeriesError
+    ? describeUpstreamError(error.cause, error.source)
+    : describeUpstreamError(error, BTC_HISTORY_SOURCE);
+}
+
+// Mismo histórico diario que el Rainbow Chart, convertido a la moneda del plan
+// con la cotización de cada día.
+export async function loadDcaBacktest(inputs: DcaBacktestInputs) {
+  const [history, fx] = await loadSeries(inputs.currency);
+
+  return {
+    result: runDcaBacktest(convertHistory(history.points, fx), inputs),
+    source: history.meta.source,
+    syncedAt: history.meta.syncedAt,
+    stale: history.stale || fx.stale,
+    staleReason: history.staleReason,
+  };
+}
+
+// Backtest de un enlace compartido, para su vista previa. Null si el histórico
+// no está disponible o ninguna compra entra en él.
+export async function loadScenarioBacktest(
+  scenario: DcaInputs,
+  startDate: string,
+) {
+  try {
+    const { result } = await loadDcaBacktest({
+      startDate,
+      amountPerBuy: scenario.amountPerBuy,
+      numberOfBuys: scenario.numberOfBuys,
+      frequency: scenario.frequency,
+      currency: scenario.currency,
+      fees: scenario.fees,
+      strategy: scenario.strategy,
+    });
+    return result;
+  } catch {
+    return null;
+  }
+}
+
+// Volatilidad histórica para los caminos aleatorios del simulador, medida
+// en la moneda del plan.
+export async function loadDcaVolatility(currency: Currency) {
+  const [history, fx] = await loadSeries(currency);
+
+  return {
+    calibration: calibrateVolatility(convertHistory(history.points, fx)),
+    source: history.meta.source,
+    syncedAt: history.meta.syncedAt,
+    stale: history.stale || fx.stale,
+    staleReason: history.staleReason,
+  };
+}
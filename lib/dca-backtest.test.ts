@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { MAX_DCA_AMOUNT } from "@/lib/dca-calculator";
+import {
+  parseDcaBacktestQuery,
+  runDcaBacktest,
+  type DcaBacktestInputs,
+  type DcaBacktestPurchase,
+} from "@/lib/dca-backtest";
+import { NO_DCA_FEES } from "@/lib/dca-fees";
+import { DEFAULT_DCA_STRATEGY } from "@/lib/dca-strategies";
+import type { HistoryPoint } from "@/lib/price-history";
+
+const INPUTS: DcaBacktestInputs = {
+  startDate: "2024-01-01",
+  amountPerBuy: 100,
+  numberOfBuys: 3,
+  frequency: "weekly",
+  currency: "USD",
+  fees: NO_DCA_FEES,
+  strategy: DEFAULT_DCA_STRATEGY,
+};
+
+// Un precio por día desde el 1 de enero de 2024.
+function dailyHistory(values: number[]): HistoryPoint[] {
+  return values.map((value, index) => ({
+    date: `2024-01-${String(index + 1).padStart(2, "0")}`,
+    value,
+  }));
+}
+
+// Compras el 1, el 8 y el 15: cae a la mitad, se cuadruplica y vuelve a 100.
+const HISTORY = dailyHistory([
+  100, 50, 50, 50, 50, 50, 50, 50, 200, 200, 200, 200, 200, 200, 100,
+]);
+
+describe("runDcaBacktest", () => {
+  it("buys on schedule and values the plan at the last close", () => {
+    const result = runDcaBacktest(HISTORY, INPUTS);
+
+    expect(result?.purchases.map(({ date }: DcaBacktestPurchase) => date)).toEqual([
+      "2024-01-01",
+      "2024-01-08",
+      "2024-01-15",
+    ]);
+    expect(result?.summary).toMatchObject({
+      totalInvested: 300,
+      totalBitcoin: 4,
+      averageBuyPrice: 75,
+      currentValue: 400,
+      lumpSumBitcoin: 3,
+      uninvested: 0,
+    });
+    expect(result?.summary.profitLossPercentage).toBeCloseTo(33.33, 2);
+    expect(result?.endDate).toBe("2024-01-15");
+  });
+
+  it("measures drawdown from the high-water mark net of contributions", () => {
+    const result = runDcaBacktest(HISTORY, INPUTS);
+
+    // La compra del 15 sube el máximo a 700 y el plan vale 400 (-42,9%), pero
+    // la peor caída sigue siendo la del 2 de enero.
+    expect(result?.maxDrawdown).toEqual({
+      percentage: -50,
+      peakDate: "2024-01-01",
+      troughDate: "2024-01-02",
+    });
+  });
+
+  it("counts days under the invested capital", () => {
+    const result = runDcaBacktest(HISTORY, INPUTS);
+
+    expect(result?.underwater.days).toBe(7);
+    expect(result?.underwater.longestDays).toBe(7);
+    expect(result?.underwater.percentage).toBeCloseTo((7 / 15) * 100, 6);
+  });
+
+  it("buys on the next day with a price when the scheduled one is missing", () => {
+    const history = HISTORY.filter((point) => point.date !== "2024-01-08");
+    const result = runDcaBacktest(history, INPUTS);
+
+    expect(result?.purchases[1]).toMatchObject({
+      date: "2024-01-09",
+      price: 200,
+    });
+  });
+
+  it("starts at the first stored price and stops at the last close", () => {
+    const result = runDcaBacktest(HISTORY.slice(0, 10), {
+      ...INPUTS,
+      startDate: "2023-06-01",
+    });
+
+    expect(result?.purchases.map(({ date }: DcaBacktestPurchase) => date)).toEqual([
+      "2024-01-01",
+      "2024-01-08",
+    ]);
+    expect(result?.requestedBuys).toBe(3);
+  });
+
+  it("returns null when no buy fits in the history", () => {
+    expect(runDcaBacktest(HISTORY, { ...INPUTS, startDate: "2024-02-01" })).toBe(
+      null,
+    );
+    expect(runDcaBacktest([], INPUTS)).toBe(null);
+  });
+
+  it("reports contributions still below the minimum order as uninvested", () => {
+    const result = runDcaBacktest(HISTORY, {
+      ...INPUTS,
+      fees: { ...NO_DCA_FEES, exchange: "custom", minimumOrder: 150 },
+    });
+
+    expect(result?.purchases.map((purchase) => purchase.invested)).toEqual([
+      0, 200, 0,
+    ]);
+    expect(result?.summary.totalInvested).toBe(200);
+    expect(result?.summary.uninvested).toBe(100);
+  });
+});
+
+describe("parseDcaBacktestQuery", () => {
+  const query = (amount: string) =>
+    parseDcaBacktestQuery(
+      new URLSearchParams({
+        from: "2024-01-01",
+        amount,
+        buys: "3",
+        frequency: "weekly",
+      }),
+    );
+
+  it("reads the shared scenario params", () => {
+    expect(query("100")).toEqual({ ok: true, value: INPUTS });
+  });
+
+  it("bounds the amount like the calculator inputs", () => {
+    expect(query(String(MAX_DCA_AMOUNT - 1)).ok).toBe(true);
+    expect(query(String(MAX_DCA_AMOUNT))).toEqual({
+      ok: false,
+      error: "Invalid amount",
+    });
+    expect(query("1e308")).toEqual({ ok: false, error: "Invalid amount" });
+    expect(query("0")).toEqual({ ok: false, error: "Invalid amount" });
+  });
+});
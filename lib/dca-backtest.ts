@@ -0,0 +1,291 @@
+import { parseCurrency, type Currency } from "@/lib/currency";
+import {
+  DCA_FREQUENCIES,
+  MAX_DCA_AMOUNT,
+  MAX_NUMBER_OF_BUYS,
+  summarizeDcaPurchases,
+  type DcaFrequency,
+  type DcaPurchase,
+  type DcaResult,
+} from "@/lib/dca-calculator";
+import {
+  NO_DCA_FEES,
+  parseDcaFees,
+  placeDcaOrder,
+  type DcaFees,
+} from "@/lib/dca-fees";
+import {
+  DEFAULT_DCA_STRATEGY,
+  getDcaContribution,
+  parseDcaStrategy,
+  type DcaStrategy,
+} from "@/lib/dca-strategies";
+import type { HistoryPoint } from "@/lib/price-history";
+import { parseForecastDate } from "@/lib/rainbow-forecast";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Por defecto el backtest arranca tres años atrás, a principio de mes.
+const DEFAULT_BACKTEST_YEARS = 3;
+
+export type DcaBacktestInputs = {
+  // Fecha de la primera compra (YYYY-MM-DD).
+  startDate: string;
+  amountPerBuy: number;
+  numberOfBuys: number;
+  frequency: DcaFrequency;
+  currency: Currency;
+  fees: DcaFees;
+  strategy: DcaStrategy;
+};
+
+export type DcaBacktestPurchase = DcaPurchase & {
+  // Día en que se ejecutó: el programado o el siguiente con precio.
+  date: string;
+};
+
+export type DcaDrawdown = {
+  // Peor caída del valor del plan desde su máximo, en % (0 si nunca cayó).
+  percentage: number;
+  peakDate: string | null;
+  troughDate: string | null;
+};
+
+export type DcaUnderwater = {
+  // Días en que el plan valía menos que lo invertido hasta ese momento.
+  days: number;
+  longestDays: number;
+  // Proporción sobre todos los días entre la primera compra y el último cierre.
+  percentage: number;
+};
+
+export type DcaBacktestResult = DcaResult & {
+  purchases: DcaBacktestPurchase[];
+  // Compras pedidas; puede haber menos si el calendario pasa el último cierre.
+  requestedBuys: number;
+  startDate: string;
+  // Último cierre del histórico: a ese precio se valúa el plan.
+  endDate: string;
+  finalPrice: number;
+  maxDrawdown: DcaDrawdown;
+  underwater: DcaUnderwater;
+};
+
+type ParsedBacktestQuery =
+  | { ok: true; value: DcaBacktestInputs }
+  | { ok: false; error: string };
+
+// Mismos nombres que el escenario compartido de la calculadora.
+export function parseDcaBacktestQuery(
+  searchParams: URLSearchParams,
+): ParsedBacktestQuery {
+  const startDate = parseForecastDate(searchParams.get("from"));
+  const amountPerBuy = Number(searchParams.get("amount"));
+  const numberOfBuys = Number(searchParams.get("buys"));
+  const frequency = searchParams.get("frequency")?.trim().toLowerCase();
+
+  if (!startDate) {
+    return { ok: false, error: "Invalid date" };
+  }
+  if (
+    !(
+      Number.isFinite(amountPerBuy) &&
+      amountPerBuy > 0 &&
+      amountPerBuy < MAX_DCA_AMOUNT
+    )
+  ) {
+    return { ok: false, error: "Invalid amount" };
+  }
+  if (
+    !(
+      Number.isInteger(numberOfBuys) &&
+      numberOfBuys >= 1 &&
+      numberOfBuys <= MAX_NUMBER_OF_BUYS
+    )
+  ) {
+    return { ok: false, error: "Invalid buys" };
+  }
+  const validFrequency = DCA_FREQUENCIES.find((item) => item === frequency);
+  if (!validFrequency) {
+    return { ok: false, error: "Invalid frequency" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      startDate,
+      amountPerBuy,
+      numberOfBuys,
+      frequency: validFrequency,
+      currency: parseCurrency(searchParams.get("currency")),
+      fees: parseDcaFees(searchParams) ?? NO_DCA_FEES,
+      strategy: parseDcaStrategy(searchParams) ?? DEFAULT_DCA_STRATEGY,
+    },
+  };
+}
+
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Las compras mensuales caen el mismo día del mes; en meses más cortos, el
+// último día (31 de enero → 28 de febrero → 31 de marzo).
+function addMonths(date: string, months: number) {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+export function getScheduledBuyDate(
+  startDate: string,
+  frequency: DcaFrequency,
+  index: number,
+) {
+  switch (frequency) {
+    case "weekly":
+      return addDays(startDate, index * 7);
+    case "biweekly":
+      return addDays(startDate, index * 14);
+    case "monthly":
+      return addMonths(startDate, index);
+  }
+}
+
+export function getDefaultBacktestStart(now: Date = new Date()) {
+  const year = now.getUTCFullYear() - DEFAULT_BACKTEST_YEARS;
+  return new Date(Date.UTC(year, now.getUTCMonth(), 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Compra en cada fecha programada (o el primer día siguiente con precio) y
+// recorre el histórico diario hasta el último cierre para medir caídas.
+// Devuelve null si ninguna compra entra en el histórico.
+export function runDcaBacktest(
+  points: HistoryPoint[],
+  inputs: DcaBacktestInputs,
+): DcaBacktestResult | null {
+  const history = points.filter((point) => point.value > 0);
+  if (history.length === 0) return null;
+
+  // Antes del primer precio conocido no hay nada que comprar.
+  const startDate =
+    inputs.startDate < history[0].date ? history[0].date : inputs.startDate;
+  const purchases: DcaBacktestPurchase[] = [];
+  let cumulativeInvested = 0;
+  let cumulativeBitcoin = 0;
+  let pending = 0;
+  let previousPrice: number | null = null;
+  let highWaterMark = 0;
+  let peakDate: string | null = null;
+  const maxDrawdown: DcaDrawdown = {
+    percentage: 0,
+    peakDate: null,
+    troughDate: null,
+  };
+  let underwaterDays = 0;
+  let underwaterStreak = 0;
+  let longestUnderwater = 0;
+  let trackedDays = 0;
+  let nextBuy = getScheduledBuyDate(startDate, inputs.frequency, 0);
+
+  for (const point of history) {
+    if (point.date < nextBuy && purchases.length === 0) continue;
+
+    // Si faltan días en el histórico, varias compras pueden caer juntas.
+    while (purchases.length < inputs.numberOfBuys && point.date >= nextBuy) {
+      const contribution = getDcaContribution(
+        inputs.strategy,
+        inputs.amountPerBuy,
+        inputs.frequency,
+        {
+          index: purchases.length,
+          price: point.value,
+          previousPrice,
+          holdings: cumulativeBitcoin * point.value + pending,
+        },
+      );
+      const order = placeDcaOrder(
+        inputs.fees,
+        pending,
+        contribution,
+        point.value,
+      );
+      pending = order.pending;
+      previousPrice = point.value;
+      cumulativeInvested += order.invested;
+      cumulativeBitcoin += order.bitcoinBought;
+      // Un aporte no es recuperación: el máximo de referencia sube igual.
+      highWaterMark += order.invested;
+      purchases.push({
+        index: purchases.length + 1,
+        date: point.date,
+        price: point.value,
+        invested: order.invested,
+        bitcoinBought: order.bitcoinBought,
+        fee: order.fee,
+        cumulativeInvested,
+        cumulativeBitcoin,
+      });
+      nextBuy = getScheduledBuyDate(
+        startDate,
+        inputs.frequency,
+        purchases.length,
+      );
+    }
+
+    const value = cumulativeBitcoin * point.value;
+    if (value >= highWaterMark) {
+      highWaterMark = value;
+      peakDate = point.date;
+    }
+    // Sin órdenes ejecutadas (mínimo de orden) todavía no hay nada que caiga.
+    const drawdown =
+      highWaterMark > 0 ? (value / highWaterMark - 1) * 100 : 0;
+    if (drawdown < maxDrawdown.percentage) {
+      maxDrawdown.percentage = drawdown;
+      maxDrawdown.peakDate = peakDate;
+      maxDrawdown.troughDate = point.date;
+    }
+
+    trackedDays += 1;
+    if (value < cumulativeInvested) {
+      underwaterDays += 1;
+      underwaterStreak += 1;
+      longestUnderwater = Math.max(longestUnderwater, underwaterStreak);
+    } else {
+      underwaterStreak = 0;
+    }
+  }
+
+  if (purchases.length === 0) return null;
+
+  const last = history[history.length - 1];
+
+  return {
+    currency: inputs.currency,
+    purchases,
+    summary: summarizeDcaPurchases(
+      purchases,
+      last.value,
+      inputs.fees,
+      pending,
+    ),
+    requestedBuys: inputs.numberOfBuys,
+    startDate: purchases[0].date,
+    endDate: last.date,
+    finalPrice: last.value,
+    maxDrawdown,
+    underwater: {
+      days: underwaterDays,
+      longestDays: longestUnderwater,
+      percentage: trackedDays > 0 ? (underwaterDays / trackedDays) * 100 : 0,
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DCA_INPUTS,
+  getScenarioInputs,
+  MAX_NUMBER_OF_BUYS,
+  parseDcaScenario,
+  toDcaSearchParams,
+  type DcaInputs,
+} from "@/lib/dca-calculator";
+import { DCA_EXCHANGE_PRESETS } from "@/lib/dca-fees";
+import { DEFAULT_DCA_STRATEGY } from "@/lib/dca-strategies";
+
+const SCENARIO: DcaInputs = {
+  amountPerBuy: 250.5,
+  numberOfBuys: 36,
+  startingPrice: 58_000,
+  endingPrice: 120_000,
+  frequency: "biweekly",
+  currency: "EUR",
+  pricePath: "stochastic",
+  volatility: 0.75,
+  seed: 42,
+  fees: DCA_EXCHANGE_PRESETS[2].fees,
+  strategy: { ...DEFAULT_DCA_STRATEGY, type: "drop-boost", boost: 3 },
+};
+
+describe("toDcaSearchParams", () => {
+  it("round-trips through parseDcaScenario", () => {
+    const scenario = parseDcaScenario(toDcaSearchParams(SCENARIO));
+
+    expect(getScenarioInputs(scenario)).toEqual(SCENARIO);
+    expect(scenario.mode).toBeUndefined();
+  });
+
+  it("round-trips the default inputs", () => {
+    const scenario = parseDcaScenario(toDcaSearchParams(DEFAULT_DCA_INPUTS));
+
+    expect(getScenarioInputs(scenario)).toEqual(DEFAULT_DCA_INPUTS);
+  });
+
+  it("opens the backtest from the given date", () => {
+    const scenario = parseDcaScenario(toDcaSearchParams(SCENARIO, "2022-01-01"));
+
+    expect(scenario).toMatchObject({ mode: "backtest", startDate: "2022-01-01" });
+    expect(getScenarioInputs(scenario)).toEqual(SCENARIO);
+  });
+
+  it("accepts the record that Next.js passes as searchParams", () => {
+    const record = Object.fromEntries(toDcaSearchParams(SCENARIO));
+
+    expect(getScenarioInputs(parseDcaScenario(record))).toEqual(SCENARIO);
+  });
+});
+
+describe("parseDcaScenario", () => {
+  it("drops out-of-range and garbage params so the defaults apply", () => {
+    const scenario = parseDcaScenario(
+      new URLSearchParams({
+        amount: "-5",
+        buys: String(MAX_NUMBER_OF_BUYS + 1),
+        start: "1e13",
+        end: "abc",
+        frequency: "daily",
+        currency: "JPY",
+        mode: "live",
+        from: "2022-13-45",
+        path: "random",
+        vol: "9",
+        seed: "1.5",
+        exchange: "mtgox",
+        strategy: "martingale",
+      }),
+    );
+
+    expect(scenario).toEqual({});
+    expect(getScenarioInputs(scenario)).toBe(null);
+  });
+
+  it("keeps the valid params next to the invalid ones", () => {
+    expect(
+      parseDcaScenario(
+        new URLSearchParams("amount=100&buys=0&frequency=WEEKLY&currency=ars"),
+      ),
+    ).toEqual({ amountPerBuy: 100, frequency: "weekly", currency: "ARS" });
+  });
+
+  it("fills the optional price model from the defaults", () => {
+    const scenario = parseDcaScenario(
+      new URLSearchParams(
+        "amount=100&buys=12&start=60000&end=80000&frequency=monthly&currency=USD",
+      ),
+    );
+
+    expect(getScenarioInputs(scenario)).toEqual({
+      ...DEFAULT_DCA_INPUTS,
+      amountPerBuy: 100,
+      startingPrice: 60_000,
+      endingPrice: 80_000,
+    });
+  });
+});
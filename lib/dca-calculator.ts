@@ -1,4 +1,55 @@
-export type DcaFrequency = "weekly" | "biweekly" | "monthly";
+import {
+  DEFAULT_CURRENCY,
+  getCurrencyFormatter,
+  isCurrency,
+  type Currency,
+} from "@/lib/currency";
+import type { DcaBacktestResult } from "@/lib/dca-backtest";
+import {
+  buyBitcoin,
+  DCA_EXCHANGE_LABELS,
+  DCA_FEE_PARAMS,
+  getWithdrawalFee,
+  hasDcaFees,
+  NO_DCA_FEES,
+  parseDcaFees,
+  placeDcaOrder,
+  scaleDcaFees,
+  setDcaFeeParams,
+  summarizeDcaFees,
+  type DcaFees,
+} from "@/lib/dca-fees";
+import type { DcaMonteCarloResult } from "@/lib/dca-monte-carlo";
+import {
+  buildPricePath,
+  DCA_PRICE_PATH_LABELS,
+  DCA_PRICE_PATHS,
+  DEFAULT_BTC_VOLATILITY,
+  isRandomPricePath,
+  MAX_VOLATILITY,
+  MIN_VOLATILITY,
+  type DcaPricePath,
+} from "@/lib/dca-paths";
+import {
+  DCA_STRATEGY_LABELS,
+  DCA_STRATEGY_PARAMS,
+  DEFAULT_DCA_STRATEGY,
+  getDcaContribution,
+  parseDcaStrategy,
+  setDcaStrategyParams,
+  type DcaStrategy,
+} from "@/lib/dca-strategies";
+import { readParam, type QueryInput } from "@/lib/query-params";
+import { parseForecastDate } from "@/lib/rainbow-forecast";
+
+export const DCA_FREQUENCIES = ["weekly", "biweekly", "monthly"] as const;
+
+export type DcaFrequency = (typeof DCA_FREQUENCIES)[number];
+
+// Simulación con precios inventados o backtest con el histórico real.
+export const DCA_MODES = ["simulation", "backtest"] as const;
+
+export type DcaMode = (typeof DCA_MODES)[number];
 
 export type DcaInputs = {
   amountPerBuy: number;
@@ -6,13 +57,187 @@ export type DcaInputs = {
   startingPrice: number;
   endingPrice: number;
   frequency: DcaFrequency;
+  currency: Currency;
+  // Cómo se mueve el precio entre el inicial y el final.
+  pricePath: DcaPricePath;
+  // Volatilidad anual y semilla de los caminos aleatorios.
+  volatility: number;
+  seed: number;
+  // Comisiones, spread, mínimo de orden y retiro del exchange.
+  fees: DcaFees;
+  // Cómo varía el aporte de cada compra a partir de `amountPerBuy`.
+  strategy: DcaStrategy;
+};
+
+export const DEFAULT_DCA_INPUTS: DcaInputs = {
+  amountPerBuy: 150,
+  numberOfBuys: 12,
+  startingPrice: 62000,
+  endingPrice: 78000,
+  frequency: "monthly",
+  currency: DEFAULT_CURRENCY,
+  pricePath: "linear",
+  volatility: DEFAULT_BTC_VOLATILITY,
+  seed: 1,
+  fees: NO_DCA_FEES,
+  strategy: DEFAULT_DCA_STRATEGY,
+};
+
+export const MAX_NUMBER_OF_BUYS = 120;
+
+// El mismo tope de 12 dígitos que los inputs de la calculadora.
+export const MAX_DCA_AMOUNT = 10 ** 12;
+
+// Escenario leído de la URL: solo trae los parámetros presentes y válidos.
+export type DcaScenario = Partial<DcaInputs> & {
+  mode?: DcaMode;
+  // Primera compra del backtest (YYYY-MM-DD).
+  startDate?: string;
 };
 
+// Todo lo que escribe la calculadora en la URL, para poder limpiarlo.
+export const DCA_SCENARIO_PARAMS = [
+  "amount",
+  "buys",
+  "start",
+  "end",
+  "frequency",
+  "currency",
+  "mode",
+  "from",
+  "path",
+  "vol",
+  "seed",
+  ...DCA_FEE_PARAMS,
+  ...DCA_STRATEGY_PARAMS,
+] as const;
+
+function parseAmount(value: string | null | undefined) {
+  if (!value) return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 && amount < MAX_DCA_AMOUNT
+    ? amount
+    : undefined;
+}
+
+function isDcaFrequency(value: unknown): value is DcaFrequency {
+  return (
+    typeof value === "string" &&
+    (DCA_FREQUENCIES as readonly string[]).includes(value)
+  );
+}
+
+// Los mínimos dependen de la cotización, así que acá solo se descarta lo que
+// no tiene sentido; la calculadora completa y acota el resto.
+export function parseDcaScenario(input: QueryInput): DcaScenario {
+  const scenario: DcaScenario = {};
+  const amountPerBuy = parseAmount(readParam(input, "amount"));
+  const numberOfBuys = Number(readParam(input, "buys"));
+  const startingPrice = parseAmount(readParam(input, "start"));
+  const endingPrice = parseAmount(readParam(input, "end"));
+  const frequency = readParam(input, "frequency")?.toLowerCase();
+  const currency = readParam(input, "currency")?.trim().toUpperCase();
+  const mode = readParam(input, "mode")?.toLowerCase();
+  const startDate = parseForecastDate(readParam(input, "from"));
+  const pricePath = readParam(input, "path")?.toLowerCase();
+  const volatility = Number(readParam(input, "vol"));
+  const seed = Number(readParam(input, "seed"));
+  const fees = parseDcaFees(input);
+  const strategy = parseDcaStrategy(input);
+
+  if (amountPerBuy !== undefined) scenario.amountPerBuy = amountPerBuy;
+  if (
+    Number.isInteger(numberOfBuys) &&
+    numberOfBuys >= 1 &&
+    numberOfBuys <= MAX_NUMBER_OF_BUYS
+  ) {
+    scenario.numberOfBuys = numberOfBuys;
+  }
+  if (startingPrice !== undefined) scenario.startingPrice = startingPrice;
+  if (endingPrice !== undefined) scenario.endingPrice = endingPrice;
+  if (isDcaFrequency(frequency)) scenario.frequency = frequency;
+  if (isCurrency(currency)) scenario.currency = currency;
+  if (mode === "simulation" || mode === "backtest") scenario.mode = mode;
+  if (startDate) scenario.startDate = startDate;
+  const validPath = DCA_PRICE_PATHS.find((item) => item === pricePath);
+  if (validPath) scenario.pricePath = validPath;
+  if (volatility >= MIN_VOLATILITY && volatility <= MAX_VOLATILITY) {
+    scenario.volatility = volatility;
+  }
+  if (Number.isInteger(seed) && seed > 0 && seed < 2 ** 32) scenario.seed = seed;
+  if (fees) scenario.fees = fees;
+  if (strategy) scenario.strategy = strategy;
+
+  return scenario;
+}
+
+// Un escenario sin moneda o sin algún monto no se puede describir sin la
+// cotización del momento: devuelve null. El modelo de precios es opcional
+// porque los primeros enlaces compartidos no lo incluían.
+export function getScenarioInputs(scenario: DcaScenario): DcaInputs | null {
+  if (
+    scenario.amountPerBuy === undefined ||
+    scenario.numberOfBuys === undefined ||
+    scenario.startingPrice === undefined ||
+    scenario.endingPrice === undefined ||
+    scenario.frequency === undefined ||
+    scenario.currency === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    amountPerBuy: scenario.amountPerBuy,
+    numberOfBuys: scenario.numberOfBuys,
+    startingPrice: scenario.startingPrice,
+    endingPrice: scenario.endingPrice,
+    frequency: scenario.frequency,
+    currency: scenario.currency,
+    pricePath: scenario.pricePath ?? DEFAULT_DCA_INPUTS.pricePath,
+    volatility: scenario.volatility ?? DEFAULT_DCA_INPUTS.volatility,
+    seed: scenario.seed ?? DEFAULT_DCA_INPUTS.seed,
+    fees: scenario.fees ?? DEFAULT_DCA_INPUTS.fees,
+    strategy: scenario.strategy ?? DEFAULT_DCA_INPUTS.strategy,
+  };
+}
+
+// A diferencia de las bandas del Rainbow, se serializa todo: un enlace
+// compartido tiene que seguir mostrando lo mismo aunque cambien los defaults.
+// Con `backtestFrom` el enlace abre el backtest desde esa fecha.
+export function toDcaSearchParams(
+  inputs: DcaInputs,
+  backtestFrom: string | null = null,
+) {
+  const searchParams = new URLSearchParams({
+    amount: String(inputs.amountPerBuy),
+    buys: String(inputs.numberOfBuys),
+    start: String(inputs.startingPrice),
+    end: String(inputs.endingPrice),
+    frequency: inputs.frequency,
+    currency: inputs.currency,
+    path: inputs.pricePath,
+  });
+  // Volatilidad y semilla solo cambian algo en los caminos aleatorios.
+  if (isRandomPricePath(inputs.pricePath)) {
+    searchParams.set("vol", String(inputs.volatility));
+    searchParams.set("seed", String(inputs.seed));
+  }
+  setDcaFeeParams(searchParams, inputs.fees);
+  setDcaStrategyParams(searchParams, inputs.strategy);
+  if (backtestFrom) {
+    searchParams.set("mode", "backtest");
+    searchParams.set("from", backtestFrom);
+  }
+  return searchParams;
+}
+
 export type DcaPurchase = {
   index: number;
   price: number;
   invested: number;
   bitcoinBought: number;
+  // Comisión y spread de la orden, frente a comprar todo al precio medio.
+  fee: number;
   cumulativeInvested: number;
   cumulativeBitcoin: number;
 };
@@ -26,27 +251,16 @@ export type DcaSummary = {
   profitLossPercentage: number;
   lumpSumBitcoin: number;
   lumpSumDifference: number;
+  // Aportes que al terminar el plan esperaban la orden mínima.
+  uninvested: number;
 };
 
 export type DcaResult = {
+  currency: Currency;
   purchases: DcaPurchase[];
   summary: DcaSummary;
 };
 
-function interpolatePrice(
-  startingPrice: number,
-  endingPrice: number,
-  index: number,
-  totalBuys: number,
-) {
-  if (totalBuys <= 1) {
-    return startingPrice;
-  }
-
-  const progress = index / (totalBuys - 1);
-  return startingPrice + (endingPrice - startingPrice) * progress;
-}
-
 export function getFrequencyLabel(frequency: DcaFrequency) {
   switch (frequency) {
     case "weekly":
@@ -60,55 +274,179 @@ export function getFrequencyLabel(frequency: DcaFrequency) {
   }
 }
 
-export function calculateDcaPlan(inputs: DcaInputs): DcaResult {
+// Expresa el mismo escenario en otra moneda: `rate` son unidades de la moneda
+// nueva por cada unidad de la actual. Las cantidades de BTC no cambian.
+export function redenominateDcaInputs(
+  inputs: DcaInputs,
+  currency: Currency,
+  rate: number,
+): DcaInputs {
+  return {
+    ...inputs,
+    currency,
+    amountPerBuy: inputs.amountPerBuy * rate,
+    startingPrice: inputs.startingPrice * rate,
+    endingPrice: inputs.endingPrice * rate,
+    fees: scaleDcaFees(inputs.fees, rate),
+  };
+}
+
+// Resumen común a la simulación y al backtest: el plan se valúa a
+// `finalPrice` y la compra única entra al precio de la primera compra.
+// Con comisiones, el BTC final descuenta el retiro y la compra única de la
+// comparación paga los mismos costos.
+export function summarizeDcaPurchases(
+  purchases: DcaPurchase[],
+  finalPrice: number,
+  fees: DcaFees = NO_DCA_FEES,
+  uninvested = 0,
+): DcaSummary {
+  const last = purchases[purchases.length - 1];
+  const totalInvested = last?.cumulativeInvested ?? 0;
+  const totalBitcoin =
+    (last?.cumulativeBitcoin ?? 0) -
+    getWithdrawalFee(fees, last?.cumulativeBitcoin ?? 0);
+  const averageBuyPrice = totalBitcoin > 0 ? totalInvested / totalBitcoin : 0;
+  const currentValue = totalBitcoin * finalPrice;
+  const profitLoss = currentValue - totalInvested;
+  const profitLossPercentage =
+    totalInvested > 0 ? (profitLoss / totalInvested) * 100 : 0;
+  const lumpSumOrder =
+    purchases.length > 0
+      ? buyBitcoin(fees, totalInvested, purchases[0].price).bitcoinBought
+      : 0;
+  const lumpSumBitcoin =
+    lumpSumOrder - getWithdrawalFee(fees, lumpSumOrder);
+  const lumpSumDifference = totalBitcoin - lumpSumBitcoin;
+
+  return {
+    totalInvested,
+    totalBitcoin,
+    averageBuyPrice,
+    currentValue,
+    profitLoss,
+    profitLossPercentage,
+    lumpSumBitcoin,
+    lumpSumDifference,
+    uninvested,
+  };
+}
+
+// Compra al precio de cada punto del camino y valúa al último.
+export function simulateDcaPlan(
+  inputs: DcaInputs,
+  prices: number[],
+): DcaResult {
   const purchases: DcaPurchase[] = [];
   let cumulativeInvested = 0;
   let cumulativeBitcoin = 0;
+  let pending = 0;
 
-  for (let index = 0; index < inputs.numberOfBuys; index += 1) {
-    const price = interpolatePrice(
-      inputs.startingPrice,
-      inputs.endingPrice,
-      index,
-      inputs.numberOfBuys,
+  for (const [index, price] of prices.entries()) {
+    const contribution = getDcaContribution(
+      inputs.strategy,
+      inputs.amountPerBuy,
+      inputs.frequency,
+      {
+        index,
+        price,
+        previousPrice: index > 0 ? prices[index - 1] : null,
+        holdings: cumulativeBitcoin * price + pending,
+      },
     );
-    const invested = inputs.amountPerBuy;
-    const bitcoinBought = invested / price;
+    const order = placeDcaOrder(inputs.fees, pending, contribution, price);
+    pending = order.pending;
 
-    cumulativeInvested += invested;
-    cumulativeBitcoin += bitcoinBought;
+    cumulativeInvested += order.invested;
+    cumulativeBitcoin += order.bitcoinBought;
 
     purchases.push({
       index: index + 1,
       price,
-      invested,
-      bitcoinBought,
+      invested: order.invested,
+      bitcoinBought: order.bitcoinBought,
+      fee: order.fee,
       cumulativeInvested,
       cumulativeBitcoin,
     });
   }
 
-  const totalInvested = cumulativeInvested;
-  const totalBitcoin = cumulativeBitcoin;
-  const averageBuyPrice = totalBitcoin > 0 ? totalInvested / totalBitcoin : 0;
-  const currentValue = totalBitcoin * inputs.endingPrice;
-  const profitLoss = currentValue - totalInvested;
-  const profitLossPercentage =
-    totalInvested > 0 ? (profitLoss / totalInvested) * 100 : 0;
-  const lumpSumBitcoin = totalInvested / inputs.startingPrice;
-  const lumpSumDifference = totalBitcoin - lumpSumBitcoin;
-
   return {
+    currency: inputs.currency,
     purchases,
-    summary: {
-      totalInvested,
-      totalBitcoin,
-      averageBuyPrice,
-      currentValue,
-      profitLoss,
-      profitLossPercentage,
-      lumpSumBitcoin,
-      lumpSumDifference,
-    },
+    summary: summarizeDcaPurchases(
+      purchases,
+      prices[prices.length - 1] ?? inputs.endingPrice,
+      inputs.fees,
+      pending,
+    ),
+  };
+}
+
+export function calculateDcaPlan(inputs: DcaInputs): DcaResult {
+  return simulateDcaPlan(inputs, buildPricePath(inputs));
+}
+
+type DcaScenarioOutcome = {
+  backtest?: DcaBacktestResult | null;
+  monteCarlo?: DcaMonteCarloResult | null;
+};
+
+// Texto de la vista previa (Open Graph) de un escenario compartido; con el
+// resultado de un backtest describe el histórico real en vez de la simulación
+// y con el de un Monte Carlo, el rango de resultados posibles.
+export function describeDcaScenario(
+  inputs: DcaInputs,
+  { backtest = null, monteCarlo = null }: DcaScenarioOutcome = {},
+) {
+  const result = backtest ?? calculateDcaPlan(inputs);
+  const { summary } = result;
+  const formatter = getCurrencyFormatter(inputs.currency, {
+    maximumFractionDigits: 0,
+  });
+  const finalPrice =
+    backtest?.finalPrice ??
+    result.purchases[result.purchases.length - 1]?.price ??
+    inputs.endingPrice;
+  const feeNote = hasDcaFees(inputs.fees)
+    ? ` Comisiones y spread (${DCA_EXCHANGE_LABELS[inputs.fees.exchange]}): ${summarizeDcaFees(result.purchases, summary, finalPrice).costPercentage.toFixed(2)}% de lo invertido.${summary.uninvested > 0.005 ? ` ${formatter.format(summary.uninvested)} quedan sin invertir por la orden mínima.` : ""}`
+    : "";
+  const sign = summary.profitLossPercentage >= 0 ? "+" : "";
+  const buys = backtest?.purchases.length ?? inputs.numberOfBuys;
+  const plan =
+    inputs.strategy.type === "fixed"
+      ? `${buys} compras de ${formatter.format(inputs.amountPerBuy)}`
+      : `${buys} compras, ${DCA_STRATEGY_LABELS[inputs.strategy.type].toLowerCase()} sobre ${formatter.format(inputs.amountPerBuy)}`;
+  const outcome = `se invierten ${formatter.format(summary.totalInvested)} y se acumulan ${summary.totalBitcoin.toFixed(6)} BTC a un precio promedio de ${formatter.format(summary.averageBuyPrice)}: ${sign}${summary.profitLossPercentage.toFixed(2)}%`;
+  const frequencyLabel = getFrequencyLabel(inputs.frequency);
+
+  if (backtest) {
+    return {
+      title: `Backtest DCA ${frequencyLabel} desde ${backtest.startDate}: ${plan}`,
+      description: `Con el precio real de BTC hasta ${backtest.endDate}, ${outcome} al último cierre. Peor caída del plan: ${backtest.maxDrawdown.percentage.toFixed(2)}%.${feeNote}`,
+      summary,
+    };
+  }
+
+  const model =
+    inputs.pricePath === "linear"
+      ? ""
+      : ` (${DCA_PRICE_PATH_LABELS[inputs.pricePath].toLowerCase()})`;
+
+  if (monteCarlo) {
+    const { profitLossPercentage: band } = monteCarlo;
+    const format = (value: number) =>
+      `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+    return {
+      title: `DCA ${frequencyLabel} Monte Carlo: ${plan}`,
+      description: `En ${monteCarlo.paths} caminos con BTC de ${formatter.format(inputs.startingPrice)} hacia ${formatter.format(inputs.endingPrice)} y ${Math.round(inputs.volatility * 100)}% de volatilidad anual, el resultado va de ${format(band.p5)} (P5) a ${format(band.p95)} (P95), con ${format(band.p50)} en la mediana. Termina en ganancia en el ${monteCarlo.probabilityOfProfit.toFixed(0)}% de los caminos.${feeNote}`,
+      summary,
+    };
+  }
+
+  return {
+    title: `DCA ${frequencyLabel}${model}: ${plan}`,
+    description: `Con BTC de ${formatter.format(inputs.startingPrice)} a ${formatter.format(inputs.endingPrice)}, ${outcome} al precio final.${feeNote}`,
+    summary,
   };
 }
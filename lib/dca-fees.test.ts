@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  getTradeFee,
+  NO_DCA_FEES,
+  placeDcaOrder,
+  type DcaFees,
+} from "@/lib/dca-fees";
+
+const PERCENTAGE: DcaFees = {
+  ...NO_DCA_FEES,
+  exchange: "custom",
+  rate: 1,
+  spread: 2,
+};
+
+const TIERED: DcaFees = {
+  ...NO_DCA_FEES,
+  exchange: "custom",
+  model: "tiered",
+  tiers: [
+    { upTo: 10, rate: 0, fixed: 1 },
+    { upTo: 50, rate: 0, fixed: 2 },
+    { upTo: null, rate: 1.5, fixed: 0 },
+  ],
+};
+
+describe("placeDcaOrder", () => {
+  it("buys the whole contribution without fees", () => {
+    expect(placeDcaOrder(NO_DCA_FEES, 0, 100, 50)).toEqual({
+      invested: 100,
+      bitcoinBought: 2,
+      fee: 0,
+      pending: 0,
+    });
+  });
+
+  it("charges the fee and half the spread over the mid price", () => {
+    const order = placeDcaOrder(PERCENTAGE, 0, 100, 100);
+
+    // 99 después de la comisión, a 101 (precio medio + 1%).
+    expect(order.bitcoinBought).toBeCloseTo(99 / 101, 12);
+    expect(order.fee).toBeCloseTo(100 - (99 / 101) * 100, 12);
+    expect(order.invested).toBe(100);
+  });
+
+  it("holds contributions below the minimum order until they reach it", () => {
+    const fees: DcaFees = {
+      ...NO_DCA_FEES,
+      exchange: "custom",
+      minimumOrder: 25,
+    };
+
+    const first = placeDcaOrder(fees, 0, 10, 100);
+    expect(first).toEqual({
+      invested: 0,
+      bitcoinBought: 0,
+      fee: 0,
+      pending: 10,
+    });
+
+    const second = placeDcaOrder(fees, first.pending, 10, 100);
+    expect(second.pending).toBe(20);
+
+    const third = placeDcaOrder(fees, second.pending, 10, 100);
+    expect(third).toEqual({
+      invested: 30,
+      bitcoinBought: 0.3,
+      fee: 0,
+      pending: 0,
+    });
+  });
+
+  it("never charges more than the order", () => {
+    const fees: DcaFees = {
+      ...NO_DCA_FEES,
+      exchange: "custom",
+      model: "fixed",
+      fixed: 5,
+    };
+    const order = placeDcaOrder(fees, 0, 3, 100);
+
+    expect(order.bitcoinBought).toBe(0);
+    expect(order.fee).toBe(3);
+  });
+});
+
+describe("getTradeFee", () => {
+  it("picks the first tier that covers the order", () => {
+    expect(getTradeFee(TIERED, 10)).toBe(1);
+    expect(getTradeFee(TIERED, 10.01)).toBe(2);
+    expect(getTradeFee(TIERED, 200)).toBeCloseTo(3, 12);
+  });
+});
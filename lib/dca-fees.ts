@@ -0,0 +1,334 @@
+import type { DcaPurchase, DcaSummary } from "@/lib/dca-calculator";
+import { readParam, type QueryInput } from "@/lib/query-params";
+
+export const DCA_FEE_MODELS = ["percentage", "fixed", "tiered"] as const;
+
+export type DcaFeeModel = (typeof DCA_FEE_MODELS)[number];
+
+export const DCA_FEE_MODEL_LABELS: Record<DcaFeeModel, string> = {
+  percentage: "Porcentaje",
+  fixed: "Fija por compra",
+  tiered: "Escalonada",
+};
+
+export const DCA_EXCHANGES = [
+  "none",
+  "binance",
+  "kraken",
+  "coinbase",
+  "custom",
+] as const;
+
+export type DcaExchange = (typeof DCA_EXCHANGES)[number];
+
+export type DcaFeeTier = {
+  // Tamaño máximo de la orden para este tramo; null en el último.
+  upTo: number | null;
+  rate: number;
+  fixed: number;
+};
+
+export type DcaFees = {
+  // Preset del que salen los valores, solo para mostrarlo en la UI.
+  exchange: DcaExchange;
+  model: DcaFeeModel;
+  // Comisión en % de cada orden (modelo "percentage").
+  rate: number;
+  // Comisión fija por orden, en la moneda del plan (modelo "fixed").
+  fixed: number;
+  tiers: DcaFeeTier[];
+  // Diferencia entre compra y venta en %: cada compra paga la mitad sobre el
+  // precio medio.
+  spread: number;
+  // Los aportes se acumulan hasta alcanzar el mínimo del exchange.
+  minimumOrder: number;
+  // Comisión en BTC de un único retiro a una billetera propia al final.
+  withdrawalFee: number;
+};
+
+export type DcaFeeSummary = {
+  // Comisiones y spread al momento de cada compra, más el retiro al precio final.
+  totalCost: number;
+  costPercentage: number;
+  // BTC que el plan habría sumado con las mismas órdenes y sin costos.
+  bitcoinLost: number;
+  valueLost: number;
+  // Puntos porcentuales de rendimiento que se pierden frente al plan sin costos.
+  profitImpact: number;
+};
+
+export const MAX_FEE_PERCENTAGE = 10;
+export const MAX_WITHDRAWAL_FEE = 0.01;
+
+const MAX_FEE_TIERS = 8;
+
+export const NO_DCA_FEES: DcaFees = {
+  exchange: "none",
+  model: "percentage",
+  rate: 0,
+  fixed: 0,
+  tiers: [],
+  spread: 0,
+  minimumOrder: 0,
+  withdrawalFee: 0,
+};
+
+// Tarifas de referencia en USD para compras chicas en cada exchange (en
+// Coinbase, la compra simple). Cambian seguido: la calculadora las presenta
+// como aproximadas.
+export const DCA_EXCHANGE_PRESETS: Array<{
+  exchange: Exclude<DcaExchange, "none" | "custom">;
+  label: string;
+  fees: DcaFees;
+}> = [
+  {
+    exchange: "binance",
+    label: "Binance",
+    fees: {
+      ...NO_DCA_FEES,
+      exchange: "binance",
+      rate: 0.1,
+      spread: 0.02,
+      minimumOrder: 5,
+      withdrawalFee: 0.00002,
+    },
+  },
+  {
+    exchange: "kraken",
+    label: "Kraken Pro",
+    fees: {
+      ...NO_DCA_FEES,
+      exchange: "kraken",
+      rate: 0.4,
+      spread: 0.02,
+      minimumOrder: 5,
+      withdrawalFee: 0.00002,
+    },
+  },
+  {
+    exchange: "coinbase",
+    label: "Coinbase",
+    fees: {
+      ...NO_DCA_FEES,
+      exchange: "coinbase",
+      model: "tiered",
+      tiers: [
+        { upTo: 10, rate: 0, fixed: 0.99 },
+        { upTo: 25, rate: 0, fixed: 1.49 },
+        { upTo: 50, rate: 0, fixed: 1.99 },
+        { upTo: 200, rate: 0, fixed: 2.99 },
+        { upTo: null, rate: 1.49, fixed: 0 },
+      ],
+      spread: 1,
+      minimumOrder: 2,
+      withdrawalFee: 0.0001,
+    },
+  },
+];
+
+export const DCA_EXCHANGE_LABELS: Record<DcaExchange, string> = {
+  none: "Sin comisiones",
+  ...(Object.fromEntries(
+    DCA_EXCHANGE_PRESETS.map((preset) => [preset.exchange, preset.label]),
+  ) as Record<(typeof DCA_EXCHANGE_PRESETS)[number]["exchange"], string>),
+  custom: "Personalizadas",
+};
+
+// Todo lo que escriben las comisiones en la URL.
+export const DCA_FEE_PARAMS = [
+  "exchange",
+  "fee",
+  "feeRate",
+  "feeFixed",
+  "tiers",
+  "spread",
+  "minOrder",
+  "withdrawal",
+] as const;
+
+function parseBounded(value: string | null | undefined, max: number) {
+  if (!value) return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= max ? parsed : 0;
+}
+
+// Tramos como "10:0:0.99,25:0:1.49,:1.49:0" (hasta:porcentaje:fija); el
+// último sin tope.
+function parseTiers(value: string | null | undefined): DcaFeeTier[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .slice(0, MAX_FEE_TIERS)
+    .flatMap((item) => {
+      const [upTo, rate, fixed] = item.split(":");
+      const limit = upTo ? Number(upTo) : null;
+      if (limit !== null && !(Number.isFinite(limit) && limit > 0)) return [];
+      return [
+        {
+          upTo: limit,
+          rate: parseBounded(rate, MAX_FEE_PERCENTAGE),
+          fixed: parseBounded(fixed, Number.MAX_SAFE_INTEGER),
+        },
+      ];
+    })
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+}
+
+function formatTiers(tiers: DcaFeeTier[]) {
+  return tiers
+    .map((tier) => `${tier.upTo ?? ""}:${tier.rate}:${tier.fixed}`)
+    .join(",");
+}
+
+// Sin `exchange` el plan no tiene comisiones; con él, lo inválido queda en 0.
+export function parseDcaFees(input: QueryInput): DcaFees | null {
+  const exchange = readParam(input, "exchange")?.toLowerCase();
+  const validExchange = DCA_EXCHANGES.find((item) => item === exchange);
+  if (!validExchange || validExchange === "none") return null;
+  const model = readParam(input, "fee")?.toLowerCase();
+
+  return {
+    exchange: validExchange,
+    model: DCA_FEE_MODELS.find((item) => item === model) ?? "percentage",
+    rate: parseBounded(readParam(input, "feeRate"), MAX_FEE_PERCENTAGE),
+    fixed: parseBounded(readParam(input, "feeFixed"), Number.MAX_SAFE_INTEGER),
+    tiers: parseTiers(readParam(input, "tiers")),
+    spread: parseBounded(readParam(input, "spread"), MAX_FEE_PERCENTAGE),
+    minimumOrder: parseBounded(
+      readParam(input, "minOrder"),
+      Number.MAX_SAFE_INTEGER,
+    ),
+    withdrawalFee: parseBounded(
+      readParam(input, "withdrawal"),
+      MAX_WITHDRAWAL_FEE,
+    ),
+  };
+}
+
+// Se escriben los valores y no solo el exchange: los presets están en USD y el
+// enlace tiene que verse igual en cualquier moneda sin pedir cotizaciones.
+export function setDcaFeeParams(searchParams: URLSearchParams, fees: DcaFees) {
+  if (fees.exchange === "none") return;
+  searchParams.set("exchange", fees.exchange);
+  searchParams.set("fee", fees.model);
+  if (fees.model === "percentage") {
+    searchParams.set("feeRate", String(fees.rate));
+  }
+  if (fees.model === "fixed") {
+    searchParams.set("feeFixed", String(fees.fixed));
+  }
+  if (fees.model === "tiered") {
+    searchParams.set("tiers", formatTiers(fees.tiers));
+  }
+  if (fees.spread > 0) searchParams.set("spread", String(fees.spread));
+  if (fees.minimumOrder > 0) {
+    searchParams.set("minOrder", String(fees.minimumOrder));
+  }
+  if (fees.withdrawalFee > 0) {
+    searchParams.set("withdrawal", String(fees.withdrawalFee));
+  }
+}
+
+export function hasDcaFees(fees: DcaFees) {
+  return fees.exchange !== "none";
+}
+
+// Centavos: los montos convertidos también viajan en la URL.
+function roundAmount(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Pasa los montos fijos a otra moneda; porcentajes y BTC no cambian.
+export function scaleDcaFees(fees: DcaFees, rate: number): DcaFees {
+  return {
+    ...fees,
+    fixed: roundAmount(fees.fixed * rate),
+    tiers: fees.tiers.map((tier) => ({
+      ...tier,
+      upTo: tier.upTo === null ? null : roundAmount(tier.upTo * rate),
+      fixed: roundAmount(tier.fixed * rate),
+    })),
+    minimumOrder: roundAmount(fees.minimumOrder * rate),
+  };
+}
+
+export function getExchangeFees(exchange: DcaExchange, rate: number) {
+  const preset = DCA_EXCHANGE_PRESETS.find(
+    (item) => item.exchange === exchange,
+  );
+  return preset ? scaleDcaFees(preset.fees, rate) : NO_DCA_FEES;
+}
+
+export function getTradeFee(fees: DcaFees, order: number) {
+  switch (fees.model) {
+    case "percentage":
+      return (order * fees.rate) / 100;
+    case "fixed":
+      return fees.fixed;
+    case "tiered": {
+      const tier =
+        fees.tiers.find((item) => item.upTo === null || order <= item.upTo) ??
+        fees.tiers[fees.tiers.length - 1];
+      return tier ? tier.fixed + (order * tier.rate) / 100 : 0;
+    }
+  }
+}
+
+// BTC que compra una orden después de la comisión y de pagar medio spread.
+// `cost` es la diferencia con comprar todo al precio medio.
+export function buyBitcoin(fees: DcaFees, order: number, price: number) {
+  const fee = Math.min(getTradeFee(fees, order), order);
+  const askPrice = price * (1 + fees.spread / 200);
+  const bitcoinBought = (order - fee) / askPrice;
+  return { bitcoinBought, cost: order - bitcoinBought * price };
+}
+
+// Suma el aporte a lo pendiente y compra solo si se alcanza el mínimo de
+// orden; si no, el efectivo espera a la próxima fecha.
+export function placeDcaOrder(
+  fees: DcaFees,
+  pending: number,
+  contribution: number,
+  price: number,
+) {
+  const order = pending + contribution;
+  if (order < fees.minimumOrder) {
+    return { invested: 0, bitcoinBought: 0, fee: 0, pending: order };
+  }
+  const { bitcoinBought, cost } = buyBitcoin(fees, order, price);
+  return { invested: order, bitcoinBought, fee: cost, pending: 0 };
+}
+
+// Lo que se retira nunca supera lo acumulado.
+export function getWithdrawalFee(fees: DcaFees, bitcoin: number) {
+  return Math.min(fees.withdrawalFee, bitcoin);
+}
+
+export function summarizeDcaFees(
+  purchases: DcaPurchase[],
+  summary: DcaSummary,
+  finalPrice: number,
+): DcaFeeSummary {
+  const feeFreeBitcoin = purchases.reduce(
+    (acc, purchase) =>
+      acc + (purchase.price > 0 ? purchase.invested / purchase.price : 0),
+    0,
+  );
+  const tradingCost = purchases.reduce((acc, purchase) => acc + purchase.fee, 0);
+  const withdrawnBitcoin =
+    (purchases[purchases.length - 1]?.cumulativeBitcoin ?? 0) -
+    summary.totalBitcoin;
+  const bitcoinLost = feeFreeBitcoin - summary.totalBitcoin;
+  const valueLost = bitcoinLost * finalPrice;
+  const totalCost = tradingCost + withdrawnBitcoin * finalPrice;
+
+  return {
+    totalCost,
+    costPercentage:
+      summary.totalInvested > 0 ? (totalCost / summary.totalInvested) * 100 : 0,
+    bitcoinLost,
+    valueLost,
+    profitImpact:
+      summary.totalInvested > 0 ? (valueLost / summary.totalInvested) * 100 : 0,
+  };
+}
@@ -0,0 +1,86 @@
+import {
+  simulateDcaPlan,
+  type DcaInputs,
+} from "@/lib/dca-calculator";
+import { buildGbmPath, createNormalRandom } from "@/lib/dca-paths";
+
+// Para las vistas previas alcanza con la cantidad más chica del selector.
+export const PREVIEW_MONTE_CARLO_PATHS = 1000;
+
+export type PercentileBand = {
+  p5: number;
+  p50: number;
+  p95: number;
+};
+
+export type DcaMonteCarloResult = {
+  paths: number;
+  // Con value averaging o refuerzos lo invertido depende del camino.
+  totalInvested: PercentileBand;
+  finalPrice: PercentileBand;
+  totalBitcoin: PercentileBand;
+  currentValue: PercentileBand;
+  profitLoss: PercentileBand;
+  profitLossPercentage: PercentileBand;
+  // Proporción de caminos que terminan con ganancia, en %.
+  probabilityOfProfit: number;
+};
+
+// Percentil con interpolación lineal entre los dos valores más cercanos.
+function getPercentile(sorted: number[], percentile: number) {
+  const position = (sorted.length - 1) * percentile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return (
+    sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  );
+}
+
+function getBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: getPercentile(sorted, 0.05),
+    p50: getPercentile(sorted, 0.5),
+    p95: getPercentile(sorted, 0.95),
+  };
+}
+
+// Repite el plan sobre `paths` caminos de movimiento browniano geométrico.
+// Todos salen de la misma semilla, así que el resultado es reproducible.
+export function runDcaMonteCarlo(
+  inputs: DcaInputs,
+  paths: number,
+): DcaMonteCarloResult {
+  const normal = createNormalRandom(inputs.seed);
+  const finalPrices: number[] = [];
+  const totalBitcoin: number[] = [];
+  const currentValues: number[] = [];
+  const profitLosses: number[] = [];
+  const profitLossPercentages: number[] = [];
+  const totalInvested: number[] = [];
+  let profitablePaths = 0;
+
+  for (let path = 0; path < paths; path += 1) {
+    const prices = buildGbmPath(inputs, normal);
+    const { summary } = simulateDcaPlan(inputs, prices);
+
+    totalInvested.push(summary.totalInvested);
+    finalPrices.push(prices[prices.length - 1]);
+    totalBitcoin.push(summary.totalBitcoin);
+    currentValues.push(summary.currentValue);
+    profitLosses.push(summary.profitLoss);
+    profitLossPercentages.push(summary.profitLossPercentage);
+    if (summary.profitLoss > 0) profitablePaths += 1;
+  }
+
+  return {
+    paths,
+    totalInvested: getBand(totalInvested),
+    finalPrice: getBand(finalPrices),
+    totalBitcoin: getBand(totalBitcoin),
+    currentValue: getBand(currentValues),
+    profitLoss: getBand(profitLosses),
+    profitLossPercentage: getBand(profitLossPercentages),
+    probabilityOfProfit: paths > 0 ? (profitablePaths / paths) * 100 : 0,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildGbmPath,
+  buildPricePath,
+  createNormalRandom,
+  type PricePathInputs,
+} from "@/lib/dca-paths";
+
+const INPUTS: PricePathInputs = {
+  numberOfBuys: 25,
+  startingPrice: 40_000,
+  endingPrice: 90_000,
+  frequency: "monthly",
+  pricePath: "stochastic",
+  volatility: 0.6,
+  seed: 7,
+};
+
+describe("buildGbmPath", () => {
+  it("follows the geometric trend without shocks", () => {
+    const path = buildGbmPath({ ...INPUTS, volatility: 0 }, () => 0);
+    const geometric = buildPricePath({ ...INPUTS, pricePath: "geometric" });
+
+    path.forEach((price, index) => expect(price).toBeCloseTo(geometric[index], 6));
+    expect(path[path.length - 1]).toBeCloseTo(INPUTS.endingPrice, 6);
+  });
+
+  it("centers the median final price on the chosen ending price", () => {
+    const normal = createNormalRandom(INPUTS.seed);
+    const finals = Array.from({ length: 2001 }, () => {
+      const path = buildGbmPath(INPUTS, normal);
+      return path[path.length - 1];
+    }).sort((a, b) => a - b);
+
+    expect(finals[1000] / INPUTS.endingPrice).toBeGreaterThan(0.9);
+    expect(finals[1000] / INPUTS.endingPrice).toBeLessThan(1.1);
+  });
+});
+
+describe("buildPricePath", () => {
+  it("pins the stochastic bridge to the starting and ending prices", () => {
+    const path = buildPricePath(INPUTS);
+
+    expect(path[0]).toBeCloseTo(INPUTS.startingPrice, 6);
+    expect(path[path.length - 1]).toBeCloseTo(INPUTS.endingPrice, 6);
+    expect(buildPricePath(INPUTS)).toEqual(path);
+  });
+});
@@ -0,0 +1,232 @@
+import type { DcaFrequency } from "@/lib/dca-calculator";
+import type { HistoryPoint } from "@/lib/price-history";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_YEAR = 365.25;
+
+// "montecarlo" usa el camino geométrico como mediana y además simula miles de
+// caminos aleatorios alrededor de él.
+export const DCA_PRICE_PATHS = [
+  "linear",
+  "geometric",
+  "cyclical",
+  "stochastic",
+  "montecarlo",
+] as const;
+
+export type DcaPricePath = (typeof DCA_PRICE_PATHS)[number];
+
+export const DCA_PRICE_PATH_LABELS: Record<DcaPricePath, string> = {
+  linear: "Lineal",
+  geometric: "Geométrico",
+  cyclical: "Cíclico",
+  stochastic: "Estocástico",
+  montecarlo: "Monte Carlo",
+};
+
+// Los únicos modelos en los que pesan la volatilidad y la semilla.
+export function isRandomPricePath(pricePath: DcaPricePath) {
+  return pricePath === "stochastic" || pricePath === "montecarlo";
+}
+
+// Volatilidad anual de referencia hasta que llega la calibrada con el histórico.
+export const DEFAULT_BTC_VOLATILITY = 0.6;
+export const MIN_VOLATILITY = 0.05;
+export const MAX_VOLATILITY = 3;
+
+export const MONTE_CARLO_PATH_COUNTS = [1000, 5000, 10000] as const;
+
+export type MonteCarloPathCount = (typeof MONTE_CARLO_PATH_COUNTS)[number];
+
+export const DEFAULT_MONTE_CARLO_PATHS: MonteCarloPathCount = 5000;
+
+// Cuatro años entre halvings; el camino cíclico arranca en uno.
+const HALVING_CYCLE_DAYS = 4 * DAYS_PER_YEAR;
+// Desvío máximo sobre la tendencia, en logaritmo: ×1,65 en el techo del ciclo.
+const CYCLE_AMPLITUDE = 0.5;
+// Cuatro años de cierres diarios alcanzan para cubrir un ciclo completo.
+const VOLATILITY_LOOKBACK_DAYS = 1461;
+
+export type PricePathInputs = {
+  startingPrice: number;
+  endingPrice: number;
+  numberOfBuys: number;
+  frequency: DcaFrequency;
+  pricePath: DcaPricePath;
+  // Volatilidad anual (0,6 = 60%) de los caminos aleatorios.
+  volatility: number;
+  seed: number;
+};
+
+export type VolatilityCalibration = {
+  volatility: number;
+  from: string;
+  to: string;
+  observations: number;
+};
+
+export function getPeriodDays(frequency: DcaFrequency) {
+  switch (frequency) {
+    case "weekly":
+      return 7;
+    case "biweekly":
+      return 14;
+    case "monthly":
+      return DAYS_PER_YEAR / 12;
+  }
+}
+
+// mulberry32: rápido y reproducible, así un enlace con `seed` muestra el mismo
+// camino en cualquier navegador.
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller: normales estándar a partir del generador uniforme.
+export function createNormalRandom(seed: number) {
+  const random = createRandom(seed);
+  return () => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+export function createSeed() {
+  return Math.floor(Math.random() * 2 ** 31) + 1;
+}
+
+function getProgress(index: number, totalBuys: number) {
+  return totalBuys <= 1 ? 0 : index / (totalBuys - 1);
+}
+
+function buildGeometricPath(inputs: PricePathInputs) {
+  const growth = inputs.endingPrice / inputs.startingPrice;
+  return Array.from(
+    { length: inputs.numberOfBuys },
+    (_, index) =>
+      inputs.startingPrice * growth ** getProgress(index, inputs.numberOfBuys),
+  );
+}
+
+// Sobre la tendencia geométrica suma una onda de cuatro años: sube hacia el
+// techo del ciclo un año después del halving, toca el piso al tercero y vuelve.
+// La onda se corrige linealmente para respetar los precios inicial y final.
+function buildCyclicalPath(inputs: PricePathInputs) {
+  const periodDays = getPeriodDays(inputs.frequency);
+  const wave = (index: number) =>
+    Math.sin((2 * Math.PI * index * periodDays) / HALVING_CYCLE_DAYS);
+  const lastWave = wave(inputs.numberOfBuys - 1);
+
+  return buildGeometricPath(inputs).map((price, index) => {
+    const progress = getProgress(index, inputs.numberOfBuys);
+    const deviation = wave(index) - progress * lastWave;
+    return price * Math.exp(CYCLE_AMPLITUDE * deviation);
+  });
+}
+
+// Puente browniano en escala logarítmica: un camino con la volatilidad pedida
+// que igual empieza y termina en los precios elegidos.
+function buildStochasticPath(inputs: PricePathInputs) {
+  const trend = buildGeometricPath(inputs);
+  const normal = createNormalRandom(inputs.seed);
+  const stepYears = getPeriodDays(inputs.frequency) / DAYS_PER_YEAR;
+  const walk = [0];
+  for (let index = 1; index < inputs.numberOfBuys; index += 1) {
+    walk.push(walk[index - 1] + Math.sqrt(stepYears) * normal());
+  }
+  const end = walk[walk.length - 1];
+
+  return trend.map((price, index) => {
+    const bridge = walk[index] - getProgress(index, inputs.numberOfBuys) * end;
+    return price * Math.exp(inputs.volatility * bridge);
+  });
+}
+
+// Precio de BTC en cada compra según el modelo elegido.
+export function buildPricePath(inputs: PricePathInputs): number[] {
+  switch (inputs.pricePath) {
+    case "geometric":
+    case "montecarlo":
+      return buildGeometricPath(inputs);
+    case "cyclical":
+      return buildCyclicalPath(inputs);
+    case "stochastic":
+      return buildStochasticPath(inputs);
+    case "linear":
+      return Array.from(
+        { length: inputs.numberOfBuys },
+        (_, index) =>
+          inputs.startingPrice +
+          (inputs.endingPrice - inputs.startingPrice) *
+            getProgress(index, inputs.numberOfBuys),
+      );
+  }
+}
+
+// Movimiento browniano geométrico con deriva ajustada para que la mediana
+// del precio final sea el precio final elegido.
+export function buildGbmPath(
+  inputs: PricePathInputs,
+  normal: () => number,
+): number[] {
+  const stepYears = getPeriodDays(inputs.frequency) / DAYS_PER_YEAR;
+  const steps = Math.max(inputs.numberOfBuys - 1, 1);
+  const drift = Math.log(inputs.endingPrice / inputs.startingPrice) / steps;
+  const shock = inputs.volatility * Math.sqrt(stepYears);
+  const prices = [inputs.startingPrice];
+  for (let index = 1; index < inputs.numberOfBuys; index += 1) {
+    prices.push(prices[index - 1] * Math.exp(drift + shock * normal()));
+  }
+  return prices;
+}
+
+// Desvío de los retornos logarítmicos diarios, anualizado. Los huecos del
+// histórico se reparten según los días transcurridos.
+export function calibrateVolatility(
+  points: HistoryPoint[],
+  lookbackDays: number = VOLATILITY_LOOKBACK_DAYS,
+): VolatilityCalibration | null {
+  const last = points[points.length - 1];
+  if (!last) return null;
+  const fromMs = Date.parse(`${last.date}T00:00:00Z`) - lookbackDays * DAY_MS;
+  const sample = points.filter(
+    (point) =>
+      point.value > 0 && Date.parse(`${point.date}T00:00:00Z`) >= fromMs,
+  );
+  if (sample.length < 3) return null;
+
+  const returns: { value: number; days: number }[] = [];
+  for (let index = 1; index < sample.length; index += 1) {
+    const days =
+      (Date.parse(`${sample[index].date}T00:00:00Z`) -
+        Date.parse(`${sample[index - 1].date}T00:00:00Z`)) /
+      DAY_MS;
+    returns.push({
+      value: Math.log(sample[index].value / sample[index - 1].value),
+      days,
+    });
+  }
+
+  const totalDays = returns.reduce((acc, item) => acc + item.days, 0);
+  const meanPerDay =
+    returns.reduce((acc, item) => acc + item.value, 0) / totalDays;
+  const variancePerDay =
+    returns.reduce(
+      (acc, item) => acc + (item.value - meanPerDay * item.days) ** 2,
+      0,
+    ) / totalDays;
+
+  return {
+    volatility: Math.sqrt(variancePerDay * DAYS_PER_YEAR),
+    from: sample[0].date,
+    to: last.date,
+    observations: returns.length,
+  };
+}
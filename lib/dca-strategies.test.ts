@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DCA_STRATEGY,
+  getDcaContribution,
+  MAX_BOOST_MULTIPLIER,
+  parseDcaStrategy,
+  setDcaStrategyParams,
+  type DcaStep,
+  type DcaStrategy,
+} from "@/lib/dca-strategies";
+
+const VALUE_AVERAGING: DcaStrategy = {
+  ...DEFAULT_DCA_STRATEGY,
+  type: "value-averaging",
+};
+const DROP_BOOST: DcaStrategy = { ...DEFAULT_DCA_STRATEGY, type: "drop-boost" };
+const GROWTH: DcaStrategy = { ...DEFAULT_DCA_STRATEGY, type: "growth" };
+
+function step(partial: Partial<DcaStep>): DcaStep {
+  return { index: 0, price: 100, previousPrice: null, holdings: 0, ...partial };
+}
+
+describe("getDcaContribution", () => {
+  it("always buys the base amount with the fixed strategy", () => {
+    expect(
+      getDcaContribution(
+        DEFAULT_DCA_STRATEGY,
+        100,
+        "monthly",
+        step({ index: 5, price: 40, previousPrice: 80, holdings: 900 }),
+      ),
+    ).toBe(100);
+  });
+
+  it("buys toward amountPerBuy times the number of buys with value averaging", () => {
+    // Objetivo de la tercera compra: 300.
+    expect(
+      getDcaContribution(
+        VALUE_AVERAGING,
+        100,
+        "monthly",
+        step({ index: 2, holdings: 180 }),
+      ),
+    ).toBe(120);
+  });
+
+  it("buys less after a rise and nothing above the target", () => {
+    // 100 comprados a 100: a 150 valen 150 y el objetivo es 200.
+    const afterRise = getDcaContribution(
+      VALUE_AVERAGING,
+      100,
+      "monthly",
+      step({ index: 1, price: 150, previousPrice: 100, holdings: 150 }),
+    );
+    const afterDrop = getDcaContribution(
+      VALUE_AVERAGING,
+      100,
+      "monthly",
+      step({ index: 1, price: 50, previousPrice: 100, holdings: 50 }),
+    );
+
+    expect(afterRise).toBe(50);
+    expect(afterDrop).toBe(150);
+    expect(
+      getDcaContribution(
+        VALUE_AVERAGING,
+        100,
+        "monthly",
+        step({ index: 1, holdings: 260 }),
+      ),
+    ).toBe(0);
+  });
+
+  it("only boosts the drop-boost amount below the previous price", () => {
+    const contribution = (price: number, previousPrice: number | null) =>
+      getDcaContribution(
+        DROP_BOOST,
+        100,
+        "weekly",
+        step({ index: 1, price, previousPrice }),
+      );
+
+    expect(contribution(100, null)).toBe(100);
+    expect(contribution(100, 100)).toBe(100);
+    expect(contribution(120, 100)).toBe(100);
+    // Un 10% de caída con refuerzo 2 compra un 20% más.
+    expect(contribution(90, 100)).toBeCloseTo(120, 10);
+  });
+
+  it("caps the drop boost", () => {
+    expect(
+      getDcaContribution(
+        { ...DROP_BOOST, boost: 5 },
+        100,
+        "weekly",
+        step({ index: 1, price: 10, previousPrice: 100 }),
+      ),
+    ).toBe(100 * MAX_BOOST_MULTIPLIER);
+  });
+
+  it("compounds the yearly raise across periods", () => {
+    const contribution = (index: number) =>
+      getDcaContribution(GROWTH, 100, "monthly", step({ index }));
+
+    expect(contribution(0)).toBe(100);
+    expect(contribution(11)).toBe(100);
+    expect(contribution(12)).toBeCloseTo(110, 10);
+    expect(contribution(24)).toBeCloseTo(121, 10);
+    expect(contribution(36)).toBeCloseTo(133.1, 10);
+  });
+});
+
+describe("parseDcaStrategy", () => {
+  it("round-trips the URL params", () => {
+    const strategies: DcaStrategy[] = [
+      VALUE_AVERAGING,
+      { ...DROP_BOOST, boost: 4.5 },
+      { ...GROWTH, growth: 25 },
+    ];
+
+    for (const strategy of strategies) {
+      const searchParams = new URLSearchParams();
+      setDcaStrategyParams(searchParams, strategy);
+      expect(parseDcaStrategy(searchParams)).toEqual(strategy);
+    }
+  });
+
+  it("falls back to the defaults for out-of-range params", () => {
+    expect(parseDcaStrategy(new URLSearchParams("strategy=martingale"))).toBe(
+      null,
+    );
+    expect(
+      parseDcaStrategy(
+        new URLSearchParams("strategy=drop-boost&boost=50&growth=abc"),
+      ),
+    ).toEqual({ ...DROP_BOOST, boost: DEFAULT_DCA_STRATEGY.boost });
+  });
+});
@@ -0,0 +1,136 @@
+import type { DcaFrequency } from "@/lib/dca-calculator";
+import { getPeriodDays } from "@/lib/dca-paths";
+import { readParam, type QueryInput } from "@/lib/query-params";
+
+const DAYS_PER_YEAR = 365.25;
+
+export const DCA_STRATEGY_TYPES = [
+  "fixed",
+  "value-averaging",
+  "drop-boost",
+  "growth",
+] as const;
+
+export type DcaStrategyType = (typeof DCA_STRATEGY_TYPES)[number];
+
+export const DCA_STRATEGY_LABELS: Record<DcaStrategyType, string> = {
+  fixed: "Monto fijo",
+  "value-averaging": "Value averaging",
+  "drop-boost": "Refuerzo en caídas",
+  growth: "Aumento programado",
+};
+
+export type DcaStrategy = {
+  type: DcaStrategyType;
+  // Refuerzo en caídas: % extra por cada 1% que bajó el precio desde la
+  // compra anterior (2 = un 10% de caída compra un 20% más).
+  boost: number;
+  // Aumento programado: % que sube el monto cada año, como un ajuste salarial.
+  growth: number;
+};
+
+export const DEFAULT_DCA_STRATEGY: DcaStrategy = {
+  type: "fixed",
+  boost: 2,
+  growth: 10,
+};
+
+export const MAX_DROP_BOOST = 10;
+export const MAX_AMOUNT_GROWTH = 100;
+// El refuerzo nunca compra más que esto por el monto base.
+export const MAX_BOOST_MULTIPLIER = 3;
+
+// Todo lo que escribe la estrategia en la URL.
+export const DCA_STRATEGY_PARAMS = ["strategy", "boost", "growth"] as const;
+
+function parseBounded(
+  value: string | null | undefined,
+  max: number,
+  fallback: number,
+) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= max
+    ? parsed
+    : fallback;
+}
+
+// Sin `strategy` el plan compra siempre el mismo monto.
+export function parseDcaStrategy(input: QueryInput): DcaStrategy | null {
+  const type = readParam(input, "strategy")?.toLowerCase();
+  const validType = DCA_STRATEGY_TYPES.find((item) => item === type);
+  if (!validType) return null;
+
+  return {
+    type: validType,
+    boost: parseBounded(
+      readParam(input, "boost"),
+      MAX_DROP_BOOST,
+      DEFAULT_DCA_STRATEGY.boost,
+    ),
+    growth: parseBounded(
+      readParam(input, "growth"),
+      MAX_AMOUNT_GROWTH,
+      DEFAULT_DCA_STRATEGY.growth,
+    ),
+  };
+}
+
+export function setDcaStrategyParams(
+  searchParams: URLSearchParams,
+  strategy: DcaStrategy,
+) {
+  if (strategy.type === "fixed") return;
+  searchParams.set("strategy", strategy.type);
+  if (strategy.type === "drop-boost") {
+    searchParams.set("boost", String(strategy.boost));
+  }
+  if (strategy.type === "growth") {
+    searchParams.set("growth", String(strategy.growth));
+  }
+}
+
+export type DcaStep = {
+  // Número de compra, desde 0.
+  index: number;
+  price: number;
+  // Precio de la fecha programada anterior; null en la primera.
+  previousPrice: number | null;
+  // Valor a este precio de lo acumulado, incluido el efectivo pendiente.
+  holdings: number;
+};
+
+// Cuánto aporta el plan en cada fecha según la estrategia. El monto por
+// compra es la base: el aporte fijo, el crecimiento del valor objetivo o el
+// monto antes de refuerzos y aumentos.
+export function getDcaContribution(
+  strategy: DcaStrategy,
+  amountPerBuy: number,
+  frequency: DcaFrequency,
+  step: DcaStep,
+) {
+  switch (strategy.type) {
+    case "fixed":
+      return amountPerBuy;
+    case "value-averaging":
+      // Aporta lo que falta para el valor objetivo; si sobra, no vende.
+      return Math.max(amountPerBuy * (step.index + 1) - step.holdings, 0);
+    case "drop-boost": {
+      const drop =
+        step.previousPrice && step.previousPrice > step.price
+          ? (1 - step.price / step.previousPrice) * 100
+          : 0;
+      const multiplier = Math.min(
+        1 + (drop * strategy.boost) / 100,
+        MAX_BOOST_MULTIPLIER,
+      );
+      return amountPerBuy * multiplier;
+    }
+    case "growth": {
+      const years = Math.floor(
+        (step.index * getPeriodDays(frequency)) / DAYS_PER_YEAR,
+      );
+      return amountPerBuy * (1 + strategy.growth / 100) ** years;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { RANGE_PRESETS, type RangePreset } from "@/lib/chart-window";
+import {
+  CURRENCY_LOCALES,
+  parseCurrency,
+  SUPPORTED_CURRENCIES,
+  type Currency,
+} from "@/lib/currency";
+import { readParam, type QueryInput } from "@/lib/query-params";
+
+export const EMBED_CHARTS = ["rainbow", "realized", "dca"] as const;
+
+export type EmbedChart = (typeof EMBED_CHARTS)[number];
+
+export const EMBED_CHART_LABELS: Record<EmbedChart, string> = {
+  rainbow: "Bitcoin Rainbow Chart",
+  realized: "Precio BTC vs. precio realizado",
+  dca: "Calculadora DCA",
+};
+
+export const EMBED_THEMES = ["dark", "light"] as const;
+
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+// Los mismos locales que ya usan las monedas soportadas.
+export const EMBED_LOCALES = [
+  ...new Set(SUPPORTED_CURRENCIES.map((currency) => CURRENCY_LOCALES[currency])),
+];
+
+export const MIN_EMBED_HEIGHT = 240;
+export const MAX_EMBED_HEIGHT = 1200;
+
+export type EmbedSettings = {
+  theme: EmbedTheme;
+  // No aplica a la calculadora DCA, que no tiene eje temporal.
+  range: RangePreset;
+  // Alto del iframe en px; el widget ocupa todo ese alto.
+  height: number;
+  currency: Currency;
+  locale: string;
+};
+
+export const DEFAULT_EMBED_HEIGHTS: Record<EmbedChart, number> = {
+  rainbow: 560,
+  realized: 480,
+  dca: 900,
+};
+
+function isRangePreset(value: unknown): value is RangePreset {
+  return (
+    typeof value === "string" && RANGE_PRESETS.some(({ id }) => id === value)
+  );
+}
+
+export function getDefaultEmbedSettings(chart: EmbedChart): EmbedSettings {
+  return {
+    theme: "dark",
+    range: "all",
+    height: DEFAULT_EMBED_HEIGHTS[chart],
+    currency: "USD",
+    locale: CURRENCY_LOCALES.USD,
+  };
+}
+
+// Quien pega el iframe no ve errores: lo que no se entiende se ignora y un alto
+// fuera de rango se acota.
+export function parseEmbedSettings(
+  chart: EmbedChart,
+  input: QueryInput,
+): EmbedSettings {
+  const defaults = getDefaultEmbedSettings(chart);
+  const theme = readParam(input, "theme")?.toLowerCase();
+  const range = readParam(input, "range")?.toLowerCase();
+  // `height=` vacío cuenta como ausente, no como 0.
+  const rawHeight = readParam(input, "height")?.trim();
+  const height = rawHeight ? Number(rawHeight) : NaN;
+  const currency = parseCurrency(readParam(input, "currency"));
+  const locale = readParam(input, "locale");
+
+  return {
+    theme: theme === "light" || theme === "dark" ? theme : defaults.theme,
+    range: isRangePreset(range) ? range : defaults.range,
+    height: Number.isFinite(height)
+      ? Math.min(Math.max(Math.round(height), MIN_EMBED_HEIGHT), MAX_EMBED_HEIGHT)
+      : defaults.height,
+    currency,
+    locale:
+      locale && EMBED_LOCALES.includes(locale)
+        ? locale
+        : CURRENCY_LOCALES[currency],
+  };
+}
+
+// Los valores del widget por defecto no se escriben en el src del iframe.
+export function buildEmbedUrl(
+  origin: string,
+  chart: EmbedChart,
+  settings: EmbedSettings,
+) {
+  const defaults = getDefaultEmbedSettings(chart);
+  const params = new URLSearchParams();
+
+  if (settings.theme !== defaults.theme) params.set("theme", settings.theme);
+  if (chart !== "dca" && settings.range !== defaults.range) {
+    params.set("range", settings.range);
+  }
+  if (settings.height !== defaults.height) {
+    params.set("height", String(settings.height));
+  }
+  if (settings.currency !== defaults.currency) {
+    params.set("currency", settings.currency);
+  }
+  if (settings.locale !== CURRENCY_LOCALES[settings.currency]) {
+    params.set("locale", settings.locale);
+  }
+
+  const query = params.toString();
+  return `${origin}/embed/${chart}${query ? `?${query}` : ""}`;
+}
+
+export function buildEmbedSnippet(
+  origin: string,
+  chart: EmbedChart,
+  settings: EmbedSettings,
+) {
+  const src = buildEmbedUrl(origin, chart, settings).replace(/&/g, "&amp;");
+  return `<iframe src="${src}" title="${EMBED_CHART_LABELS[chart]} · BitAtlas" width="100%" height="${settings.height}" style="border:0;border-radius:16px;max-width:100%" loading="lazy"></iframe>`;
+}
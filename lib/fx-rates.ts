@@ -0,0 +1,102 @@
+import { SUPPORTED_CURRENCIES, type Currency } from "@/lib/currency";
+import {
+  syncUsdArsHistory,
+  syncUsdEurHistory,
+} from "@/lib/history-sources";
+import type { HistoryPoint, SyncedSeries } from "@/lib/price-history";
+
+export type FxSeries = {
+  currency: Currency;
+  points: HistoryPoint[];
+  source: string | null;
+  stale: boolean;
+};
+
+export type LatestFxRate = {
+  currency: Currency;
+  rate: number;
+  date: string | null;
+  source: string | null;
+};
+
+const FX_LOADERS: Record<Exclude<Currency, "USD">, () => Promise<SyncedSeries>> =
+  {
+    EUR: syncUsdEurHistory,
+    ARS: () => syncUsdArsHistory("oficial"),
+  };
+
+// USD es la moneda base de todos los upstreams: su serie es la identidad.
+export async function loadFxSeries(currency: Currency): Promise<FxSeries> {
+  if (currency === "USD") {
+    return { currency, points: [], source: null, stale: false };
+  }
+
+  const history = await FX_LOADERS[currency]();
+  if (history.points.length === 0) {
+    throw new Error(`No USD/${currency} history available`);
+  }
+
+  return {
+    currency,
+    points: history.points,
+    source: history.meta.source,
+    stale: history.stale,
+  };
+}
+
+// Toma la última cotización publicada hasta esa fecha (fines de semana y
+// feriados arrastran el valor previo); antes del primer dato usa el primero.
+export function createFxConverter(points: HistoryPoint[]) {
+  if (points.length === 0) {
+    return () => 1;
+  }
+
+  return (date: string) => {
+    let low = 0;
+    let high = points.length - 1;
+    let match = 0;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].date <= date) {
+        match = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return points[match].value;
+  };
+}
+
+export function convertHistory(
+  points: HistoryPoint[],
+  fx: FxSeries,
+): HistoryPoint[] {
+  if (fx.currency === "USD") return points;
+  const rateAt = createFxConverter(fx.points);
+  return points.map((point) => ({
+    date: point.date,
+    value: point.value * rateAt(point.date),
+  }));
+}
+
+export function getLatestRate(fx: FxSeries): LatestFxRate {
+  const last = fx.points[fx.points.length - 1];
+  return {
+    currency: fx.currency,
+    rate: fx.currency === "USD" ? 1 : (last?.value ?? 1),
+    date: last?.date ?? null,
+    source: fx.source,
+  };
+}
+
+export async function loadLatestFxRates(): Promise<
+  Record<Currency, LatestFxRate>
+> {
+  const series = await Promise.all(SUPPORTED_CURRENCIES.map(loadFxSeries));
+  return Object.fromEntries(
+    series.map((fx) => [fx.currency, getLatestRate(fx)]),
+  ) as Record<Currency, LatestFxRate>;
+}
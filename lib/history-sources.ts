@@ -0,0 +1,291 @@
+import {
+  syncSeries,
+  toIsoDate,
+  type HistoryPoint,
+  type PriceSeriesId,
+  type SyncedSeries,
+} from "@/lib/price-history";
+import {
+  fetchUpstreamJson,
+  getUpstreamMode,
+  readFixture,
+  type UpstreamFixture,
+} from "@/lib/upstream-fixtures";
+import {
+  array,
+  nullable,
+  number,
+  numeric,
+  object,
+  record,
+  string,
+  tuple,
+  validate,
+} from "@/lib/upstream-schema";
+
+const BITCOIN_COM_RAINBOW_URL = "https://charts.bitcoin.com/api/v1/charts/rainbow";
+const BGEOMETRICS_REALIZED_PRICE_URL =
+  "https://charts.bgeometrics.com/files/realized_price.json";
+const BGEOMETRICS_BTC_PRICE_URL =
+  "https://charts.bgeometrics.com/files/realized_price_btc_price.json";
+const FRANKFURTER_URL = "https://api.frankfurter.app";
+const ARGENTINADATOS_DOLARES_URL =
+  "https://api.argentinadatos.com/v1/cotizaciones/dolares";
+const FX_HISTORY_START = "2010-07-01";
+
+export const BTC_PRICE_SYNC_SECONDS = 3600;
+export const REALIZED_PRICE_SYNC_SECONDS = 3600;
+export const FX_SYNC_SECONDS = 60 * 60 * 6;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is UnknownRecord {
+  return typeof v === "object" && v !== null;
+}
+
+function toMs(ts: number) {
+  return ts < 10_000_000_000 ? ts * 1000 : ts;
+}
+
+// El upstream solo acepta rangos fijos: pedimos el más chico que cubra el hueco.
+function pickRainbowTimespan(lastDate: string | null) {
+  if (!lastDate) return "all";
+  const days = (Date.now() - Date.parse(`${lastDate}T00:00:00Z`)) / DAY_MS;
+  if (days <= 25) return "30d";
+  if (days <= 360) return "1y";
+  if (days <= 720) return "2y";
+  if (days <= 1800) return "5y";
+  return "all";
+}
+
+const rainbowSeriesSchema = object({
+  price: array(
+    object({
+      timestamp: number(),
+      price: nullable(number()),
+    }),
+    { minLength: 1 },
+  ),
+});
+
+// Los valores a veces llegan como string, igual que los leía la ruta original.
+const bgeometricsSeriesSchema = array(tuple([number(), nullable(numeric())]), {
+  minLength: 1,
+});
+
+const frankfurterSeriesSchema = object({
+  rates: record(object({ EUR: number() })),
+});
+
+const argentinaDatosSeriesSchema = array(
+  object({
+    casa: string(),
+    venta: nullable(number()),
+    fecha: string(),
+  }),
+  { minLength: 1 },
+);
+
+function parseRainbowPrices(json: unknown): HistoryPoint[] {
+  const payload = isRecord(json) && "data" in json ? json.data : json;
+  const { price } = validate(
+    "charts.bitcoin.com rainbow",
+    rainbowSeriesSchema,
+    payload,
+  );
+
+  const points: HistoryPoint[] = [];
+  for (const item of price) {
+    if (item.price === null || item.price <= 0) continue;
+    points.push({ date: toIsoDate(toMs(item.timestamp)), value: item.price });
+  }
+  return points;
+}
+
+function parseBGeometricsSeries(source: string) {
+  return (json: unknown): HistoryPoint[] => {
+    const series = validate(source, bgeometricsSeriesSchema, json);
+
+    const points: HistoryPoint[] = [];
+    for (const [timestamp, raw] of series) {
+      if (raw === null) continue;
+      points.push({ date: toIsoDate(timestamp), value: Number(raw) });
+    }
+    return points;
+  };
+}
+
+function parseFrankfurterEur(json: unknown): HistoryPoint[] {
+  const { rates } = validate("Frankfurter USD/EUR", frankfurterSeriesSchema, json);
+  return Object.entries(rates).map(([date, rate]) => ({
+    date,
+    value: rate.EUR,
+  }));
+}
+
+function parseArgentinaDatosSeries(source: string) {
+  return (json: unknown): HistoryPoint[] => {
+    const quotes = validate(source, argentinaDatosSeriesSchema, json);
+
+    const points: HistoryPoint[] = [];
+    for (const quote of quotes) {
+      if (quote.venta === null || quote.venta <= 0) continue;
+      points.push({ date: quote.fecha.slice(0, 10), value: quote.venta });
+    }
+    return points;
+  };
+}
+
+type SeriesSource = {
+  id: PriceSeriesId;
+  fixture: UpstreamFixture;
+  source: string;
+  maxAgeSeconds: number;
+  parse: (json: unknown) => HistoryPoint[];
+  buildUrl: (lastDate: string | null) => string;
+};
+
+// En modo fixture no se toca el store: el resultado tiene que ser determinista.
+async function readFixtureSeries(series: SeriesSource): Promise<SyncedSeries> {
+  const byDate = new Map(
+    series
+      .parse(await readFixture(series.fixture))
+      .map((point) => [point.date, point.value]),
+  );
+
+  return {
+    points: Array.from(byDate, ([date, value]) => ({ date, value })).sort(
+      (a, b) => a.date.localeCompare(b.date),
+    ),
+    meta: { syncedAt: null, source: `${series.source} (fixture)` },
+    appended: 0,
+    stale: false,
+  };
+}
+
+function loadSeries(series: SeriesSource): Promise<SyncedSeries> {
+  const mode = getUpstreamMode();
+  if (mode === "fixture") {
+    return readFixtureSeries(series);
+  }
+
+  // Para grabar fixtures hace falta el payload completo, no solo el delta.
+  const recording = mode === "record";
+
+  return syncSeries(series.id, {
+    source: series.source,
+    maxAgeSeconds: recording ? 0 : series.maxAgeSeconds,
+    fetchSince: async (storedLastDate) => {
+      const lastDate = recording ? null : storedLastDate;
+      const json = await fetchUpstreamJson(
+        series.fixture,
+        series.buildUrl(lastDate),
+        { cache: "no-store" },
+      );
+      const points = series.parse(json);
+      return lastDate
+        ? points.filter((point) => point.date >= lastDate)
+        : points;
+    },
+  });
+}
+
+export function syncBtcPriceHistory(): Promise<SyncedSeries> {
+  return loadSeries({
+    id: "btc-price",
+    fixture: "bitcoin-com-rainbow",
+    source: "charts.bitcoin.com",
+    maxAgeSeconds: BTC_PRICE_SYNC_SECONDS,
+    parse: parseRainbowPrices,
+    buildUrl: (lastDate) => {
+      const url = new URL(BITCOIN_COM_RAINBOW_URL);
+      url.searchParams.set("interval", "daily");
+      url.searchParams.set("timespan", pickRainbowTimespan(lastDate));
+      url.searchParams.set("limit", "10000");
+      return url.toString();
+    },
+  });
+}
+
+// BGeometrics solo publica el archivo completo: el delta se recorta localmente.
+export async function syncRealizedPriceHistory() {
+  const [realized, btcPrice] = await Promise.all([
+    loadSeries({
+      id: "realized-price",
+      fixture: "bgeometrics-realized-price",
+      source: "BGeometrics",
+      maxAgeSeconds: REALIZED_PRICE_SYNC_SECONDS,
+      parse: parseBGeometricsSeries("BGeometrics realized price"),
+      buildUrl: () => BGEOMETRICS_REALIZED_PRICE_URL,
+    }),
+    loadSeries({
+      id: "realized-btc-price",
+      fixture: "bgeometrics-btc-price",
+      source: "BGeometrics",
+      maxAgeSeconds: REALIZED_PRICE_SYNC_SECONDS,
+      parse: parseBGeometricsSeries("BGeometrics BTC price"),
+      buildUrl: () => BGEOMETRICS_BTC_PRICE_URL,
+    }),
+  ]);
+
+  return { realized, btcPrice };
+}
+
+// Cotizaciones expresadas como unidades de la moneda por cada USD.
+export function syncUsdEurHistory(): Promise<SyncedSeries> {
+  return loadSeries({
+    id: "fx-usd-eur",
+    fixture: "frankfurter-usd-eur",
+    source: "Frankfurter (BCE)",
+    maxAgeSeconds: FX_SYNC_SECONDS,
+    parse: parseFrankfurterEur,
+    buildUrl: (lastDate) => {
+      const url = new URL(
+        `${FRANKFURTER_URL}/${lastDate ?? FX_HISTORY_START}..`,
+      );
+      url.searchParams.set("from", "USD");
+      url.searchParams.set("to", "EUR");
+      return url.toString();
+    },
+  });
+}
+
+// "bolsa" es el nombre que usa ArgentinaDatos para el dólar MEP.
+export type ArgentinaDatosCasa = "oficial" | "bolsa" | "blue";
+
+const ARGENTINADATOS_SERIES: Record<
+  ArgentinaDatosCasa,
+  { id: PriceSeriesId; fixture: UpstreamFixture; label: string }
+> = {
+  oficial: {
+    id: "fx-usd-ars",
+    fixture: "argentinadatos-oficial",
+    label: "dólar oficial",
+  },
+  bolsa: {
+    id: "fx-usd-ars-mep",
+    fixture: "argentinadatos-bolsa",
+    label: "dólar MEP",
+  },
+  blue: {
+    id: "fx-usd-ars-blue",
+    fixture: "argentinadatos-blue",
+    label: "dólar blue",
+  },
+};
+
+export function syncUsdArsHistory(
+  casa: ArgentinaDatosCasa = "oficial",
+): Promise<SyncedSeries> {
+  const series = ARGENTINADATOS_SERIES[casa];
+  return loadSeries({
+    id: series.id,
+    fixture: series.fixture,
+    source: "ArgentinaDatos",
+    maxAgeSeconds: FX_SYNC_SECONDS,
+    parse: parseArgentinaDatosSeries(`ArgentinaDatos ${series.label}`),
+    buildUrl: () => `${ARGENTINADATOS_DOLARES_URL}/${casa}`,
+  });
+}
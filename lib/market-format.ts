@@ -0,0 +1,45 @@
+import { getCurrencyFormatter, type Currency } from "@/lib/currency";
+
+// Formatos compartidos entre la tabla de mercados y el detalle de cada activo.
+const supplyFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 2,
+});
+
+export function formatSupply(value: number | null, symbol: string) {
+  return value === null ? "N/D" : `${supplyFormatter.format(value)} ${symbol}`;
+}
+
+export function createCurrencyFormatter(currency: Currency) {
+  const compactFormatter = getCurrencyFormatter(currency, {
+    notation: "compact",
+    maximumFractionDigits: 2,
+  });
+  const priceFormatter = getCurrencyFormatter(currency, {
+    maximumFractionDigits: 2,
+  });
+  const smallPriceFormatter = getCurrencyFormatter(currency, {
+    maximumFractionDigits: 6,
+  });
+
+  return function formatCurrency(value: number | null, compact = false) {
+    if (value === null) return "N/D";
+    if (compact) return compactFormatter.format(value);
+    if (value >= 1000) return compactFormatter.format(value);
+    if (value >= 1) return priceFormatter.format(value);
+    return smallPriceFormatter.format(value);
+  };
+}
+
+export function formatPercent(value: number | null) {
+  if (value === null) return "N/D";
+  const sign = value > 0 ? "+" : "";
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+export function changeTone(value: number | null) {
+  if (value === null) return "text-text-secondary";
+  if (value > 0) return "text-green-500 dark:text-green-400";
+  if (value < 0) return "text-red-500 dark:text-red-400";
+  return "text-text-secondary";
+}
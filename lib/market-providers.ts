@@ -0,0 +1,215 @@
+import type { CryptoMarket } from "@/lib/crypto-markets";
+import {
+  fetchUpstreamJson,
+  getUpstreamMode,
+  readFixture,
+} from "@/lib/upstream-fixtures";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  validate,
+  type Infer,
+} from "@/lib/upstream-schema";
+
+export const MARKET_DATA_REVALIDATE_SECONDS = 300;
+// Se trae un universo amplio de una sola vez; el paginado, orden y filtros se
+// aplican del lado del servidor (ver lib/market-query.ts).
+export const MARKET_UNIVERSE_SIZE = 250;
+
+const COINGECKO_MARKETS_URL =
+  "https://api.coingecko.com/api/v3/coins/markets";
+const COINCAP_ASSETS_URL = "https://rest.coincap.io/v3/assets";
+
+export type MarketProviderId = "coingecko" | "coincap" | "fixture";
+
+export type MarketProvider = {
+  id: MarketProviderId;
+  label: string;
+  fetchMarkets: () => Promise<CryptoMarket[]>;
+};
+
+const coinGeckoMarketsSchema = array(
+  object({
+    id: string(),
+    symbol: string(),
+    name: string(),
+    market_cap_rank: nullable(number()),
+    current_price: nullable(number()),
+    market_cap: nullable(number()),
+    total_volume: nullable(number()),
+    circulating_supply: nullable(number()),
+    price_change_percentage_24h: nullable(number()),
+    ath_change_percentage: nullable(number()),
+  }),
+);
+
+// CoinCap devuelve todos los valores numéricos como strings.
+const coinCapAssetsSchema = object({
+  data: array(
+    object({
+      id: string(),
+      rank: nullable(string()),
+      symbol: string(),
+      name: string(),
+      supply: nullable(string()),
+      marketCapUsd: nullable(string()),
+      volumeUsd24Hr: nullable(string()),
+      priceUsd: nullable(string()),
+      changePercent24Hr: nullable(string()),
+    }),
+  ),
+});
+
+type CoinGeckoMarket = Infer<typeof coinGeckoMarketsSchema>[number];
+type CoinCapAsset = Infer<typeof coinCapAssetsSchema>["data"][number];
+
+function asNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function asNumericString(value: unknown) {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+function mapCoinGeckoMarket(item: CoinGeckoMarket): CryptoMarket {
+  return {
+    id: asString(item.id),
+    symbol: asString(item.symbol).toUpperCase(),
+    name: asString(item.name),
+    rank: asNumber(item.market_cap_rank),
+    currentPrice: asNumber(item.current_price),
+    marketCap: asNumber(item.market_cap),
+    totalVolume: asNumber(item.total_volume),
+    circulatingSupply: asNumber(item.circulating_supply),
+    priceChange24h: asNumber(item.price_change_percentage_24h),
+    athChangePercentage: asNumber(item.ath_change_percentage),
+  };
+}
+
+function mapCoinCapAsset(item: CoinCapAsset): CryptoMarket {
+  return {
+    id: asString(item.id),
+    symbol: asString(item.symbol).toUpperCase(),
+    name: asString(item.name),
+    rank: asNumericString(item.rank),
+    currentPrice: asNumericString(item.priceUsd),
+    marketCap: asNumericString(item.marketCapUsd),
+    totalVolume: asNumericString(item.volumeUsd24Hr),
+    circulatingSupply: asNumericString(item.supply),
+    priceChange24h: asNumericString(item.changePercent24Hr),
+    athChangePercentage: null,
+  };
+}
+
+function mapCoinGeckoPayload(payload: unknown, source = "CoinGecko markets") {
+  return validate(source, coinGeckoMarketsSchema, payload).map(
+    mapCoinGeckoMarket,
+  );
+}
+
+async function fetchCoinGeckoMarkets() {
+  const url = new URL(COINGECKO_MARKETS_URL);
+  url.searchParams.set("vs_currency", "usd");
+  url.searchParams.set("order", "market_cap_desc");
+  url.searchParams.set("per_page", String(MARKET_UNIVERSE_SIZE));
+  url.searchParams.set("page", "1");
+  url.searchParams.set("sparkline", "false");
+  url.searchParams.set("price_change_percentage", "24h");
+
+  const payload = await fetchUpstreamJson("coingecko-markets", url.toString(), {
+    next: { revalidate: MARKET_DATA_REVALIDATE_SECONDS },
+  });
+
+  return mapCoinGeckoPayload(payload);
+}
+
+async function fetchCoinCapMarkets() {
+  const url = new URL(COINCAP_ASSETS_URL);
+  url.searchParams.set("limit", String(MARKET_UNIVERSE_SIZE));
+
+  const headers: HeadersInit = { accept: "application/json" };
+  if (process.env.COINCAP_API_KEY) {
+    headers.authorization = `Bearer ${process.env.COINCAP_API_KEY}`;
+  }
+
+  const response = await fetch(url.toString(), {
+    next: { revalidate: MARKET_DATA_REVALIDATE_SECONDS },
+    headers,
+  });
+
+  if (!response.ok) {
+    throw new Error(`CoinCap responded with ${response.status}`);
+  }
+
+  const { data } = validate(
+    "CoinCap assets",
+    coinCapAssetsSchema,
+    await response.json(),
+  );
+
+  return data.map(mapCoinCapAsset);
+}
+
+// Snapshot local con el mismo formato que /coins/markets de CoinGecko.
+async function fetchFixtureMarkets() {
+  const payload = await readFixture("coingecko-markets");
+  return mapCoinGeckoPayload(payload, "Market fixture").slice(
+    0,
+    MARKET_UNIVERSE_SIZE,
+  );
+}
+
+export const MARKET_PROVIDERS: Record<MarketProviderId, MarketProvider> = {
+  coingecko: {
+    id: "coingecko",
+    label: "CoinGecko",
+    fetchMarkets: fetchCoinGeckoMarkets,
+  },
+  coincap: {
+    id: "coincap",
+    label: "CoinCap",
+    fetchMarkets: fetchCoinCapMarkets,
+  },
+  fixture: {
+    id: "fixture",
+    label: "Snapshot local",
+    fetchMarkets: fetchFixtureMarkets,
+  },
+};
+
+export const DEFAULT_MARKET_PROVIDER_ORDER: MarketProviderId[] = [
+  "coingecko",
+  "coincap",
+  "fixture",
+];
+
+function isMarketProviderId(value: string): value is MarketProviderId {
+  return Object.hasOwn(MARKET_PROVIDERS, value);
+}
+
+// MARKET_PROVIDERS="coincap,coingecko" permite cambiar el orden de failover.
+// En UPSTREAM_MODE=fixture solo se usa el snapshot local.
+export function getMarketProviderOrder(
+  configured = process.env.MARKET_PROVIDERS,
+): MarketProvider[] {
+  if (getUpstreamMode() === "fixture") {
+    return [MARKET_PROVIDERS.fixture];
+  }
+
+  const ids = (configured ?? "")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(isMarketProviderId);
+  const order = ids.length > 0 ? ids : DEFAULT_MARKET_PROVIDER_ORDER;
+
+  return Array.from(new Set(order)).map((id) => MARKET_PROVIDERS[id]);
+}
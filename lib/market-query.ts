@@ -0,0 +1,170 @@
+import type { CryptoMarket } from "@/lib/crypto-markets";
+import { readParam, type QueryInput } from "@/lib/query-params";
+
+export const MARKET_SORT_FIELDS = [
+  "rank",
+  "currentPrice",
+  "marketCap",
+  "totalVolume",
+  "circulatingSupply",
+  "priceChange24h",
+  "athChangePercentage",
+] as const;
+
+export type MarketSortField = (typeof MARKET_SORT_FIELDS)[number];
+
+export type SortDirection = "asc" | "desc";
+
+export const DEFAULT_MARKET_PAGE_SIZE = 30;
+export const MAX_MARKET_PAGE_SIZE = 100;
+
+export type MarketQuery = {
+  page: number;
+  pageSize: number;
+  sort: MarketSortField;
+  dir: SortDirection;
+  // Mínimos expresados en la moneda pedida.
+  minMarketCap: number | null;
+  minVolume: number | null;
+  search: string;
+};
+
+export type MarketPaging = {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+};
+
+export const DEFAULT_MARKET_QUERY: MarketQuery = {
+  page: 1,
+  pageSize: DEFAULT_MARKET_PAGE_SIZE,
+  sort: "rank",
+  dir: "asc",
+  minMarketCap: null,
+  minVolume: null,
+  search: "",
+};
+
+function parsePositiveInt(value: string | null | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : fallback;
+}
+
+function parseMinimum(value: string | null | undefined) {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function isSortField(value: unknown): value is MarketSortField {
+  return (
+    typeof value === "string" &&
+    (MARKET_SORT_FIELDS as readonly string[]).includes(value)
+  );
+}
+
+// Igual que con la moneda, un parámetro inválido cae al valor por defecto.
+export function parseMarketQuery(input: QueryInput): MarketQuery {
+  const sort = readParam(input, "sort");
+  const dir = readParam(input, "dir")?.toLowerCase();
+
+  return {
+    page: parsePositiveInt(readParam(input, "page"), DEFAULT_MARKET_QUERY.page),
+    pageSize: Math.min(
+      parsePositiveInt(
+        readParam(input, "pageSize"),
+        DEFAULT_MARKET_QUERY.pageSize,
+      ),
+      MAX_MARKET_PAGE_SIZE,
+    ),
+    sort: isSortField(sort) ? sort : DEFAULT_MARKET_QUERY.sort,
+    dir: dir === "asc" || dir === "desc" ? dir : DEFAULT_MARKET_QUERY.dir,
+    minMarketCap: parseMinimum(readParam(input, "minMarketCap")),
+    minVolume: parseMinimum(readParam(input, "minVolume")),
+    search: readParam(input, "q")?.trim().slice(0, 40) ?? "",
+  };
+}
+
+// Solo serializa lo que difiere del default, para que las URLs queden cortas.
+export function buildMarketQueryString(query: Partial<MarketQuery>) {
+  const params = new URLSearchParams();
+  const merged = { ...DEFAULT_MARKET_QUERY, ...query };
+
+  if (merged.page !== DEFAULT_MARKET_QUERY.page) {
+    params.set("page", String(merged.page));
+  }
+  if (merged.pageSize !== DEFAULT_MARKET_QUERY.pageSize) {
+    params.set("pageSize", String(merged.pageSize));
+  }
+  if (merged.sort !== DEFAULT_MARKET_QUERY.sort) params.set("sort", merged.sort);
+  if (merged.dir !== DEFAULT_MARKET_QUERY.dir) params.set("dir", merged.dir);
+  if (merged.minMarketCap !== null) {
+    params.set("minMarketCap", String(merged.minMarketCap));
+  }
+  if (merged.minVolume !== null) {
+    params.set("minVolume", String(merged.minVolume));
+  }
+  if (merged.search) params.set("q", merged.search);
+
+  const serialized = params.toString();
+  return serialized ? `?${serialized}` : "";
+}
+
+function matchesSearch(market: CryptoMarket, search: string) {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return (
+    market.symbol.toLowerCase().includes(needle) ||
+    market.name.toLowerCase().includes(needle)
+  );
+}
+
+// Los valores faltantes van siempre al final, sin importar la dirección.
+function compareMarkets(
+  a: CryptoMarket,
+  b: CryptoMarket,
+  sort: MarketSortField,
+  dir: SortDirection,
+) {
+  const left = a[sort];
+  const right = b[sort];
+  if (left === null && right === null) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return dir === "asc" ? left - right : right - left;
+}
+
+export function queryMarkets(markets: CryptoMarket[], query: MarketQuery) {
+  const filtered = markets
+    .filter(
+      (market) =>
+        matchesSearch(market, query.search) &&
+        (query.minMarketCap === null ||
+          (market.marketCap ?? 0) >= query.minMarketCap) &&
+        (query.minVolume === null ||
+          (market.totalVolume ?? 0) >= query.minVolume),
+    )
+    .sort((a, b) => compareMarkets(a, b, query.sort, query.dir));
+
+  const total = filtered.length;
+  const totalPages = Math.max(1, Math.ceil(total / query.pageSize));
+  const page = Math.min(query.page, totalPages);
+  const start = (page - 1) * query.pageSize;
+
+  const paging: MarketPaging = {
+    page,
+    pageSize: query.pageSize,
+    total,
+    totalPages,
+    hasPreviousPage: page > 1,
+    hasNextPage: page < totalPages,
+  };
+
+  return {
+    markets: filtered.slice(start, start + query.pageSize),
+    paging,
+  };
+}
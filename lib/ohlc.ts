@@ -0,0 +1,242 @@
+import type { Currency } from "@/lib/currency";
+import { createFxConverter, loadFxSeries } from "@/lib/fx-rates";
+import { syncBtcPriceHistory } from "@/lib/history-sources";
+import { toIsoDate, type HistoryPoint } from "@/lib/price-history";
+import { fetchUpstreamJson } from "@/lib/upstream-fixtures";
+import {
+  array,
+  number,
+  object,
+  string,
+  tuple,
+  validate,
+} from "@/lib/upstream-schema";
+
+const KRAKEN_OHLC_URL = "https://api.kraken.com/0/public/OHLC";
+const KRAKEN_PAIR = "XXBTZUSD";
+
+export const OHLC_RESOLUTIONS = ["1h", "1d", "1w"] as const;
+
+export type OhlcResolution = (typeof OHLC_RESOLUTIONS)[number];
+
+export const OHLC_REVALIDATE_SECONDS = 300;
+// Kraken devuelve como mucho las últimas 720 velas de cada intervalo.
+export const MAX_OHLC_LIMIT = 720;
+
+export const DEFAULT_OHLC_LIMITS: Record<OhlcResolution, number> = {
+  "1h": 168,
+  "1d": 365,
+  "1w": 260,
+};
+
+// Kraken mide el intervalo en minutos.
+const KRAKEN_INTERVALS: Record<OhlcResolution, number> = {
+  "1h": 60,
+  "1d": 1440,
+  "1w": 10080,
+};
+
+export type Candle = {
+  // Apertura de la vela, en milisegundos UTC.
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+};
+
+export type OhlcResult = {
+  resolution: OhlcResolution;
+  currency: Currency;
+  candles: Candle[];
+  source: string;
+  // true cuando las velas salen del histórico diario de cierres: sin mechas reales.
+  approximate: boolean;
+  fallbackReason?: string;
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Ante un error Kraken responde solo `{ error: [...] }`, sin `result`.
+const krakenErrorSchema = object({ error: array(string()) });
+
+// [time, open, high, low, close, vwap, volume, count]; los precios llegan como string.
+const krakenOhlcSchema = object({
+  result: object({
+    [KRAKEN_PAIR]: array(
+      tuple([
+        number(),
+        string(),
+        string(),
+        string(),
+        string(),
+        string(),
+        string(),
+        number(),
+      ]),
+      { minLength: 1 },
+    ),
+  }),
+});
+
+export function parseOhlcResolution(
+  value: string | null | undefined,
+): OhlcResolution {
+  const normalized = value?.trim().toLowerCase();
+  return (OHLC_RESOLUTIONS as readonly string[]).includes(normalized ?? "")
+    ? (normalized as OhlcResolution)
+    : "1d";
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function fetchKrakenCandles(
+  resolution: OhlcResolution,
+): Promise<Candle[]> {
+  const url = new URL(KRAKEN_OHLC_URL);
+  url.searchParams.set("pair", "XBTUSD");
+  url.searchParams.set("interval", String(KRAKEN_INTERVALS[resolution]));
+
+  const payload = await fetchUpstreamJson(
+    `kraken-ohlc-${resolution}`,
+    url.toString(),
+    { next: { revalidate: OHLC_REVALIDATE_SECONDS } },
+  );
+  const { error } = validate("Kraken OHLC", krakenErrorSchema, payload);
+  if (error.length > 0) {
+    throw new Error(`Kraken OHLC responded with ${error.join(", ")}`);
+  }
+  const { result } = validate("Kraken OHLC", krakenOhlcSchema, payload);
+
+  return result[KRAKEN_PAIR].map(
+    ([time, open, high, low, close, , volume]) => ({
+      time: time * 1000,
+      open: Number(open),
+      high: Number(high),
+      low: Number(low),
+      close: Number(close),
+      volume: Number(volume),
+    }),
+  ).filter((candle) =>
+    [candle.open, candle.high, candle.low, candle.close].every(
+      (value) => Number.isFinite(value) && value > 0,
+    ),
+  );
+}
+
+// Lunes 00:00 UTC de la semana de la fecha.
+function weekStart(date: string) {
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  const weekday = (new Date(ms).getUTCDay() + 6) % 7;
+  return ms - weekday * DAY_MS;
+}
+
+// Con solo cierres diarios, cada vela abre en el cierre anterior y sus extremos
+// son los cierres del período: el rango intraperíodo queda subestimado.
+export function aggregateDailyCandles(
+  points: HistoryPoint[],
+  resolution: "1d" | "1w",
+): Candle[] {
+  const candles: Candle[] = [];
+  let previousClose: number | null = null;
+
+  for (const point of points) {
+    const time =
+      resolution === "1w"
+        ? weekStart(point.date)
+        : Date.parse(`${point.date}T00:00:00Z`);
+    const current = candles[candles.length - 1];
+
+    if (current && current.time === time) {
+      current.high = Math.max(current.high, point.value);
+      current.low = Math.min(current.low, point.value);
+      current.close = point.value;
+    } else {
+      const open = previousClose ?? point.value;
+      candles.push({
+        time,
+        open,
+        high: Math.max(open, point.value),
+        low: Math.min(open, point.value),
+        close: point.value,
+        volume: null,
+      });
+    }
+
+    previousClose = point.value;
+  }
+
+  return candles;
+}
+
+function convertCandles(
+  candles: Candle[],
+  rateAt: (date: string) => number,
+): Candle[] {
+  return candles.map((candle) => {
+    const rate = rateAt(toIsoDate(candle.time));
+    return {
+      ...candle,
+      open: candle.open * rate,
+      high: candle.high * rate,
+      low: candle.low * rate,
+      close: candle.close * rate,
+    };
+  });
+}
+
+async function loadUsdCandles(resolution: OhlcResolution) {
+  try {
+    return {
+      candles: await fetchKrakenCandles(resolution),
+      source: "Kraken",
+      approximate: false,
+    };
+  } catch (error) {
+    const reason = getErrorMessage(error);
+    // El store local es diario: no alcanza para velas horarias.
+    if (resolution === "1h") {
+      throw new Error(`Hourly candles unavailable: ${reason}`);
+    }
+
+    const history = await syncBtcPriceHistory();
+    if (history.points.length === 0) {
+      throw new Error(`No BTC price history available: ${reason}`);
+    }
+
+    return {
+      candles: aggregateDailyCandles(history.points, resolution),
+      source: history.meta.source ?? "local history",
+      approximate: true,
+      fallbackReason: reason,
+    };
+  }
+}
+
+export async function loadBtcCandles(
+  resolution: OhlcResolution,
+  currency: Currency,
+  limit = DEFAULT_OHLC_LIMITS[resolution],
+): Promise<OhlcResult> {
+  const [usd, fx] = await Promise.all([
+    loadUsdCandles(resolution),
+    loadFxSeries(currency),
+  ]);
+  const size = Math.min(Math.max(1, Math.floor(limit)), MAX_OHLC_LIMIT);
+  const candles = usd.candles.slice(-size);
+
+  return {
+    resolution,
+    currency,
+    candles:
+      currency === "USD"
+        ? candles
+        : convertCandles(candles, createFxConverter(fx.points)),
+    source: usd.source,
+    approximate: usd.approximate,
+    fallbackReason: "fallbackReason" in usd ? usd.fallbackReason : undefined,
+  };
+}
@@ -0,0 +1,238 @@
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Por defecto se guarda dentro del proyecto; en entornos serverless conviene
+// apuntar PRICE_HISTORY_DIR a un directorio escribible (por ejemplo /tmp).
+const HISTORY_DIR =
+  process.env.PRICE_HISTORY_DIR ??
+  path.join(process.cwd(), ".data", "price-history");
+
+export type PriceSeriesId =
+  | "btc-price"
+  | "realized-price"
+  | "realized-btc-price"
+  | "fx-usd-eur"
+  | "fx-usd-ars"
+  | "fx-usd-ars-mep"
+  | "fx-usd-ars-blue";
+
+export type HistoryPoint = {
+  date: string;
+  value: number;
+};
+
+export type SeriesMeta = {
+  syncedAt: string | null;
+  source: string | null;
+};
+
+export type SyncedSeries = {
+  points: HistoryPoint[];
+  meta: SeriesMeta;
+  appended: number;
+  stale: boolean;
+  // Motivo por el que no se pudo refrescar (por ejemplo, un payload inválido).
+  staleReason?: string;
+};
+
+type SyncOptions = {
+  source: string;
+  maxAgeSeconds: number;
+  fetchSince: (lastDate: string | null) => Promise<HistoryPoint[]>;
+};
+
+const pendingSyncs = new Map<PriceSeriesId, Promise<SyncedSeries>>();
+
+function seriesPath(id: PriceSeriesId) {
+  return path.join(HISTORY_DIR, `${id}.jsonl`);
+}
+
+function metaPath(id: PriceSeriesId) {
+  return path.join(HISTORY_DIR, `${id}.meta.json`);
+}
+
+function isMissingFile(error: unknown) {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+export function toIsoDate(timestampMs: number) {
+  return new Date(timestampMs).toISOString().slice(0, 10);
+}
+
+// Reparte los puntos de forma pareja y conserva siempre el último cierre.
+export function limitPoints(points: HistoryPoint[], limit: number) {
+  if (!Number.isFinite(limit) || limit <= 0 || points.length <= limit) {
+    return points;
+  }
+
+  const step = points.length / limit;
+  const sampled: HistoryPoint[] = [];
+  for (let i = 0; i < limit - 1; i += 1) {
+    sampled.push(points[Math.floor(i * step)]);
+  }
+  sampled.push(points[points.length - 1]);
+  return sampled;
+}
+
+function parseLine(line: string): HistoryPoint | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (typeof parsed !== "object" || parsed === null) return null;
+    const { date, value } = parsed as Record<string, unknown>;
+    if (typeof date !== "string" || typeof value !== "number") return null;
+    if (!Number.isFinite(value)) return null;
+    return { date, value };
+  } catch {
+    // Una línea cortada (por ejemplo, por un proceso interrumpido) se ignora.
+    return null;
+  }
+}
+
+export async function readSeries(id: PriceSeriesId): Promise<HistoryPoint[]> {
+  let raw: string;
+  try {
+    raw = await readFile(seriesPath(id), "utf8");
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+
+  // Si una fecha aparece más de una vez, gana la última línea escrita.
+  const byDate = new Map<string, number>();
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const point = parseLine(line);
+    if (point) byDate.set(point.date, point.value);
+  }
+
+  return Array.from(byDate, ([date, value]) => ({ date, value })).sort(
+    (a, b) => a.date.localeCompare(b.date),
+  );
+}
+
+export async function readSeriesMeta(id: PriceSeriesId): Promise<SeriesMeta> {
+  try {
+    const parsed = JSON.parse(await readFile(metaPath(id), "utf8")) as
+      | Partial<SeriesMeta>
+      | null;
+    return {
+      syncedAt: typeof parsed?.syncedAt === "string" ? parsed.syncedAt : null,
+      source: typeof parsed?.source === "string" ? parsed.source : null,
+    };
+  } catch (error) {
+    if (isMissingFile(error)) return { syncedAt: null, source: null };
+    throw error;
+  }
+}
+
+async function writeSeriesMeta(id: PriceSeriesId, meta: SeriesMeta) {
+  await mkdir(HISTORY_DIR, { recursive: true });
+  await writeFile(metaPath(id), JSON.stringify(meta));
+}
+
+// Solo agrega puntos desde el último día guardado: el archivo es append-only.
+// El último día puede reescribirse porque suele ser un cierre todavía abierto.
+export async function appendPoints(
+  id: PriceSeriesId,
+  points: HistoryPoint[],
+  existing?: HistoryPoint[],
+) {
+  const stored = existing ?? (await readSeries(id));
+  const last = stored[stored.length - 1];
+  const lastDate = last?.date ?? "";
+  const fresh = new Map<string, number>();
+
+  for (const point of points) {
+    if (!Number.isFinite(point.value) || point.date < lastDate) continue;
+    if (point.date === lastDate && point.value === last?.value) continue;
+    fresh.set(point.date, point.value);
+  }
+
+  if (fresh.size === 0) return [];
+
+  const appended = Array.from(fresh, ([date, value]) => ({ date, value })).sort(
+    (a, b) => a.date.localeCompare(b.date),
+  );
+
+  await mkdir(HISTORY_DIR, { recursive: true });
+  await appendFile(
+    seriesPath(id),
+    appended.map((point) => `${JSON.stringify(point)}\n`).join(""),
+  );
+
+  return appended;
+}
+
+function isFresh(meta: SeriesMeta, maxAgeSeconds: number) {
+  if (!meta.syncedAt) return false;
+  const syncedAtMs = Date.parse(meta.syncedAt);
+  return (
+    Number.isFinite(syncedAtMs) && Date.now() - syncedAtMs < maxAgeSeconds * 1000
+  );
+}
+
+async function runSync(
+  id: PriceSeriesId,
+  options: SyncOptions,
+): Promise<SyncedSeries> {
+  const [stored, meta] = await Promise.all([readSeries(id), readSeriesMeta(id)]);
+
+  if (stored.length > 0 && isFresh(meta, options.maxAgeSeconds)) {
+    return { points: stored, meta, appended: 0, stale: false };
+  }
+
+  const lastDate = stored[stored.length - 1]?.date ?? null;
+
+  let delta: HistoryPoint[];
+  try {
+    delta = await options.fetchSince(lastDate);
+  } catch (error) {
+    // Con el upstream caído seguimos sirviendo lo que ya está en disco.
+    if (stored.length > 0) {
+      return {
+        points: stored,
+        meta,
+        appended: 0,
+        stale: true,
+        staleReason: error instanceof Error ? error.message : String(error),
+      };
+    }
+    throw error;
+  }
+
+  const appended = await appendPoints(id, delta, stored);
+  const nextMeta: SeriesMeta = {
+    syncedAt: new Date().toISOString(),
+    source: options.source,
+  };
+  await writeSeriesMeta(id, nextMeta);
+
+  const merged = new Map(stored.map((point) => [point.date, point.value]));
+  for (const point of appended) merged.set(point.date, point.value);
+
+  return {
+    points: Array.from(merged, ([date, value]) => ({ date, value })),
+    meta: nextMeta,
+    appended: appended.length,
+    stale: false,
+  };
+}
+
+// Devuelve la serie guardada y, si está vencida, trae solo el delta del upstream.
+export function syncSeries(
+  id: PriceSeriesId,
+  options: SyncOptions,
+): Promise<SyncedSeries> {
+  const pending = pendingSyncs.get(id);
+  if (pending) return pending;
+
+  const sync = runSync(id, options).finally(() => {
+    pendingSyncs.delete(id);
+  });
+  pendingSyncs.set(id, sync);
+  return sync;
+}
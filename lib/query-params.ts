@@ -0,0 +1,12 @@
+// Parámetros de la URL tal como llegan a una ruta (URLSearchParams) o a una
+// página (`searchParams` de Next, donde un parámetro repetido es un array).
+export type QueryInput =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+// Con parámetros repetidos gana el primero, igual que URLSearchParams.get.
+export function readParam(input: QueryInput, key: string) {
+  if (input instanceof URLSearchParams) return input.get(key);
+  const value = input[key];
+  return Array.isArray(value) ? value[0] : value;
+}
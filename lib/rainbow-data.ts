@@ -0,0 +1,96 @@
+import type { Currency } from "@/lib/currency";
+import { convertHistory, loadFxSeries } from "@/lib/fx-rates";
+import { syncBtcPriceHistory } from "@/lib/history-sources";
+import type { HistoryPoint } from "@/lib/price-history";
+import {
+  buildBoundaryRow,
+  DEFAULT_RAINBOW_PARAMS,
+  fitRainbowModel,
+  getRainbowZones,
+  getZonePosition,
+  type RainbowFit,
+  type RainbowModelParams,
+  type RainbowZoneReading,
+} from "@/lib/rainbow-model";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type RainbowModelResult = RainbowFit & {
+  currency: Currency;
+  params: RainbowModelParams;
+  // Histórico diario ya convertido a la moneda pedida.
+  points: HistoryPoint[];
+  source: string | null;
+  syncedAt: string | null;
+  stale: boolean;
+  staleReason?: string;
+};
+
+// El ajuste se hace en la moneda pedida: en ARS la pendiente absorbe la
+// devaluación, igual que cuando el gráfico lo calculaba en el cliente.
+export async function loadRainbowModel(
+  currency: Currency,
+  params: RainbowModelParams = DEFAULT_RAINBOW_PARAMS,
+): Promise<RainbowModelResult> {
+  const [history, fx] = await Promise.all([
+    syncBtcPriceHistory(),
+    loadFxSeries(currency),
+  ]);
+  const points = convertHistory(history.points, fx);
+
+  return {
+    ...fitRainbowModel(points, params),
+    currency,
+    params,
+    points,
+    source: history.meta.source,
+    syncedAt: history.meta.syncedAt,
+    stale: history.stale || fx.stale,
+    staleReason: history.staleReason,
+  };
+}
+
+function classify(model: RainbowModelResult, date: string, price: number) {
+  return getZonePosition(buildBoundaryRow(model, date).boundaries, price);
+}
+
+// Sin precio explícito usa el último cierre conocido hasta esa fecha; devuelve
+// null si la fecha queda fuera del histórico y no hay precio para clasificar.
+export function readRainbowZone(
+  model: RainbowModelResult,
+  date: string | null = null,
+  price: number | null = null,
+): RainbowZoneReading | null {
+  const { points } = model;
+  const last = points[points.length - 1];
+  const targetDate = date ?? last.date;
+
+  let index = points.length - 1;
+  while (index >= 0 && points[index].date > targetDate) index -= 1;
+
+  const resolvedPrice =
+    price ?? (index >= 0 && targetDate <= last.date ? points[index].value : null);
+  if (resolvedPrice === null) return null;
+
+  const position = classify(model, targetDate, resolvedPrice);
+  let since = targetDate;
+  for (let i = index; i >= 0; i -= 1) {
+    if (points[i].date === targetDate) continue;
+    if (classify(model, points[i].date, points[i].value).zone !== position.zone) {
+      break;
+    }
+    since = points[i].date;
+  }
+
+  const zone = getRainbowZones(model.params)[position.zone];
+  return {
+    ...position,
+    label: zone.label,
+    color: zone.color,
+    date: targetDate,
+    price: resolvedPrice,
+    daysInZone:
+      Math.round((Date.parse(targetDate) - Date.parse(since)) / DAY_MS) + 1,
+    since,
+  };
+}
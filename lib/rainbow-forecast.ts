@@ -0,0 +1,122 @@
+import {
+  buildBoundaryRow,
+  getRainbowZones,
+  type RainbowBoundaryRow,
+  type RainbowFit,
+  type RainbowModelParams,
+} from "@/lib/rainbow-model";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_FORECAST_DAYS = 730;
+export const MAX_FORECAST_POINTS = 2000;
+
+export type ForecastQuery = {
+  from: string;
+  to: string;
+  // Días entre fechas proyectadas; se agranda si el rango excede el máximo.
+  step: number;
+};
+
+export type ZoneTarget = {
+  zone: number;
+  label: string;
+  date: string;
+  // Rango de la zona, con los mismos extremos abiertos que getZonePosition:
+  // la zona 0 no tiene piso y la última no tiene techo.
+  price: number | null;
+  upperPrice: number | null;
+  // Variación contra el último precio conocido hasta el piso de la zona (el
+  // techo en la zona 0).
+  changePercent: number | null;
+};
+
+type RainbowForecastModel = RainbowFit & { params: RainbowModelParams };
+
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function parseForecastDate(value: string | null | undefined) {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : null;
+}
+
+// Por defecto proyecta dos años desde el día siguiente al último precio.
+export function parseForecastQuery(
+  searchParams: URLSearchParams,
+  lastDate: string,
+): ForecastQuery {
+  const from =
+    parseForecastDate(searchParams.get("from")) ?? addDays(lastDate, 1);
+  const requestedTo = parseForecastDate(searchParams.get("to"));
+  const to =
+    requestedTo && requestedTo >= from
+      ? requestedTo
+      : addDays(from, DEFAULT_FORECAST_DAYS);
+
+  const requestedStep = Number(searchParams.get("step"));
+  const span = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+  const minStep = Math.ceil((span + 1) / MAX_FORECAST_POINTS);
+
+  return {
+    from,
+    to,
+    step: Math.max(
+      Number.isInteger(requestedStep) && requestedStep >= 1 ? requestedStep : 1,
+      minStep,
+    ),
+  };
+}
+
+// Incluye siempre la fecha final aunque no caiga en un múltiplo del paso.
+export function projectRainbowBands(
+  model: RainbowForecastModel,
+  query: ForecastQuery,
+): RainbowBoundaryRow[] {
+  const rows: RainbowBoundaryRow[] = [];
+  let date = query.from;
+  while (date < query.to) {
+    rows.push(buildBoundaryRow(model, date));
+    date = addDays(date, query.step);
+  }
+  rows.push(buildBoundaryRow(model, query.to));
+  return rows;
+}
+
+export function parseZoneIndex(
+  value: string | null,
+  params: RainbowModelParams,
+) {
+  const zone = Number(value);
+  return Number.isInteger(zone) && zone >= 0 && zone < params.multipliers.length
+    ? zone
+    : null;
+}
+
+export function getZoneTarget(
+  model: RainbowForecastModel,
+  zone: number,
+  date: string,
+  lastPrice: number | null,
+): ZoneTarget {
+  const { boundaries } = buildBoundaryRow(model, date);
+  const lastZone = model.params.multipliers.length - 1;
+  const price = zone > 0 ? boundaries[zone] : null;
+  const upperPrice = zone < lastZone ? boundaries[zone + 1] : null;
+  const edge = price ?? upperPrice;
+
+  return {
+    zone,
+    label: getRainbowZones(model.params)[zone].label,
+    date,
+    price,
+    upperPrice,
+    changePercent:
+      lastPrice && edge !== null ? (edge / lastPrice - 1) * 100 : null,
+  };
+}
@@ -0,0 +1,324 @@
+import type { HistoryPoint } from "@/lib/price-history";
+
+// Módulo sin dependencias de servidor: el gráfico y el panel de ajustes lo
+// importan para las zonas y para leer los parámetros de la URL.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// epsilon para log (nunca 0)
+const EPS = 1e-9;
+
+export const BITCOIN_GENESIS_MS = Date.UTC(2009, 0, 3);
+
+// 9 zonas (multiplicadores sobre baseline)
+export const BAND_MULTIPLIERS = [
+  0.25, 0.4, 0.65, 1.0, 1.6, 2.6, 4.2, 6.8, 11.0,
+] as const;
+export const BAND_TIGHTENING = 0.8;
+// La banda superior no tiene límite natural: se cierra un 35% arriba del último.
+export const TOP_BAND_HEADROOM = 1.35;
+
+export const ZONE_COLORS = [
+  "#0044FF",
+  "#0088FF",
+  "#00FFFF",
+  "#88FF00",
+  "#FFFF00",
+  "#FFCC00",
+  "#FF8800",
+  "#FF4400",
+  "#FF0000",
+] as const;
+
+export const ZONE_LABELS = [
+  "Bitcoin está muerto",
+  "Zona de venta masiva",
+  "Compra!",
+  "Buena zona de acumulación",
+  "Todavia está en descuento",
+  "HODL!",
+  "Empieza la burbuja?",
+  "Toma de ganancias",
+  "Burbuja 100% VENDE!",
+] as const;
+
+export const MIN_TIGHTENING = 0.3;
+export const MAX_TIGHTENING = 1.5;
+export const MAX_GENESIS_OFFSET_DAYS = 1000;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Con menos de un año de datos el ajuste log-log no dice nada útil.
+const MIN_REGRESSION_DAYS = 365;
+
+export type RainbowModelParams = {
+  multipliers: readonly number[];
+  tightening: number;
+  // Primer día que entra en la regresión; null usa todo el histórico.
+  regressionStart: string | null;
+  // Corre el día 0 del eje log respecto del bloque génesis.
+  genesisOffsetDays: number;
+};
+
+// Las bandas originales, al estilo de bitcoin.com.
+export const DEFAULT_RAINBOW_PARAMS: RainbowModelParams = {
+  multipliers: BAND_MULTIPLIERS,
+  tightening: BAND_TIGHTENING,
+  regressionStart: null,
+  genesisOffsetDays: 0,
+};
+
+// ln(price) = a + b * ln(días desde génesis + 1)
+export type RainbowCoefficients = {
+  a: number;
+  b: number;
+};
+
+export type RainbowFitStats = {
+  points: number;
+  // Calculado sobre ln(price): es la bondad del ajuste en escala log.
+  rSquared: number;
+  residualStdDev: number;
+  from: string;
+  to: string;
+};
+
+export type RainbowFit = {
+  coefficients: RainbowCoefficients;
+  stats: RainbowFitStats;
+};
+
+export type RainbowBoundaryRow = {
+  date: string;
+  price: number | null;
+  baseline: number;
+  boundaries: number[];
+};
+
+export type RainbowZone = {
+  index: number;
+  label: string;
+  color: string;
+  multiplier: number;
+};
+
+export function getRainbowZones(
+  params: RainbowModelParams = DEFAULT_RAINBOW_PARAMS,
+): RainbowZone[] {
+  return params.multipliers.map((multiplier, index) => ({
+    index,
+    label: ZONE_LABELS[index] ?? `Zona ${index + 1}`,
+    color: ZONE_COLORS[index % ZONE_COLORS.length],
+    multiplier,
+  }));
+}
+
+export function getGenesisMs(params: RainbowModelParams) {
+  return BITCOIN_GENESIS_MS + params.genesisOffsetDays * DAY_MS;
+}
+
+function toModelX(tsMs: number, params: RainbowModelParams) {
+  const days = Math.max(0, (tsMs - getGenesisMs(params)) / DAY_MS);
+  return Math.log(days + 1);
+}
+
+function parseMultipliers(value: string | null) {
+  if (!value) return null;
+  const values = value.split(",").map(Number);
+  const valid =
+    values.length === BAND_MULTIPLIERS.length &&
+    values.every(
+      (item, index) =>
+        Number.isFinite(item) && item > 0 && (index === 0 || item > values[index - 1]),
+    );
+  return valid ? values : null;
+}
+
+function parseRegressionStart(value: string | null) {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  if (!Number.isFinite(ms) || ms > Date.now() - MIN_REGRESSION_DAYS * DAY_MS) {
+    return null;
+  }
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+// Igual que con la moneda, un parámetro inválido cae al valor por defecto.
+export function parseRainbowParams(
+  searchParams: URLSearchParams,
+): RainbowModelParams {
+  const tightening = Number(searchParams.get("tightening"));
+  const offset = Number(searchParams.get("genesisOffset"));
+
+  return {
+    multipliers:
+      parseMultipliers(searchParams.get("multipliers")) ??
+      DEFAULT_RAINBOW_PARAMS.multipliers,
+    tightening:
+      searchParams.has("tightening") &&
+      tightening >= MIN_TIGHTENING &&
+      tightening <= MAX_TIGHTENING
+        ? tightening
+        : DEFAULT_RAINBOW_PARAMS.tightening,
+    regressionStart: parseRegressionStart(searchParams.get("start")),
+    genesisOffsetDays:
+      Number.isInteger(offset) && Math.abs(offset) <= MAX_GENESIS_OFFSET_DAYS
+        ? offset
+        : DEFAULT_RAINBOW_PARAMS.genesisOffsetDays,
+  };
+}
+
+// Solo serializa lo que difiere del default, para que las URLs queden cortas.
+export function toRainbowSearchParams(params: RainbowModelParams) {
+  const searchParams = new URLSearchParams();
+  const multipliers = params.multipliers.join(",");
+
+  if (multipliers !== DEFAULT_RAINBOW_PARAMS.multipliers.join(",")) {
+    searchParams.set("multipliers", multipliers);
+  }
+  if (params.tightening !== DEFAULT_RAINBOW_PARAMS.tightening) {
+    searchParams.set("tightening", String(params.tightening));
+  }
+  if (params.regressionStart) {
+    searchParams.set("start", params.regressionStart);
+  }
+  if (params.genesisOffsetDays !== DEFAULT_RAINBOW_PARAMS.genesisOffsetDays) {
+    searchParams.set("genesisOffset", String(params.genesisOffsetDays));
+  }
+
+  return searchParams;
+}
+
+export function fitRainbowModel(
+  points: HistoryPoint[],
+  params: RainbowModelParams = DEFAULT_RAINBOW_PARAMS,
+): RainbowFit {
+  const valid = points.filter(
+    (point) =>
+      point.value > 0 &&
+      (params.regressionStart === null || point.date >= params.regressionStart),
+  );
+  if (valid.length < 2) {
+    throw new Error("Not enough price history to fit the rainbow model");
+  }
+
+  const xs = valid.map((point) =>
+    toModelX(Date.parse(`${point.date}T00:00:00Z`), params),
+  );
+  const ys = valid.map((point) => Math.log(point.value));
+
+  const n = xs.length;
+  const sumX = xs.reduce((acc, v) => acc + v, 0);
+  const sumY = ys.reduce((acc, v) => acc + v, 0);
+  const sumXX = xs.reduce((acc, v) => acc + v * v, 0);
+  const sumXY = xs.reduce((acc, v, i) => acc + v * ys[i], 0);
+
+  const denom = n * sumXX - sumX * sumX;
+  const b = denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom;
+  const a = (sumY - b * sumX) / n;
+
+  const meanY = sumY / n;
+  let ssRes = 0;
+  let ssTot = 0;
+  for (let i = 0; i < n; i += 1) {
+    ssRes += (ys[i] - (a + b * xs[i])) ** 2;
+    ssTot += (ys[i] - meanY) ** 2;
+  }
+
+  return {
+    coefficients: { a, b },
+    stats: {
+      points: n,
+      rSquared: ssTot === 0 ? 1 : 1 - ssRes / ssTot,
+      residualStdDev: n > 2 ? Math.sqrt(ssRes / (n - 2)) : 0,
+      from: valid[0].date,
+      to: valid[n - 1].date,
+    },
+  };
+}
+
+export function getRainbowBaseline(
+  coefficients: RainbowCoefficients,
+  tsMs: number,
+  params: RainbowModelParams = DEFAULT_RAINBOW_PARAMS,
+) {
+  return Math.exp(
+    coefficients.a + coefficients.b * toModelX(tsMs, params),
+  );
+}
+
+// Devuelve multipliers.length + 1 límites: la zona i va de [i] a [i + 1].
+export function getZoneBoundaries(
+  baseline: number,
+  params: RainbowModelParams = DEFAULT_RAINBOW_PARAMS,
+): number[] {
+  const boundaries = params.multipliers.map((multiplier) =>
+    Math.max(EPS, baseline * Math.exp(Math.log(multiplier) * params.tightening)),
+  );
+  const top = boundaries[boundaries.length - 1] ?? EPS;
+  boundaries.push(Math.max(EPS, top * TOP_BAND_HEADROOM));
+  return boundaries;
+}
+
+export function buildBoundaryRow(
+  model: RainbowFit & { params: RainbowModelParams },
+  date: string,
+  price: number | null = null,
+): RainbowBoundaryRow {
+  const baseline = getRainbowBaseline(
+    model.coefficients,
+    Date.parse(`${date}T00:00:00Z`),
+    model.params,
+  );
+
+  return {
+    date,
+    price,
+    baseline,
+    boundaries: getZoneBoundaries(baseline, model.params),
+  };
+}
+
+export type ZonePosition = {
+  zone: number;
+  // Límites para salir de la zona; null en los extremos (la zona 0 no tiene
+  // piso y la última no tiene techo).
+  lowerBoundary: number | null;
+  upperBoundary: number | null;
+  // Variación de precio necesaria para cruzar cada límite.
+  toLowerPercent: number | null;
+  toUpperPercent: number | null;
+};
+
+export function getZonePosition(
+  boundaries: number[],
+  price: number,
+): ZonePosition {
+  // El último límite es solo el borde visual de la banda superior.
+  const lastZone = boundaries.length - 2;
+  let zone = 0;
+  for (let i = 1; i <= lastZone; i += 1) {
+    if (price >= boundaries[i]) zone = i;
+  }
+
+  const lowerBoundary = zone > 0 ? boundaries[zone] : null;
+  const upperBoundary = zone < lastZone ? boundaries[zone + 1] : null;
+
+  return {
+    zone,
+    lowerBoundary,
+    upperBoundary,
+    toLowerPercent:
+      lowerBoundary === null ? null : (lowerBoundary / price - 1) * 100,
+    toUpperPercent:
+      upperBoundary === null ? null : (upperBoundary / price - 1) * 100,
+  };
+}
+
+export type RainbowZoneReading = ZonePosition & {
+  label: string;
+  color: string;
+  date: string;
+  price: number;
+  // Días corridos desde que el precio entró en la zona actual.
+  daysInZone: number;
+  since: string;
+};
@@ -0,0 +1,68 @@
+import {
+  DEFAULT_RAINBOW_PARAMS,
+  parseRainbowParams,
+  toRainbowSearchParams,
+  type RainbowModelParams,
+} from "@/lib/rainbow-model";
+
+export const RAINBOW_PRESETS_STORAGE_KEY = "rainbow-presets";
+export const RAINBOW_PRESETS_CHANGE_EVENT = "rainbow-presets-change";
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+export type RainbowPreset = {
+  name: string;
+  params: RainbowModelParams;
+};
+
+export const RAINBOW_PRESETS: RainbowPreset[] = [
+  { name: "Original", params: DEFAULT_RAINBOW_PARAMS },
+  {
+    name: "Bandas abiertas",
+    params: { ...DEFAULT_RAINBOW_PARAMS, tightening: 1 },
+  },
+  {
+    name: "Ciclos recientes",
+    params: { ...DEFAULT_RAINBOW_PARAMS, regressionStart: "2015-01-01" },
+  },
+];
+
+export function isSameParams(a: RainbowModelParams, b: RainbowModelParams) {
+  return (
+    toRainbowSearchParams(a).toString() === toRainbowSearchParams(b).toString()
+  );
+}
+
+// Se guardan como query string: al leerlos pasan por la misma validación que la URL.
+export function parseSavedPresets(raw: string | null): RainbowPreset[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((item: unknown) => {
+      if (typeof item !== "object" || item === null) return [];
+      const { name, query } = item as Record<string, unknown>;
+      if (typeof name !== "string" || typeof query !== "string") return [];
+      return [
+        {
+          name: name.slice(0, MAX_PRESET_NAME_LENGTH),
+          params: parseRainbowParams(new URLSearchParams(query)),
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function writeSavedPresets(presets: RainbowPreset[]) {
+  localStorage.setItem(
+    RAINBOW_PRESETS_STORAGE_KEY,
+    JSON.stringify(
+      presets.map((preset) => ({
+        name: preset.name,
+        query: toRainbowSearchParams(preset.params).toString(),
+      })),
+    ),
+  );
+  window.dispatchEvent(new Event(RAINBOW_PRESETS_CHANGE_EVENT));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { computeMvrvSeries } from "@/lib/realized-metrics";
+
+describe("computeMvrvSeries", () => {
+  it("divides price by realized price", () => {
+    const [point] = computeMvrvSeries([
+      { realizedPrice: 20_000, btcPrice: 50_000 },
+    ]);
+
+    expect(point.mvrv).toBe(2.5);
+  });
+
+  it("waits a year of prices before the Z-score", () => {
+    const series = computeMvrvSeries(
+      Array.from({ length: 365 }, (_, index) => ({
+        realizedPrice: 100,
+        btcPrice: 100 + (index % 2),
+      })),
+    );
+
+    expect(series[363].mvrvZScore).toBeNull();
+    expect(series[364].mvrvZScore).not.toBeNull();
+  });
+
+  it("uses the running population deviation up to each date", () => {
+    const prices = Array.from(
+      { length: 400 },
+      (_, index) => 100 + (index % 7) * 10,
+    );
+    const series = computeMvrvSeries(
+      prices.map((btcPrice) => ({ realizedPrice: 90, btcPrice })),
+    );
+
+    // El mismo desvío, calculado en dos pasadas.
+    const mean = prices.reduce((acc, value) => acc + value, 0) / prices.length;
+    const stdDev = Math.sqrt(
+      prices.reduce((acc, value) => acc + (value - mean) ** 2, 0) / prices.length,
+    );
+
+    expect(series[399].mvrvZScore).toBeCloseTo((prices[399] - 90) / stdDev, 4);
+  });
+});
@@ -0,0 +1,99 @@
+export type MvrvMetric = "mvrv" | "mvrvZScore";
+
+export type MvrvThresholds = {
+  top: number;
+  bottom: number;
+};
+
+export type MvrvPoint = {
+  mvrv: number;
+  mvrvZScore: number | null;
+};
+
+// Niveles que históricamente marcaron techos y pisos de ciclo. Con el precio
+// como proxy del market cap los picos del Z-score quedan más bajos que el 7
+// habitual, por eso el techo arranca en 5.
+export const DEFAULT_MVRV_THRESHOLDS: Record<MvrvMetric, MvrvThresholds> = {
+  mvrv: { top: 3.7, bottom: 1 },
+  mvrvZScore: { top: 5, bottom: 0 },
+};
+
+export const MVRV_METRIC_LABELS: Record<MvrvMetric, string> = {
+  mvrv: "MVRV",
+  mvrvZScore: "MVRV Z-Score",
+};
+
+// Con menos de un año el desvío todavía no dice nada.
+const MIN_ZSCORE_POINTS = 365;
+
+function round(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// MVRV = market cap / realized cap; como las dos usan la misma oferta
+// circulante, alcanza con precio / precio realizado. El Z-score divide la
+// diferencia por el desvío estándar del precio hasta esa fecha (ventana
+// acumulada, sin mirar el futuro), con el precio como proxy del market cap.
+export function computeMvrvSeries(
+  points: { realizedPrice: number; btcPrice: number }[],
+): MvrvPoint[] {
+  let count = 0;
+  let mean = 0;
+  let squaredDiffs = 0;
+
+  return points.map(({ realizedPrice, btcPrice }) => {
+    // Welford: media y varianza acumuladas en una sola pasada.
+    count += 1;
+    const delta = btcPrice - mean;
+    mean += delta / count;
+    squaredDiffs += delta * (btcPrice - mean);
+
+    const stdDev = Math.sqrt(squaredDiffs / count);
+    const mvrvZScore =
+      count >= MIN_ZSCORE_POINTS && stdDev > 0
+        ? round((btcPrice - realizedPrice) / stdDev, 4)
+        : null;
+
+    return { mvrv: round(btcPrice / realizedPrice, 4), mvrvZScore };
+  });
+}
+
+export function parseMvrvThreshold(value: string) {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isFinite(parsed) ? parsed : null;
+}
+
+type RealizedSummaryPoint = { date: string; realizedPrice: number };
+
+// Se calcula sobre la serie diaria, antes de agregar o reducir puntos, para que
+// el cambio a 30 días y el máximo no dependan de qué días sobrevivieron.
+export function summarizeRealizedPrice<T extends RealizedSummaryPoint>(
+  points: T[],
+) {
+  if (points.length === 0) return null;
+
+  const latest = points[points.length - 1];
+  const monthAgoDate = new Date(
+    Date.parse(`${latest.date}T00:00:00Z`) - 30 * 24 * 60 * 60 * 1000,
+  )
+    .toISOString()
+    .slice(0, 10);
+  const monthAgo = points.findLast((point) => point.date <= monthAgoDate);
+  const high = points.reduce((best, point) =>
+    point.realizedPrice > best.realizedPrice ? point : best,
+  );
+
+  return {
+    latest,
+    high,
+    change30d: monthAgo
+      ? round(
+          ((latest.realizedPrice - monthAgo.realizedPrice) /
+            monthAgo.realizedPrice) *
+            100,
+          4,
+        )
+      : null,
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { downsampleLttb } from "@/lib/realized-query";
+
+type Point = { date: string; value: number };
+
+function dailySeries(values: number[]): Point[] {
+  return values.map((value, index) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10),
+    value,
+  }));
+}
+
+const getValue = (point: Point) => point.value;
+
+describe("downsampleLttb", () => {
+  it("keeps the first and last points and returns the requested size", () => {
+    const series = dailySeries(Array.from({ length: 100 }, (_, index) => index));
+    const sampled = downsampleLttb(series, 10, getValue);
+
+    expect(sampled).toHaveLength(10);
+    expect(sampled[0]).toBe(series[0]);
+    expect(sampled[sampled.length - 1]).toBe(series[99]);
+  });
+
+  it("keeps isolated peaks and valleys", () => {
+    const values = Array.from({ length: 60 }, () => 10);
+    values[17] = 100;
+    values[41] = -50;
+    const sampled = downsampleLttb(dailySeries(values), 6, getValue);
+
+    expect(sampled.map(getValue)).toContain(100);
+    expect(sampled.map(getValue)).toContain(-50);
+  });
+
+  it("returns the series unchanged when it already fits", () => {
+    const series = dailySeries([1, 2, 3, 4]);
+
+    expect(downsampleLttb(series, 4, getValue)).toBe(series);
+    expect(downsampleLttb(series, 2, getValue)).toBe(series);
+  });
+});
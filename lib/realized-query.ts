@@ -0,0 +1,165 @@
+import { parseForecastDate } from "@/lib/rainbow-forecast";
+
+export const REALIZED_RESOLUTIONS = ["daily", "weekly", "monthly"] as const;
+
+export type RealizedResolution = (typeof REALIZED_RESOLUTIONS)[number];
+
+export const MIN_REALIZED_POINTS = 3;
+export const MAX_REALIZED_POINTS = 5000;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type RealizedQuery = {
+  from: string | null;
+  to: string | null;
+  resolution: RealizedResolution;
+  // Tope de puntos tras el downsampling; null devuelve todos.
+  maxPoints: number | null;
+};
+
+type DatedPoint = { date: string };
+
+type ParsedRealizedQuery =
+  | { ok: true; value: RealizedQuery }
+  | { ok: false; error: string };
+
+function isResolution(value: string): value is RealizedResolution {
+  return (REALIZED_RESOLUTIONS as readonly string[]).includes(value);
+}
+
+// Sin parámetros devuelve la serie diaria completa, como antes.
+export function parseRealizedQuery(
+  searchParams: URLSearchParams,
+): ParsedRealizedQuery {
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+  const resolutionParam = searchParams.get("resolution")?.trim().toLowerCase();
+  const maxPointsParam = searchParams.get("maxPoints");
+
+  const from = fromParam === null ? null : parseForecastDate(fromParam);
+  const to = toParam === null ? null : parseForecastDate(toParam);
+  const maxPoints = maxPointsParam === null ? null : Number(maxPointsParam);
+
+  if ((fromParam !== null && from === null) || (toParam !== null && to === null)) {
+    return { ok: false, error: "Invalid date" };
+  }
+  if (from !== null && to !== null && from > to) {
+    return { ok: false, error: "Invalid date range" };
+  }
+  if (resolutionParam !== undefined && !isResolution(resolutionParam)) {
+    return { ok: false, error: "Invalid resolution" };
+  }
+  if (
+    maxPoints !== null &&
+    !(
+      Number.isInteger(maxPoints) &&
+      maxPoints >= MIN_REALIZED_POINTS &&
+      maxPoints <= MAX_REALIZED_POINTS
+    )
+  ) {
+    return { ok: false, error: "Invalid maxPoints" };
+  }
+
+  return {
+    ok: true,
+    value: { from, to, resolution: resolutionParam ?? "daily", maxPoints },
+  };
+}
+
+function getBucketKey(date: string, resolution: RealizedResolution) {
+  if (resolution === "monthly") return date.slice(0, 7);
+  if (resolution === "daily") return date;
+  // Semanas de lunes a domingo, igual que las velas semanales.
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  const weekday = (new Date(ms).getUTCDay() + 6) % 7;
+  return new Date(ms - weekday * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Cada período queda representado por su último día: para precios es el cierre.
+export function aggregateByResolution<T extends DatedPoint>(
+  points: T[],
+  resolution: RealizedResolution,
+): T[] {
+  if (resolution === "daily") return points;
+
+  const aggregated: T[] = [];
+  let currentKey: string | null = null;
+  for (const point of points) {
+    const key = getBucketKey(point.date, resolution);
+    if (key === currentKey) {
+      aggregated[aggregated.length - 1] = point;
+    } else {
+      aggregated.push(point);
+      currentKey = key;
+    }
+  }
+  return aggregated;
+}
+
+// Largest-Triangle-Three-Buckets: en cada tramo se queda con el punto que forma
+// el triángulo más grande con el elegido antes y el promedio del tramo
+// siguiente, así los picos y valles sobreviven aunque se descarten miles de días.
+export function downsampleLttb<T extends DatedPoint>(
+  points: T[],
+  threshold: number,
+  getValue: (point: T) => number,
+): T[] {
+  if (threshold >= points.length || threshold < MIN_REALIZED_POINTS) {
+    return points;
+  }
+
+  const xs = points.map((point) => Date.parse(`${point.date}T00:00:00Z`) / DAY_MS);
+  const ys = points.map(getValue);
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  const sampled: T[] = [points[0]];
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket += 1) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(
+      Math.floor((bucket + 2) * bucketSize) + 1,
+      points.length,
+    );
+
+    let avgX = 0;
+    let avgY = 0;
+    for (let index = end; index < nextEnd; index += 1) {
+      avgX += xs[index];
+      avgY += ys[index];
+    }
+    const nextCount = Math.max(nextEnd - end, 1);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    let chosen = start;
+    let maxArea = -1;
+    for (let index = start; index < end; index += 1) {
+      const area = Math.abs(
+        (xs[previous] - avgX) * (ys[index] - ys[previous]) -
+          (xs[previous] - xs[index]) * (avgY - ys[previous]),
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = index;
+      }
+    }
+
+    sampled.push(points[chosen]);
+    previous = chosen;
+  }
+
+  sampled.push(points[points.length - 1]);
+  return sampled;
+}
+
+export function filterByDateRange<T extends DatedPoint>(
+  points: T[],
+  from: string | null,
+  to: string | null,
+): T[] {
+  return points.filter(
+    (point) =>
+      (from === null || point.date >= from) && (to === null || point.date <= to),
+  );
+}
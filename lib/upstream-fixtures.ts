@@ -0,0 +1,97 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const FIXTURES_DIR =
+  process.env.UPSTREAM_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures");
+
+// live: solo red · fixture: solo disco · record: red y guarda el payload en disco
+export type UpstreamMode = "live" | "fixture" | "record";
+
+export type UpstreamFixture =
+  | "coingecko-markets"
+  | "bitcoin-com-rainbow"
+  | "bgeometrics-realized-price"
+  | "bgeometrics-btc-price"
+  | "frankfurter-usd-eur"
+  | "argentinadatos-oficial"
+  | "argentinadatos-bolsa"
+  | "argentinadatos-blue"
+  | "kraken-ohlc-1h"
+  | "kraken-ohlc-1d"
+  | "kraken-ohlc-1w"
+  // Detalle e histórico por activo: solo hay fixtures para algunos ids.
+  | `coingecko-coin-${string}`
+  | `coingecko-chart-${string}`;
+
+export const UPSTREAM_FIXTURES: UpstreamFixture[] = [
+  "coingecko-markets",
+  "bitcoin-com-rainbow",
+  "bgeometrics-realized-price",
+  "bgeometrics-btc-price",
+  "frankfurter-usd-eur",
+  "argentinadatos-oficial",
+  "argentinadatos-bolsa",
+  "argentinadatos-blue",
+  "kraken-ohlc-1h",
+  "kraken-ohlc-1d",
+  "kraken-ohlc-1w",
+];
+
+export function getUpstreamMode(
+  configured = process.env.UPSTREAM_MODE,
+): UpstreamMode {
+  const mode = configured?.trim().toLowerCase();
+  return mode === "fixture" || mode === "record" ? mode : "live";
+}
+
+export function fixturePath(fixture: UpstreamFixture) {
+  return path.join(FIXTURES_DIR, `${fixture}.json`);
+}
+
+export async function readFixture(fixture: UpstreamFixture): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(fixturePath(fixture), "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Fixture ${fixture} is not available: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+async function recordFixture(fixture: UpstreamFixture, payload: unknown) {
+  await mkdir(FIXTURES_DIR, { recursive: true });
+  await writeFile(fixturePath(fixture), JSON.stringify(payload));
+}
+
+// Punto único de salida hacia los upstreams: respeta UPSTREAM_MODE.
+export async function fetchUpstreamJson(
+  fixture: UpstreamFixture,
+  url: string,
+  init: RequestInit = {},
+): Promise<unknown> {
+  const mode = getUpstreamMode();
+  if (mode === "fixture") {
+    return readFixture(fixture);
+  }
+
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      accept: "application/json",
+      ...init.headers,
+    },
+  });
+
+  if (!res.ok) {
+    throw new Error(`Upstream ${new URL(url).host} responded with ${res.status}`);
+  }
+
+  const payload: unknown = await res.json();
+  if (mode === "record") {
+    await recordFixture(fixture, payload);
+  }
+
+  return payload;
+}
@@ -0,0 +1,259 @@
+// Validación mínima de payloads externos: cada schema describe el tipo esperado
+// y acumula los campos que fallan con su ruta (por ejemplo "data.price[3].timestamp").
+
+const MAX_REPORTED_ISSUES = 20;
+
+export type SchemaIssue = {
+  path: string;
+  expected: string;
+  received: string;
+};
+
+type IssueCollector = {
+  issues: SchemaIssue[];
+  count: number;
+};
+
+export type Schema<T> = {
+  expected: string;
+  check: (value: unknown, path: string, collector: IssueCollector) => boolean;
+  // Solo existe a nivel de tipos, para inferir T con Infer<typeof schema>.
+  readonly _type?: T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class UpstreamValidationError extends Error {
+  readonly source: string;
+  readonly issues: SchemaIssue[];
+  readonly issueCount: number;
+
+  constructor(source: string, issues: SchemaIssue[], issueCount: number) {
+    const [first] = issues;
+    const extra = issueCount > 1 ? ` (+${issueCount - 1} more)` : "";
+    super(
+      `${source} payload failed validation: ${first?.path || "(root)"} expected ${
+        first?.expected
+      }, received ${first?.received}${extra}`,
+    );
+    this.name = "UpstreamValidationError";
+    this.source = source;
+    this.issues = issues;
+    this.issueCount = issueCount;
+  }
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return "non-finite number";
+  return typeof value;
+}
+
+function report(
+  collector: IssueCollector,
+  path: string,
+  expected: string,
+  value: unknown,
+) {
+  collector.count += 1;
+  if (collector.issues.length < MAX_REPORTED_ISSUES) {
+    collector.issues.push({ path, expected, received: describe(value) });
+  }
+  return false;
+}
+
+function joinPath(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function number(): Schema<number> {
+  return {
+    expected: "number",
+    check: (value, path, collector) =>
+      (typeof value === "number" && Number.isFinite(value)) ||
+      report(collector, path, "number", value),
+  };
+}
+
+export function string(): Schema<string> {
+  return {
+    expected: "string",
+    check: (value, path, collector) =>
+      typeof value === "string" || report(collector, path, "string", value),
+  };
+}
+
+// Acepta también números serializados como string ("42.1"); quien lee el valor
+// lo convierte con Number().
+export function numeric(): Schema<number | string> {
+  return {
+    expected: "numeric",
+    check: (value, path, collector) =>
+      (typeof value === "number" && Number.isFinite(value)) ||
+      (typeof value === "string" &&
+        value.trim() !== "" &&
+        Number.isFinite(Number(value))) ||
+      report(collector, path, "numeric", value),
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    expected: "boolean",
+    check: (value, path, collector) =>
+      typeof value === "boolean" || report(collector, path, "boolean", value),
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+  return {
+    expected,
+    check: (value, path, collector) =>
+      (typeof value === "string" && (values as readonly string[]).includes(value)) ||
+      report(collector, path, expected, value),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check: (value, path, collector) =>
+      value === null || schema.check(value, path, collector),
+  };
+}
+
+// Para campos que el upstream puede omitir; un campo ausente en un schema sin
+// `optional` es un error.
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    check: (value, path, collector) =>
+      value === undefined || schema.check(value, path, collector),
+  };
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { minLength?: number } = {},
+): Schema<T[]> {
+  const expected = `array<${item.expected}>`;
+  return {
+    expected,
+    check: (value, path, collector) => {
+      if (!Array.isArray(value)) return report(collector, path, expected, value);
+      if (options.minLength && value.length < options.minLength) {
+        return report(
+          collector,
+          path,
+          `at least ${options.minLength} items`,
+          `${value.length} items`,
+        );
+      }
+      let ok = true;
+      value.forEach((entry, index) => {
+        ok = item.check(entry, joinPath(path, index), collector) && ok;
+      });
+      return ok;
+    },
+  };
+}
+
+export function tuple<T extends unknown[]>(items: {
+  [K in keyof T]: Schema<T[K]>;
+}): Schema<T> {
+  const expected = `[${items.map((item) => item.expected).join(", ")}]`;
+  return {
+    expected,
+    check: (value, path, collector) => {
+      if (!Array.isArray(value) || value.length < items.length) {
+        return report(collector, path, expected, value);
+      }
+      let ok = true;
+      items.forEach((item, index) => {
+        ok = item.check(value[index], joinPath(path, index), collector) && ok;
+      });
+      return ok;
+    },
+  };
+}
+
+export function object<T extends Record<string, unknown>>(shape: {
+  [K in keyof T]: Schema<T[K]>;
+}): Schema<T> {
+  return {
+    expected: "object",
+    check: (value, path, collector) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return report(collector, path, "object", value);
+      }
+      const record = value as Record<string, unknown>;
+      let ok = true;
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        ok = shape[key].check(record[key], joinPath(path, key), collector) && ok;
+      }
+      return ok;
+    },
+  };
+}
+
+// Objetos usados como diccionario (por ejemplo, fechas como claves).
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  const expected = `record<${value.expected}>`;
+  return {
+    expected,
+    check: (input, path, collector) => {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return report(collector, path, expected, input);
+      }
+      let ok = true;
+      for (const [key, entry] of Object.entries(input)) {
+        ok = value.check(entry, joinPath(path, key), collector) && ok;
+      }
+      return ok;
+    },
+  };
+}
+
+export function validate<T>(
+  source: string,
+  schema: Schema<T>,
+  payload: unknown,
+): T {
+  const collector: IssueCollector = { issues: [], count: 0 };
+  if (!schema.check(payload, "", collector)) {
+    throw new UpstreamValidationError(source, collector.issues, collector.count);
+  }
+  return payload as T;
+}
+
+export type UpstreamErrorBody = {
+  error: string;
+  source?: string;
+  details?: string;
+  issues?: SchemaIssue[];
+  issueCount?: number;
+};
+
+// Cuerpo de error común para las rutas que dependen de un upstream.
+export function describeUpstreamError(error: unknown, fallbackSource: string) {
+  if (error instanceof UpstreamValidationError) {
+    const body: UpstreamErrorBody = {
+      error: "Invalid upstream payload",
+      source: error.source,
+      details: error.message,
+      issues: error.issues,
+      issueCount: error.issueCount,
+    };
+    return { status: 502, body };
+  }
+
+  const body: UpstreamErrorBody = {
+    error: "Upstream unavailable",
+    source: fallbackSource,
+    details: error instanceof Error ? error.message : String(error),
+  };
+  return { status: 502, body };
+}
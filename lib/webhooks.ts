@@ -0,0 +1,168 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-BitAtlas-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-BitAtlas-Timestamp";
+export const WEBHOOK_EVENT_HEADER = "X-BitAtlas-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-BitAtlas-Delivery";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// Espera antes de cada reintento; el largo define la cantidad de reintentos.
+const RETRY_DELAYS_MS = [1_000, 5_000];
+
+export type WebhookAttempt = {
+  attempt: number;
+  at: string;
+  status: number | null;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  event: string;
+  url: string;
+  ok: boolean;
+  attempts: WebhookAttempt[];
+};
+
+type WebhookRequest = {
+  url: string;
+  secret: string;
+  event: string;
+  payload: Record<string, unknown>;
+  // Resolución DNS para conectar; permite validar la dirección final.
+  lookup?: LookupFunction;
+};
+
+// Se firma `${timestamp}.${body}` para que un payload capturado no pueda
+// reenviarse con otro timestamp.
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+) {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function resolveLiteral(lookup: LookupFunction, host: string) {
+  return new Promise<void>((resolve, reject) => {
+    lookup(host, {}, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+// fetch no deja elegir la resolución DNS: con node:http el socket se conecta a
+// la misma dirección que devolvió (y validó) `lookup`.
+async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  lookup: LookupFunction | undefined,
+) {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  // Con una IP literal Node no llama a `lookup`: se valida igual.
+  if (lookup && isIP(host)) await resolveLiteral(lookup, host);
+
+  const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<number>((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup,
+        // Sin pool: un socket reutilizado no pasaría de nuevo por `lookup`.
+        agent: false,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        // Solo importa el status; el cuerpo se descarta.
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Los 4xx (salvo 408 y 429) indican un receptor mal configurado: no se reintenta.
+function isRetryable(status: number | null) {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+export async function deliverWebhook({
+  url,
+  secret,
+  event,
+  payload,
+  lookup,
+}: WebhookRequest): Promise<WebhookDelivery> {
+  const id = randomUUID();
+  const body = JSON.stringify({ ...payload, event, deliveryId: id });
+  const attempts: WebhookAttempt[] = [];
+
+  for (let attempt = 1; attempt <= RETRY_DELAYS_MS.length + 1; attempt += 1) {
+    if (attempt > 1) await wait(RETRY_DELAYS_MS[attempt - 2]);
+
+    const startedAt = Date.now();
+    const timestamp = String(Math.floor(startedAt / 1000));
+    let status: number | null = null;
+    let error: string | undefined;
+
+    try {
+      // Las redirecciones no se siguen: un 3xx cuenta como error.
+      status = await postWebhook(
+        url,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "BitAtlas-Webhooks/1.0",
+          [WEBHOOK_EVENT_HEADER]: event,
+          [WEBHOOK_DELIVERY_HEADER]: id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+        },
+        body,
+        lookup,
+      );
+      if (status < 200 || status >= 300) error = `HTTP ${status}`;
+    } catch (fetchError) {
+      error = getErrorMessage(fetchError);
+    }
+
+    const ok = error === undefined;
+    attempts.push({
+      attempt,
+      at: new Date(startedAt).toISOString(),
+      status,
+      ok,
+      durationMs: Date.now() - startedAt,
+      ...(error ? { error } : {}),
+    });
+
+    if (ok || !isRetryable(status)) break;
+  }
+
+  return {
+    id,
+    event,
+    url,
+    ok: attempts[attempts.length - 1]?.ok ?? false,
+    attempts,
+  };
+}
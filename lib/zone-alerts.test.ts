@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  isPrivateHost,
+  lookupPublicAddress,
+  parseSubscriptionInput,
+} from "@/lib/zone-alerts";
+
+function lookup(hostname: string) {
+  return new Promise<string>((resolve, reject) => {
+    lookupPublicAddress(hostname, {}, (error, address) =>
+      error ? reject(error) : resolve(address as string),
+    );
+  });
+}
+
+describe("isPrivateHost", () => {
+  it.each([
+    "localhost",
+    "api.localhost",
+    "localhost.",
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "100.127.255.254",
+    "0.0.0.0",
+    "224.0.0.1",
+    "[::1]",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "[::ffff:7f00:1]",
+    "::ffff:169.254.169.254",
+    "0:0:0:0:0:ffff:a00:1",
+    "64:ff9b::7f00:1",
+  ])("rejects %s", (host) => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each([
+    "example.com",
+    "8.8.8.8",
+    "100.128.0.1",
+    "172.32.0.1",
+    "[2606:4700:4700::1111]",
+    "::ffff:8.8.8.8",
+  ])("accepts %s", (host) => {
+    expect(isPrivateHost(host)).toBe(false);
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  it("rejects names and literals that resolve to private addresses", async () => {
+    await expect(lookup("localhost")).rejects.toThrow(/non-public/);
+    await expect(lookup("127.0.0.1")).rejects.toThrow(/non-public/);
+    await expect(lookup("::ffff:10.0.0.1")).rejects.toThrow(/non-public/);
+  });
+
+  it("returns the validated address for public literals", async () => {
+    await expect(lookup("8.8.8.8")).resolves.toBe("8.8.8.8");
+  });
+});
+
+describe("parseSubscriptionInput", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("normalizes the url, currency and zones", () => {
+    expect(
+      parseSubscriptionInput({
+        url: "https://hooks.example/bitatlas",
+        zones: [3, 1, 3],
+      }),
+    ).toEqual({
+      ok: true,
+      value: {
+        url: "https://hooks.example/bitatlas",
+        currency: "USD",
+        zones: [1, 3],
+      },
+    });
+  });
+
+  it.each([
+    [null, "Expected a JSON object"],
+    [{ url: "not a url" }, "Invalid webhook url"],
+    [{ url: "ftp://hooks.example" }, "Webhook url must use http or https"],
+    [{ url: "https://hooks.example", currency: "JPY" }, "Invalid currency"],
+    [{ url: "https://hooks.example", zones: [99] }, /^Zones must be integers/],
+  ])("rejects %j", (body, error) => {
+    const parsed = parseSubscriptionInput(body);
+
+    expect(parsed.ok).toBe(false);
+    expect(parsed.ok ? null : parsed.error).toMatch(error);
+  });
+
+  it("only accepts private hosts when explicitly allowed", () => {
+    const body = { url: "http://localhost:4010/hook" };
+
+    expect(parseSubscriptionInput(body)).toEqual({
+      ok: false,
+      error: "Webhook url must be publicly reachable",
+    });
+
+    vi.stubEnv("ALERTS_ALLOW_PRIVATE_WEBHOOKS", "1");
+    expect(parseSubscriptionInput(body).ok).toBe(true);
+  });
+});
@@ -0,0 +1,553 @@
+import {
+  createHash,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import path from "node:path";
+import {
+  DEFAULT_CURRENCY,
+  isCurrency,
+  SUPPORTED_CURRENCIES,
+  type Currency,
+} from "@/lib/currency";
+import { loadRainbowModel, readRainbowZone } from "@/lib/rainbow-data";
+import { getRainbowZones, type RainbowZoneReading } from "@/lib/rainbow-model";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  oneOf,
+  string,
+  validate,
+} from "@/lib/upstream-schema";
+import { deliverWebhook, type WebhookDelivery } from "@/lib/webhooks";
+
+// Mismo criterio que el store de precios: en serverless conviene apuntar
+// ALERTS_DIR a un directorio escribible.
+const ALERTS_DIR =
+  process.env.ALERTS_DIR ?? path.join(process.cwd(), ".data", "alerts");
+const SUBSCRIPTIONS_FILE = path.join(ALERTS_DIR, "subscriptions.json");
+const DELIVERIES_FILE = path.join(ALERTS_DIR, "deliveries.jsonl");
+
+export const MAX_SUBSCRIPTIONS_PER_CLIENT = 20;
+export const DEFAULT_DELIVERY_LOG_LIMIT = 50;
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+export type ZoneAlertSubscription = {
+  id: string;
+  url: string;
+  // Firma los payloads y autoriza a consultar o borrar la suscripción.
+  secret: string;
+  // Cliente que la creó (hash de su clave de ALERTS_API_KEYS), para el cupo.
+  clientId: string;
+  currency: Currency;
+  // Zonas que interesan: se avisa al entrar o salir de alguna. Vacío = todas.
+  zones: number[];
+  createdAt: string;
+  // Zona vista en la última evaluación; null hasta la primera.
+  lastZone: number | null;
+  lastCheckedAt: string | null;
+};
+
+export type PublicZoneAlertSubscription = Omit<
+  ZoneAlertSubscription,
+  "secret" | "clientId"
+>;
+
+export type ZoneAlertDeliveryLog = WebhookDelivery & {
+  subscriptionId: string;
+  createdAt: string;
+};
+
+export type ZoneAlertEvaluation = {
+  checkedAt: string;
+  subscriptions: number;
+  readings: Partial<
+    Record<Currency, Pick<RainbowZoneReading, "zone" | "label" | "date" | "price">>
+  >;
+  notified: number;
+  failed: number;
+  errors: { currency: Currency; error: string }[];
+};
+
+type SubscriptionInput = {
+  url: string;
+  currency: Currency;
+  zones: number[];
+};
+
+function isMissingFile(error: unknown) {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const subscriptionsSchema = array(
+  object({
+    id: string(),
+    url: string(),
+    secret: string(),
+    clientId: string(),
+    currency: oneOf(SUPPORTED_CURRENCIES),
+    zones: array(number()),
+    createdAt: string(),
+    lastZone: nullable(number()),
+    lastCheckedAt: nullable(string()),
+  }),
+);
+
+// Un archivo inválido corta la lectura: reescribirlo perdería suscripciones.
+async function readSubscriptions(): Promise<ZoneAlertSubscription[]> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(SUBSCRIPTIONS_FILE, "utf8"));
+    return validate("Alert subscriptions", subscriptionsSchema, parsed);
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+}
+
+// Las escrituras se encolan: leer-modificar-escribir en paralelo perdería cambios.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function updateSubscriptions<T>(
+  update: (subscriptions: ZoneAlertSubscription[]) => {
+    subscriptions: ZoneAlertSubscription[];
+    result: T;
+  },
+): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { subscriptions, result } = update(await readSubscriptions());
+    await mkdir(ALERTS_DIR, { recursive: true });
+    // Se escribe a un temporal y se renombra para no dejar el archivo a medias.
+    const tmpFile = `${SUBSCRIPTIONS_FILE}.${process.pid}.tmp`;
+    await writeFile(tmpFile, JSON.stringify(subscriptions, null, 2));
+    await rename(tmpFile, SUBSCRIPTIONS_FILE);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function appendDeliveryLogs(logs: ZoneAlertDeliveryLog[]) {
+  if (logs.length === 0) return;
+  await mkdir(ALERTS_DIR, { recursive: true });
+  await appendFile(
+    DELIVERIES_FILE,
+    logs.map((log) => `${JSON.stringify(log)}\n`).join(""),
+  );
+}
+
+// Loopback, redes privadas, link-local (metadata de los clouds), CGNAT,
+// multicast y reservadas.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  // Sin especificar, loopback e IPv4 compatibles (::a.b.c.d).
+  ["::", 96],
+  // NAT64: reenvía a la IPv4 embebida.
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+// ::ffff:127.0.0.1 (o ::ffff:7f00:1) llega a la IPv4 embebida.
+function getMappedIpv4(address: string) {
+  const canonical = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  const match = canonical.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!match) return null;
+  const high = parseInt(match[1], 16);
+  const low = parseInt(match[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+// Solo mira el texto: un nombre DNS pasa y se valida al resolverlo en la
+// entrega (lookupPublicAddress).
+export function isPrivateHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  if (isIP(host) === 4) return PRIVATE_ADDRESSES.check(host, "ipv4");
+  if (isIP(host) !== 6) return false;
+  const mapped = getMappedIpv4(host);
+  return mapped
+    ? PRIVATE_ADDRESSES.check(mapped, "ipv4")
+    : PRIVATE_ADDRESSES.check(host, "ipv6");
+}
+
+// Resuelve al momento de conectar y rechaza si alguna dirección es privada.
+// El socket usa la dirección devuelta acá, así que un cambio de DNS entre la
+// validación y la conexión no tiene efecto.
+export const lookupPublicAddress: LookupFunction = (
+  hostname,
+  options,
+  callback,
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateHost(address));
+    if (blocked || addresses.length === 0) {
+      callback(
+        new Error(
+          `${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ""}`,
+        ),
+        "",
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Receptores locales solo a pedido, por ejemplo para probar con
+// `npm run alerts:receiver`.
+function allowsPrivateWebhooks() {
+  return process.env.ALERTS_ALLOW_PRIVATE_WEBHOOKS === "1";
+}
+
+export function parseSubscriptionInput(
+  body: unknown,
+): { ok: true; value: SubscriptionInput } | { ok: false; error: string } {
+  if (typeof body !== "object" || body === null) {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const { url, currency, zones } = body as Record<string, unknown>;
+
+  let parsedUrl: URL;
+  try {
+    if (typeof url !== "string" || url.length > MAX_WEBHOOK_URL_LENGTH) {
+      throw new Error();
+    }
+    parsedUrl = new URL(url);
+  } catch {
+    return { ok: false, error: "Invalid webhook url" };
+  }
+  if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
+    return { ok: false, error: "Webhook url must use http or https" };
+  }
+  if (isPrivateHost(parsedUrl.hostname) && !allowsPrivateWebhooks()) {
+    return { ok: false, error: "Webhook url must be publicly reachable" };
+  }
+
+  if (currency !== undefined && !isCurrency(currency)) {
+    return { ok: false, error: "Invalid currency" };
+  }
+
+  const zoneCount = getRainbowZones().length;
+  if (
+    zones !== undefined &&
+    !(
+      Array.isArray(zones) &&
+      zones.every(
+        (zone) => Number.isInteger(zone) && zone >= 0 && zone < zoneCount,
+      )
+    )
+  ) {
+    return { ok: false, error: `Zones must be integers between 0 and ${zoneCount - 1}` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      url: parsedUrl.toString(),
+      currency: currency ?? DEFAULT_CURRENCY,
+      zones: Array.from(new Set((zones as number[] | undefined) ?? [])).sort(
+        (a, b) => a - b,
+      ),
+    },
+  };
+}
+
+export function toPublicSubscription(
+  subscription: ZoneAlertSubscription,
+): PublicZoneAlertSubscription {
+  const { id, url, currency, zones, createdAt, lastZone, lastCheckedAt } =
+    subscription;
+  // Ni el secreto ni el cliente salen en las respuestas.
+  return { id, url, currency, zones, createdAt, lastZone, lastCheckedAt };
+}
+
+// Al crearla es la única vez que se devuelve el secreto; el cliente nunca sale.
+export function toCreatedSubscription(subscription: ZoneAlertSubscription) {
+  const { id, url, currency, zones, secret, createdAt } = subscription;
+  return { id, url, currency, zones, secret, createdAt };
+}
+
+function getBearerToken(req: Request) {
+  const match = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function isSameSecret(expected: string, candidate: string | null) {
+  if (!candidate) return false;
+  const expectedBuffer = Buffer.from(expected);
+  const candidateBuffer = Buffer.from(candidate);
+  return (
+    expectedBuffer.length === candidateBuffer.length &&
+    timingSafeEqual(expectedBuffer, candidateBuffer)
+  );
+}
+
+export function isSubscriptionRequest(
+  req: Request,
+  subscription: ZoneAlertSubscription,
+) {
+  return isSameSecret(subscription.secret, getBearerToken(req));
+}
+
+// Sin ALERTS_CRON_SECRET solo se deja evaluar fuera de producción.
+export function isEvaluatorRequest(req: Request) {
+  const secret = process.env.ALERTS_CRON_SECRET;
+  if (!secret) return process.env.NODE_ENV !== "production";
+  return isSameSecret(secret, getBearerToken(req));
+}
+
+function getApiKeys() {
+  return (process.env.ALERTS_API_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+// Cada clave de ALERTS_API_KEYS es un cliente con su propio cupo; se guarda un
+// hash y no la clave. Sin claves, como el evaluador, solo fuera de producción.
+export function getAlertClient(req: Request) {
+  const keys = getApiKeys();
+  if (keys.length === 0) {
+    return process.env.NODE_ENV !== "production" ? "local" : null;
+  }
+  const token = getBearerToken(req);
+  const key = keys.find((candidate) => isSameSecret(candidate, token));
+  return key ? createHash("sha256").update(key).digest("hex").slice(0, 16) : null;
+}
+
+export function createSubscription(
+  input: SubscriptionInput,
+  clientId: string,
+): Promise<ZoneAlertSubscription | null> {
+  return updateSubscriptions((subscriptions) => {
+    const owned = subscriptions.filter(
+      (subscription) => subscription.clientId === clientId,
+    );
+    if (owned.length >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      return { subscriptions, result: null };
+    }
+
+    const subscription: ZoneAlertSubscription = {
+      id: randomUUID(),
+      ...input,
+      clientId,
+      secret: randomBytes(24).toString("hex"),
+      createdAt: new Date().toISOString(),
+      lastZone: null,
+      lastCheckedAt: null,
+    };
+    return { subscriptions: [...subscriptions, subscription], result: subscription };
+  });
+}
+
+export async function getSubscription(id: string) {
+  const subscriptions = await readSubscriptions();
+  return subscriptions.find((subscription) => subscription.id === id) ?? null;
+}
+
+export function deleteSubscription(id: string): Promise<boolean> {
+  return updateSubscriptions((subscriptions) => {
+    const remaining = subscriptions.filter((subscription) => subscription.id !== id);
+    return {
+      subscriptions: remaining,
+      result: remaining.length !== subscriptions.length,
+    };
+  });
+}
+
+export async function readDeliveryLogs(
+  subscriptionId: string,
+  limit = DEFAULT_DELIVERY_LOG_LIMIT,
+): Promise<ZoneAlertDeliveryLog[]> {
+  let raw: string;
+  try {
+    raw = await readFile(DELIVERIES_FILE, "utf8");
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+
+  const logs: ZoneAlertDeliveryLog[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const log = JSON.parse(line) as ZoneAlertDeliveryLog;
+      if (log.subscriptionId === subscriptionId) logs.push(log);
+    } catch {
+      // Una línea cortada se ignora, igual que en el store de precios.
+    }
+  }
+
+  // Las más recientes primero.
+  return logs.slice(-limit).reverse();
+}
+
+async function deliver(
+  subscription: ZoneAlertSubscription,
+  event: string,
+  payload: Record<string, unknown>,
+): Promise<ZoneAlertDeliveryLog> {
+  const delivery = await deliverWebhook({
+    url: subscription.url,
+    secret: subscription.secret,
+    lookup: allowsPrivateWebhooks() ? undefined : lookupPublicAddress,
+    event,
+    payload: {
+      subscriptionId: subscription.id,
+      sentAt: new Date().toISOString(),
+      ...payload,
+    },
+  });
+  return {
+    ...delivery,
+    subscriptionId: subscription.id,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export async function sendTestWebhook(subscription: ZoneAlertSubscription) {
+  const log = await deliver(subscription, "ping", {
+    currency: subscription.currency,
+    zones: subscription.zones,
+  });
+  await appendDeliveryLogs([log]);
+  return log;
+}
+
+function describeZone(index: number) {
+  const { label, color } = getRainbowZones()[index];
+  return { index, label, color };
+}
+
+function shouldNotify(
+  subscription: ZoneAlertSubscription,
+  previousZone: number,
+  zone: number,
+) {
+  return (
+    previousZone !== zone &&
+    (subscription.zones.length === 0 ||
+      subscription.zones.includes(previousZone) ||
+      subscription.zones.includes(zone))
+  );
+}
+
+// Pensado para correr desde un scheduler: compara el último cierre contra la
+// zona vista en la evaluación anterior de cada suscripción.
+export async function evaluateZoneAlerts(): Promise<ZoneAlertEvaluation> {
+  const checkedAt = new Date().toISOString();
+  const subscriptions = await readSubscriptions();
+  const currencies = Array.from(
+    new Set(subscriptions.map((subscription) => subscription.currency)),
+  );
+
+  const evaluation: ZoneAlertEvaluation = {
+    checkedAt,
+    subscriptions: subscriptions.length,
+    readings: {},
+    notified: 0,
+    failed: 0,
+    errors: [],
+  };
+  const readings = new Map<Currency, RainbowZoneReading>();
+
+  for (const currency of currencies) {
+    try {
+      const reading = readRainbowZone(await loadRainbowModel(currency));
+      if (!reading) throw new Error("No BTC price history available");
+      readings.set(currency, reading);
+      evaluation.readings[currency] = {
+        zone: reading.zone,
+        label: reading.label,
+        date: reading.date,
+        price: reading.price,
+      };
+    } catch (error) {
+      evaluation.errors.push({ currency, error: getErrorMessage(error) });
+    }
+  }
+
+  // Compare-and-set dentro de la cola de escrituras: la zona nueva se guarda
+  // antes de entregar, así una evaluación superpuesta ya la ve y no repite el
+  // aviso. Si la entrega falla después de los reintentos, queda en el log.
+  const changes = await updateSubscriptions((stored) => {
+    const pending: Array<{
+      subscription: ZoneAlertSubscription;
+      previousZone: number;
+      reading: RainbowZoneReading;
+    }> = [];
+    const updated = stored.map((subscription) => {
+      const reading = readings.get(subscription.currency);
+      if (!reading) return subscription;
+      if (
+        subscription.lastZone !== null &&
+        shouldNotify(subscription, subscription.lastZone, reading.zone)
+      ) {
+        pending.push({
+          subscription,
+          previousZone: subscription.lastZone,
+          reading,
+        });
+      }
+      return { ...subscription, lastZone: reading.zone, lastCheckedAt: checkedAt };
+    });
+    return { subscriptions: updated, result: pending };
+  });
+
+  const delivered = await Promise.all(
+    changes.map(({ subscription, previousZone, reading }) =>
+      deliver(subscription, "zone.changed", {
+        currency: subscription.currency,
+        date: reading.date,
+        price: reading.price,
+        previousZone: describeZone(previousZone),
+        zone: describeZone(reading.zone),
+      }),
+    ),
+  );
+
+  evaluation.notified = delivered.filter((log) => log.ok).length;
+  evaluation.failed = delivered.length - evaluation.notified;
+  await appendDeliveryLogs(delivered);
+
+  return evaluation;
+}
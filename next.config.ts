@@ -1,7 +1,30 @@
 import type { NextConfig } from "next";
 
+// Orígenes que pueden mostrar /embed/* en un iframe, separados por espacio.
+const embedFrameAncestors = process.env.EMBED_FRAME_ANCESTORS?.trim() || "*";
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    return [
+      {
+        // El resto del sitio no se puede enmarcar desde otros dominios.
+        source: "/((?!embed/|api/).*)",
+        headers: [
+          { key: "Content-Security-Policy", value: "frame-ancestors 'self'" },
+          { key: "X-Frame-Options", value: "SAMEORIGIN" },
+        ],
+      },
+      {
+        source: "/embed/:chart",
+        headers: [
+          {
+            key: "Content-Security-Policy",
+            value: `frame-ancestors ${embedFrameAncestors}`,
+          },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
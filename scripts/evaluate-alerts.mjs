@@ -0,0 +1,27 @@
+// Dispara una evaluación de alertas de zona; pensado para cron, por ejemplo
+// `*/30 * * * * ALERTS_BASE_URL=https://... ALERTS_CRON_SECRET=... npm run alerts:evaluate`.
+const BASE_URL = process.env.ALERTS_BASE_URL ?? "http://localhost:3000";
+const CRON_SECRET = process.env.ALERTS_CRON_SECRET;
+
+try {
+  const res = await fetch(new URL("/api/alerts/evaluate", BASE_URL), {
+    method: "POST",
+    headers: CRON_SECRET ? { Authorization: `Bearer ${CRON_SECRET}` } : {},
+  });
+  const body = await res.json();
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${body.error ?? "unknown"}`);
+
+  for (const [currency, reading] of Object.entries(body.readings)) {
+    console.log(`· ${currency}: zona ${reading.zone} (${reading.label}) al ${reading.date}`);
+  }
+  for (const { currency, error } of body.errors) {
+    console.error(`✗ ${currency}: ${error}`);
+  }
+  console.log(
+    `✓ ${body.subscriptions} suscripciones, ${body.notified} avisos, ${body.failed} fallidos`,
+  );
+  process.exitCode = body.failed > 0 || body.errors.length > 0 ? 1 : 0;
+} catch (error) {
+  console.error(`✗ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
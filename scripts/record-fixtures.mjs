@@ -0,0 +1,70 @@
+// Graba fixtures nuevos recorriendo las rutas de la API contra un servidor
+// levantado con UPSTREAM_MODE=record (por ejemplo `UPSTREAM_MODE=record npm run dev`).
+import { stat } from "node:fs/promises";
+import path from "node:path";
+
+const BASE_URL = process.env.FIXTURES_BASE_URL ?? "http://localhost:3000";
+const FIXTURES_DIR =
+  process.env.UPSTREAM_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures");
+
+const ROUTES = [
+  { route: "/api/markets", fixtures: ["coingecko-markets"] },
+  ...["bitcoin", "ethereum", "solana"].map((id) => ({
+    route: `/api/markets/${id}`,
+    fixtures: [`coingecko-coin-${id}`, `coingecko-chart-${id}`],
+  })),
+  { route: "/api/rainbow", fixtures: ["bitcoin-com-rainbow"] },
+  ...["1h", "1d", "1w"].map((resolution) => ({
+    route: `/api/ohlc?resolution=${resolution}`,
+    fixtures: [`kraken-ohlc-${resolution}`],
+  })),
+  {
+    route: "/api/realized",
+    fixtures: ["bgeometrics-realized-price", "bgeometrics-btc-price"],
+  },
+  {
+    route: "/api/fx",
+    fixtures: ["frankfurter-usd-eur", "argentinadatos-oficial"],
+  },
+  {
+    route: "/api/fx/ars",
+    fixtures: ["argentinadatos-bolsa", "argentinadatos-blue"],
+  },
+];
+
+async function modifiedAt(fixture) {
+  try {
+    return (await stat(path.join(FIXTURES_DIR, `${fixture}.json`))).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+let failed = false;
+
+for (const { route, fixtures } of ROUTES) {
+  const before = await Promise.all(fixtures.map(modifiedAt));
+
+  try {
+    const res = await fetch(new URL(route, BASE_URL));
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${route}: ${error instanceof Error ? error.message : error}`);
+    continue;
+  }
+
+  const after = await Promise.all(fixtures.map(modifiedAt));
+  fixtures.forEach((fixture, i) => {
+    if (after[i] > before[i]) {
+      console.log(`✓ ${fixture}.json grabado desde ${route}`);
+    } else {
+      failed = true;
+      console.error(
+        `✗ ${fixture}.json sin cambios: ¿el servidor corre con UPSTREAM_MODE=record?`,
+      );
+    }
+  });
+}
+
+process.exitCode = failed ? 1 : 0;
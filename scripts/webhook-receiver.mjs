@@ -0,0 +1,69 @@
+// Receptor local para probar los webhooks de alertas. Verifica la firma con
+// WEBHOOK_SECRET (el `secret` devuelto al crear la suscripción) e imprime cada
+// payload. Con WEBHOOK_FAIL=1 responde 500 para ver los reintentos.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.WEBHOOK_PORT ?? 4010);
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL = process.env.WEBHOOK_FAIL === "1";
+// Mismo margen que conviene usar en un receptor real contra replays.
+const MAX_SKEW_SECONDS = 300;
+
+function isValidSignature(signature, timestamp, body) {
+  if (!SECRET) return null;
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex")}`,
+  );
+  const received = Buffer.from(signature ?? "");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const timestamp = req.headers["x-bitatlas-timestamp"];
+    const signature = isValidSignature(
+      req.headers["x-bitatlas-signature"],
+      timestamp,
+      body,
+    );
+    const verified =
+      signature === null
+        ? null
+        : signature &&
+          Math.abs(Date.now() / 1000 - Number(timestamp)) <= MAX_SKEW_SECONDS;
+
+    console.log(
+      `→ ${req.headers["x-bitatlas-event"]} ${req.headers["x-bitatlas-delivery"]}`,
+      verified === null
+        ? "(sin WEBHOOK_SECRET, firma sin verificar)"
+        : verified
+          ? "firma ok"
+          : "FIRMA INVÁLIDA",
+    );
+    // Un cuerpo que no es JSON se muestra tal cual y se responde igual.
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log("(cuerpo no JSON)", body);
+    }
+
+    if (verified === false) {
+      res.writeHead(401).end();
+    } else {
+      res.writeHead(FAIL ? 500 : 204).end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Receptor de webhooks en http://localhost:${PORT}`);
+});